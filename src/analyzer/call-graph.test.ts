@@ -0,0 +1,133 @@
+import { describe, expect, it } from 'vitest';
+import { analyzeSources } from '../test-utils.js';
+
+describe('buildCallGraph', () => {
+  it('follows calls into other files and records the call chain', () => {
+    const { issues } = analyzeSources({
+      'users.ts': `
+        import { prisma } from './client';
+        export async function createUser(email: string) {
+          return prisma.user.create({ data: { email } });
+        }
+        export const findUsers = async (email: string) =>
+          prisma.user.findMany({ where: { email } });
+      `,
+      'service.ts': `
+        import { createUser, findUsers } from './users';
+        export async function signUp(email: string) {
+          await createUser(email);
+          return findUsers(email);
+        }
+      `,
+    });
+
+    expect(issues).toHaveLength(1);
+    expect(issues[0].callChain).toEqual([
+      { functionName: 'signUp', file: '/project/service.ts', line: 4 },
+      { functionName: 'createUser', file: '/project/users.ts', line: 4 },
+      { functionName: 'signUp', file: '/project/service.ts', line: 5 },
+      { functionName: 'findUsers', file: '/project/users.ts', line: 7 },
+    ]);
+  });
+
+  it('stops following calls at the maximum depth', () => {
+    const source = `
+      import { prisma } from './client';
+      async function write(id: number) {
+        await prisma.user.delete({ where: { id } });
+      }
+      async function viaHelper(id: number) {
+        await write(id);
+      }
+      export async function run(id: number) {
+        await viaHelper(id);
+        return prisma.user.findFirst({ where: { id } });
+      }
+    `;
+    const find = (maxDepth: number) =>
+      analyzeSources({ 'service.ts': source }, { config: { maxDepth } })
+        .issues.map((issue) => issue.callChain[0].functionName);
+
+    expect(find(2)).toEqual(['run']);
+    expect(find(1)).toEqual([]);
+  });
+
+  it('keeps operations reached along many paths once per call', () => {
+    // Each level calls the next twice: 2^40 paths to the same two operations
+    const levels = Array.from(
+      { length: 40 },
+      (_, i) => `
+        async function level${i}(id: number) {
+          await level${i + 1}(id);
+          await level${i + 1}(id);
+        }
+      `
+    );
+    const { context, getSourceFile } = analyzeSources({
+      'service.ts': `
+        import { prisma } from './client';
+        ${levels.join('\n')}
+        async function level40(id: number) {
+          await prisma.user.update({ where: { id }, data: {} });
+          await prisma.user.findFirst({ where: { id } });
+        }
+      `,
+    });
+
+    const summary = context.callGraph
+      .getFunctionsInFile(getSourceFile('service.ts'))
+      .find(({ name }) => name === 'level0')!;
+    expect(context.callGraph.getReachableOperations(summary)).toHaveLength(4);
+  });
+
+  it('expands functions that all call each other in little time', () => {
+    // Every helper calls the eleven others; helper0 also writes
+    const names = Array.from({ length: 12 }, (_, i) => `helper${i}`);
+    const helpers = names.map(
+      (name) => `
+        async function ${name}(id: number): Promise<void> {
+          ${name === 'helper0' ? 'await prisma.user.update({ where: { id }, data: {} });' : ''}
+          ${names
+            .filter((other) => other !== name)
+            .map((other) => `await ${other}(id - 1);`)
+            .join('\n')}
+        }
+      `
+    );
+    const { context, getSourceFile } = analyzeSources({
+      'service.ts': `
+        import { prisma } from './client';
+        ${helpers.join('\n')}
+        export async function run(id: number) {
+          await helper11(id);
+          return prisma.user.findFirst({ where: { id } });
+        }
+      `,
+    });
+
+    const started = Date.now();
+    const summaries = context.callGraph.getFunctionsInFile(getSourceFile('service.ts'));
+    for (const summary of summaries) {
+      context.callGraph.getReachableOperations(summary);
+    }
+    expect(Date.now() - started).toBeLessThan(2000);
+
+    // The write is reached along the fewest calls: run -> helper11 -> helper0
+    const run = summaries.find(({ name }) => name === 'run')!;
+    const chains = context.callGraph.getReachableOperations(run).map(({ chain }) => chain);
+    expect(chains.map((chain) => chain.length)).toEqual([3, 1]);
+  });
+
+  it('does not report an inline callback separately from its function', () => {
+    const { issues } = analyzeSources({
+      'service.ts': `
+        import { prisma } from './client';
+        export async function importUsers(emails: string[]) {
+          await prisma.user.createMany({ data: emails.map((email) => ({ email })) });
+          await Promise.all(emails.map((email) => prisma.user.findFirst({ where: { email } })));
+        }
+      `,
+    });
+    expect(issues.map((issue) => issue.callChain[0].functionName)).toEqual(['importUsers']);
+  });
+});
@@ -0,0 +1,556 @@
+import type {
+  ArrowFunction,
+  CallExpression,
+  FunctionDeclaration,
+  FunctionExpression,
+  MethodDeclaration,
+  Node,
+  SourceFile,
+} from 'ts-morph';
+import { SyntaxKind } from 'ts-morph';
+import type { CallChainEntry, PrismaOperation } from '../types.js';
+import { getTargetDeclarations } from '../utils/ast-utils.js';
+import { createContractOperations, findCallContract } from './contracts.js';
+import type { ClassifierContext, OperationNode } from './operation-classifier.js';
+import { classifyOperation } from './operation-classifier.js';
+
+export const DEFAULT_MAX_DEPTH = 100;
+
+export type FunctionLikeNode =
+  | FunctionDeclaration
+  | ArrowFunction
+  | FunctionExpression
+  | MethodDeclaration;
+
+const FUNCTION_KINDS: ReadonlySet<SyntaxKind> = new Set([
+  SyntaxKind.FunctionDeclaration,
+  SyntaxKind.ArrowFunction,
+  SyntaxKind.FunctionExpression,
+  SyntaxKind.MethodDeclaration,
+]);
+
+export interface OperationEvent {
+  kind: 'operation';
+  operation: PrismaOperation;
+  node: OperationNode;
+}
+
+export interface CallEvent {
+  kind: 'call';
+  callee: FunctionLikeNode;
+  node: CallExpression;
+  line: number;
+}
+
+export type FunctionEvent = OperationEvent | CallEvent;
+
+export interface FunctionSummary {
+  node: FunctionLikeNode;
+  name: string;
+  file: string;
+  line: number;
+  /**
+   * Prisma operations and resolved calls written in the function or in the
+   * inline callbacks merged into it, in source order
+   */
+  events: FunctionEvent[];
+}
+
+export interface ReachableOperation {
+  operation: PrismaOperation;
+  node: OperationNode;
+  /** The event in the analyzed function that leads to this operation */
+  event: FunctionEvent;
+  /** Frames from the analyzed function down to the operation itself */
+  chain: CallChainEntry[];
+}
+
+export interface CallSite {
+  caller: FunctionSummary;
+  event: CallEvent;
+}
+
+/**
+ * Events of functions kept from an earlier run, so the calls of files that
+ * did not change are not classified and resolved again
+ */
+export interface SummaryStore {
+  get: (node: FunctionLikeNode) => FunctionEvent[] | undefined;
+  set: (node: FunctionLikeNode, events: FunctionEvent[]) => void;
+}
+
+export interface CallGraph {
+  getSummary: (node: FunctionLikeNode) => FunctionSummary;
+  /** The scopes of a file: every function except the inline callbacks merged into another */
+  getFunctionsInFile: (sourceFile: SourceFile) => FunctionSummary[];
+  getReachableOperations: (summary: FunctionSummary) => ReachableOperation[];
+  /** Calls to a function from anywhere in the project, each in the scope it is written in */
+  getCallers: (summary: FunctionSummary) => CallSite[];
+}
+
+/**
+ * Build a lazily evaluated call graph over the project's source files.
+ * Summaries are created on first access, so functions in files outside the
+ * analyzed set are still followed when they are reached through a call.
+ */
+export const buildCallGraph = (options: {
+  maxDepth: number;
+  classifierContext?: ClassifierContext;
+  summaryStore?: SummaryStore;
+}): CallGraph => {
+  const summaries = new Map<Node, FunctionSummary>();
+  const reachableCache = new Map<string, ReachableOperation[]>();
+  const components = new Map<Node, Set<Node>>();
+  const nodeIds = new Map<Node, number>();
+  let callers: Map<Node, CallSite[]> | undefined;
+
+  const getSummary = (node: FunctionLikeNode): FunctionSummary => {
+    const cached = summaries.get(node);
+    if (cached) {
+      return cached;
+    }
+
+    let events = options.summaryStore?.get(node);
+    if (!events) {
+      events = collectEvents(node, options.classifierContext);
+      options.summaryStore?.set(node, events);
+    }
+
+    const sourceFile = node.getSourceFile();
+    const summary: FunctionSummary = {
+      node,
+      name: getFunctionName(node),
+      file: sourceFile.getFilePath(),
+      line: sourceFile.getLineAndColumnAtPos(node.getStart()).line,
+      events,
+    };
+
+    summaries.set(node, summary);
+    return summary;
+  };
+
+  const getFunctionsInFile = (sourceFile: SourceFile): FunctionSummary[] => {
+    const functions = sourceFile
+      .getDescendants()
+      .filter(
+        (node): node is FunctionLikeNode =>
+          FUNCTION_KINDS.has(node.getKind()) && !isMergedFunction(node as FunctionLikeNode)
+      );
+
+    return functions.map(getSummary);
+  };
+
+  const getNodeId = (node: Node): number => {
+    let id = nodeIds.get(node);
+    if (id === undefined) {
+      id = nodeIds.size;
+      nodeIds.set(node, id);
+    }
+    return id;
+  };
+
+  /**
+   * Find the functions that call each other with a function, directly or
+   * through others: its strongly connected component of the call graph.
+   * Tarjan's algorithm finishes every component it passes on the way.
+   */
+  const getComponent = (summary: FunctionSummary): Set<Node> => {
+    const known = components.get(summary.node);
+    if (known) {
+      return known;
+    }
+
+    const indexes = new Map<Node, number>();
+    const lowLinks = new Map<Node, number>();
+    const stack: Node[] = [];
+    const onStack = new Set<Node>();
+
+    const visit = (current: FunctionSummary): void => {
+      const { node } = current;
+      const index = indexes.size;
+      indexes.set(node, index);
+      lowLinks.set(node, index);
+      stack.push(node);
+      onStack.add(node);
+
+      for (const event of current.events) {
+        // Components finished by an earlier search cannot lead back here
+        if (event.kind !== 'call' || components.has(event.callee)) {
+          continue;
+        }
+        if (!indexes.has(event.callee)) {
+          visit(getSummary(event.callee));
+          lowLinks.set(node, Math.min(lowLinks.get(node)!, lowLinks.get(event.callee)!));
+        } else if (onStack.has(event.callee)) {
+          lowLinks.set(node, Math.min(lowLinks.get(node)!, indexes.get(event.callee)!));
+        }
+      }
+
+      if (lowLinks.get(node) !== index) {
+        return;
+      }
+
+      const members = new Set<Node>();
+      let popped: Node;
+      do {
+        popped = stack.pop()!;
+        onStack.delete(popped);
+        members.add(popped);
+      } while (popped !== node);
+
+      for (const member of members) {
+        components.set(member, members);
+      }
+    };
+
+    visit(summary);
+    return components.get(summary.node)!;
+  };
+
+  /**
+   * Flatten the operations a function performs, expanding calls into the
+   * callee's own operations until the depth budget runs out. The result only
+   * depends on the function and the budget, so every expansion is reused.
+   */
+  const expand = (summary: FunctionSummary, remainingDepth: number): ReachableOperation[] => {
+    const key = `${getNodeId(summary.node)}:${remainingDepth}`;
+    const cached = reachableCache.get(key);
+    if (cached) {
+      return cached;
+    }
+
+    const operations: ReachableOperation[] = [];
+    for (const event of summary.events) {
+      if (event.kind === 'operation') {
+        operations.push({
+          operation: event.operation,
+          node: event.node,
+          event,
+          chain: [
+            {
+              functionName: summary.name,
+              file: summary.file,
+              line: event.operation.location.line,
+            },
+          ],
+        });
+        continue;
+      }
+
+      if (remainingDepth <= 0) {
+        continue;
+      }
+
+      const callFrame: CallChainEntry = {
+        functionName: summary.name,
+        file: summary.file,
+        line: event.line,
+      };
+
+      const callee = getSummary(event.callee);
+      const inner = getComponent(summary).has(callee.node)
+        ? walkComponent(callee, remainingDepth - 1, summary.node)
+        : expand(callee, remainingDepth - 1);
+
+      // An operation the callee reaches along several paths, e.g. a helper
+      // called twice, is kept once with its first chain. Copying every path
+      // grows exponentially with the depth of repeated calls.
+      const seen = new Set<PrismaOperation>();
+      for (const reachable of inner) {
+        if (seen.has(reachable.operation)) {
+          continue;
+        }
+        seen.add(reachable.operation);
+        operations.push({
+          operation: reachable.operation,
+          node: reachable.node,
+          event,
+          chain: [callFrame, ...reachable.chain],
+        });
+      }
+    }
+
+    reachableCache.set(key, operations);
+    return operations;
+  };
+
+  /**
+   * Collect the operations reached by calling a function that can call back
+   * into its caller. The functions of their component are walked once each,
+   * along the fewest calls from the callee, and the caller is not entered
+   * again; functions outside the component are expanded on their own.
+   */
+  const walkComponent = (
+    start: FunctionSummary,
+    remainingDepth: number,
+    caller: Node
+  ): ReachableOperation[] => {
+    const component = getComponent(start);
+
+    // Fewest calls from the start to each function it reaches in the budget
+    const distances = new Map<Node, number>([[start.node, 0]]);
+    const queue = [start];
+    for (const current of queue) {
+      const distance = distances.get(current.node)!;
+      if (distance >= remainingDepth) {
+        continue;
+      }
+      for (const event of current.events) {
+        if (
+          event.kind === 'call' &&
+          event.callee !== caller &&
+          component.has(event.callee) &&
+          !distances.has(event.callee)
+        ) {
+          distances.set(event.callee, distance + 1);
+          queue.push(getSummary(event.callee));
+        }
+      }
+    }
+
+    const operations: ReachableOperation[] = [];
+    const visited = new Set<Node>([start.node]);
+
+    const visit = (current: FunctionSummary, chain: CallChainEntry[]): void => {
+      const distance = distances.get(current.node)!;
+      for (const event of current.events) {
+        if (event.kind === 'operation') {
+          operations.push({
+            operation: event.operation,
+            node: event.node,
+            event,
+            chain: [
+              ...chain,
+              {
+                functionName: current.name,
+                file: current.file,
+                line: event.operation.location.line,
+              },
+            ],
+          });
+          continue;
+        }
+
+        if (distance >= remainingDepth) {
+          continue;
+        }
+
+        const callFrame: CallChainEntry = {
+          functionName: current.name,
+          file: current.file,
+          line: event.line,
+        };
+
+        if (!component.has(event.callee)) {
+          const inner = expand(getSummary(event.callee), remainingDepth - distance - 1);
+          for (const reachable of inner) {
+            operations.push({ ...reachable, event, chain: [...chain, callFrame, ...reachable.chain] });
+          }
+          continue;
+        }
+
+        if (distances.get(event.callee) === distance + 1 && !visited.has(event.callee)) {
+          visited.add(event.callee);
+          visit(getSummary(event.callee), [...chain, callFrame]);
+        }
+      }
+    };
+
+    visit(start, []);
+    return operations;
+  };
+
+  const getReachableOperations = (summary: FunctionSummary): ReachableOperation[] => {
+    return expand(summary, options.maxDepth);
+  };
+
+  /**
+   * Index the calls of every scope in the project by callee, on first use
+   */
+  const getCallers = (summary: FunctionSummary): CallSite[] => {
+    if (!callers) {
+      callers = new Map();
+      const sourceFiles = summary.node
+        .getProject()
+        .getSourceFiles()
+        .filter((sourceFile) => !sourceFile.isDeclarationFile() && !sourceFile.isInNodeModules());
+
+      for (const caller of sourceFiles.flatMap(getFunctionsInFile)) {
+        for (const event of caller.events) {
+          if (event.kind !== 'call') {
+            continue;
+          }
+          const sites = callers.get(event.callee) ?? [];
+          sites.push({ caller, event });
+          callers.set(event.callee, sites);
+        }
+      }
+    }
+    return callers.get(summary.node) ?? [];
+  };
+
+  return { getSummary, getFunctionsInFile, getReachableOperations, getCallers };
+};
+
+/**
+ * Collect Prisma operations, the operations declared by the contracts of
+ * called functions and calls to resolvable functions, in source order.
+ * Inline callbacks, e.g. of .map() or $transaction(), are merged in: they
+ * usually run where they are written. Other nested functions run where they
+ * are called and are left to those calls.
+ */
+const collectEvents = (
+  func: FunctionLikeNode,
+  classifierContext: ClassifierContext = {}
+): FunctionEvent[] => {
+  const events: FunctionEvent[] = [];
+  const sourceFile = func.getSourceFile();
+
+  func.forEachDescendant((node, traversal) => {
+    if (FUNCTION_KINDS.has(node.getKind()) && !isInlineFunction(node as FunctionLikeNode)) {
+      traversal.skip();
+      return;
+    }
+
+    // Raw queries may be tagged templates: prisma.$queryRaw`...`
+    if (node.isKind(SyntaxKind.TaggedTemplateExpression)) {
+      const operation = classifyOperation(node, classifierContext);
+      if (operation) {
+        events.push({ kind: 'operation', operation, node });
+      }
+      return;
+    }
+
+    if (!node.isKind(SyntaxKind.CallExpression)) {
+      return;
+    }
+
+    const callExpr = node;
+    const operation = classifyOperation(callExpr, classifierContext);
+    if (operation) {
+      events.push({ kind: 'operation', operation, node: callExpr });
+      return;
+    }
+
+    // A contract stands for whatever the function does, body or not
+    const contract = findCallContract(callExpr);
+    if (contract) {
+      for (const declared of createContractOperations(callExpr, contract, classifierContext)) {
+        events.push({ kind: 'operation', operation: declared, node: callExpr });
+      }
+      return;
+    }
+
+    const callee = resolveCallee(callExpr);
+    if (callee && callee !== func) {
+      events.push({
+        kind: 'call',
+        callee,
+        node: callExpr,
+        line: sourceFile.getLineAndColumnAtPos(callExpr.getStart()).line,
+      });
+    }
+  });
+
+  return events;
+};
+
+/**
+ * Whether a function is written where it runs, such as a callback passed
+ * as an argument, rather than bound to a name and run where it is called
+ */
+export const isInlineFunction = (func: FunctionLikeNode): boolean => {
+  if (!func.isKind(SyntaxKind.ArrowFunction) && !func.isKind(SyntaxKind.FunctionExpression)) {
+    return false;
+  }
+  const parent = func.getParent();
+  return !(
+    parent.isKind(SyntaxKind.VariableDeclaration) ||
+    parent.isKind(SyntaxKind.PropertyDeclaration) ||
+    parent.isKind(SyntaxKind.PropertyAssignment)
+  );
+};
+
+/**
+ * Whether a function's operations belong to the function around it: an
+ * inline callback inside another function. Top-level callbacks, e.g. route
+ * handlers, are scopes of their own.
+ */
+export const isMergedFunction = (func: FunctionLikeNode): boolean => {
+  return (
+    isInlineFunction(func) &&
+    func.getAncestors().some((ancestor) => FUNCTION_KINDS.has(ancestor.getKind()))
+  );
+};
+
+/**
+ * Resolve the function a call expression invokes, following imports
+ */
+export const resolveCallee = (callExpr: CallExpression): FunctionLikeNode | null => {
+  for (const declaration of getTargetDeclarations(callExpr.getExpression())) {
+    const func = toFunctionLike(declaration);
+    if (func && func.getBody()) {
+      return func;
+    }
+  }
+
+  return null;
+};
+
+/**
+ * Map a declaration to the function node that implements it
+ * e.g., const getUsers = async () => {...} -> the arrow function
+ */
+const toFunctionLike = (declaration: Node): FunctionLikeNode | null => {
+  if (FUNCTION_KINDS.has(declaration.getKind())) {
+    return declaration as FunctionLikeNode;
+  }
+
+  if (
+    declaration.isKind(SyntaxKind.VariableDeclaration) ||
+    declaration.isKind(SyntaxKind.PropertyDeclaration) ||
+    declaration.isKind(SyntaxKind.PropertyAssignment)
+  ) {
+    const initializer = declaration.getInitializer();
+    if (initializer && FUNCTION_KINDS.has(initializer.getKind())) {
+      return initializer as FunctionLikeNode;
+    }
+  }
+
+  return null;
+};
+
+/**
+ * Get a readable name for a function node
+ * e.g., UserService.create, getUsers, <anonymous>
+ */
+export const getFunctionName = (func: FunctionLikeNode): string => {
+  if (func.isKind(SyntaxKind.MethodDeclaration)) {
+    const owner = func.getParent();
+    const ownerName =
+      owner.isKind(SyntaxKind.ClassDeclaration) || owner.isKind(SyntaxKind.ClassExpression)
+        ? owner.getName()
+        : undefined;
+    return ownerName ? `${ownerName}.${func.getName()}` : func.getName();
+  }
+
+  if (func.isKind(SyntaxKind.FunctionDeclaration)) {
+    return func.getName() ?? '<anonymous>';
+  }
+
+  const parent = func.getParent();
+  if (
+    parent &&
+    (parent.isKind(SyntaxKind.VariableDeclaration) ||
+      parent.isKind(SyntaxKind.PropertyDeclaration) ||
+      parent.isKind(SyntaxKind.PropertyAssignment))
+  ) {
+    return parent.getName();
+  }
+
+  if (func.isKind(SyntaxKind.FunctionExpression)) {
+    return func.getName() ?? '<anonymous>';
+  }
+
+  return '<anonymous>';
+};
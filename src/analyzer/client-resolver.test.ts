@@ -0,0 +1,88 @@
+import { SyntaxKind } from 'ts-morph';
+import { describe, expect, it } from 'vitest';
+import { analyzeSources } from '../test-utils.js';
+import { createClientResolver } from './client-resolver.js';
+
+/** Typed stand-ins for the generated client, whose types the checker resolves */
+const PRISMA_TYPES = `
+  declare module '@prisma/client/runtime/library' {
+    export namespace Types.Extensions {
+      type DynamicModelExtensionThis<TypeMap, ModelName extends string, ExtArgs> = {
+        findMany(args?: object): Promise<object[]>;
+      };
+    }
+  }
+
+  declare module '@prisma/client' {
+    export namespace Prisma {
+      type TypeMap<ExtArgs, ClientOptions> = { meta: { modelProps: 'user' | 'post' } };
+      interface UserDelegate<ExtArgs = {}> {
+        findMany(args?: object): Promise<object[]>;
+      }
+    }
+
+    export class PrismaClient {
+      user: Prisma.UserDelegate;
+    }
+  }
+`;
+
+/** Resolve the receiver of each findMany() call in a function's body */
+const resolveReceivers = (source: string) => {
+  const { getSourceFile } = analyzeSources({ 'prisma.d.ts': PRISMA_TYPES, 'service.ts': source });
+  const resolver = createClientResolver([]);
+  return getSourceFile('service.ts')
+    .getDescendantsOfKind(SyntaxKind.PropertyAccessExpression)
+    .filter((access) => access.getName() === 'findMany')
+    .map((access) => resolver.resolveDelegate(access.getExpression()));
+};
+
+describe('createClientResolver', () => {
+  it('resolves a delegate by the type Prisma generates for it', () => {
+    const receivers = resolveReceivers(`
+      import type { Prisma } from '@prisma/client';
+      export const listUsers = (users: Prisma.UserDelegate) => users.findMany();
+    `);
+    expect(receivers).toEqual([{ model: 'user', client: { hasReadReplicaExtension: false } }]);
+  });
+
+  it('resolves the model of an extended delegate past the commas of its type map', () => {
+    const receivers = resolveReceivers(`
+      import type { Prisma } from '@prisma/client';
+      import type { Types } from '@prisma/client/runtime/library';
+      export const listUsers = (
+        users: Types.Extensions.DynamicModelExtensionThis<
+          Prisma.TypeMap<{ result: {} }, { log: ['query', 'warn'] }>,
+          'User',
+          {}
+        >
+      ) => users.findMany();
+    `);
+    expect(receivers).toEqual([{ model: 'user', client: { hasReadReplicaExtension: true } }]);
+  });
+
+  it('does not take application types named like a delegate for Prisma ones', () => {
+    const receivers = resolveReceivers(`
+      interface EventDelegate {
+        findMany(): Promise<object[]>;
+      }
+      export const listEvents = (events: EventDelegate) => events.findMany();
+    `);
+    expect(receivers).toEqual([null]);
+  });
+
+  it('resolves a client by its type', () => {
+    const { getSourceFile } = analyzeSources({
+      'prisma.d.ts': PRISMA_TYPES,
+      'service.ts': `
+        import type { PrismaClient } from '@prisma/client';
+        export const listUsers = (db: PrismaClient) => db.user.findMany();
+      `,
+    });
+    const db = getSourceFile('service.ts')
+      .getDescendantsOfKind(SyntaxKind.Identifier)
+      .filter((identifier) => identifier.getText() === 'db')
+      .at(-1)!;
+    expect(createClientResolver([]).resolveClient(db)).toEqual({ hasReadReplicaExtension: false });
+  });
+});
@@ -0,0 +1,383 @@
+import type { Node, Type } from 'ts-morph';
+import { SyntaxKind } from 'ts-morph';
+import { getTargetDeclarations, unwrapExpression } from '../utils/ast-utils.js';
+import { resolveCallee } from './call-graph.js';
+import type { PrismaClientInstance } from './prisma-detector.js';
+import {
+  getFieldAssignments,
+  getParameterArguments,
+  getReturnExpressions,
+} from './value-origins.js';
+
+export interface ResolvedClient {
+  hasReadReplicaExtension: boolean;
+}
+
+export interface ResolvedDelegate {
+  /** Client property name of the model, e.g. "user" */
+  model: string;
+  client: ResolvedClient;
+}
+
+export interface ClientResolver {
+  /** Resolve an expression that evaluates to a Prisma client */
+  resolveClient: (expression: Node) => ResolvedClient | null;
+  /** Resolve an expression that evaluates to a model delegate, e.g. prisma.user */
+  resolveDelegate: (expression: Node) => ResolvedDelegate | null;
+}
+
+const CLIENT_TYPE_PATTERN = /\b(PrismaClient|DynamicClientExtensionThis|TransactionClient)\b/;
+// Generated delegates live in the Prisma namespace: Prisma.UserDelegate
+const DELEGATE_TYPE_PATTERN = /\bPrisma\.(\w+)Delegate\b/;
+// Delegates of extended clients come from the runtime, printed through the
+// namespace or the module: runtime.Types.Extensions.DynamicModelExtensionThis
+const EXTENDED_DELEGATE_TYPE_PATTERN =
+  /(?:\bExtensions\.|\bruntime\.|@prisma\/client\/runtime\/\w+"\)\.)DynamicModelExtensionThis</;
+
+/**
+ * Create a resolver that decides whether an expression is a Prisma client or
+ * model delegate. Types from the checker are used when they resolve; when
+ * @prisma/client is not installed, values are traced back to the detected
+ * PrismaClient instances through their declarations instead.
+ */
+export const createClientResolver = (prismaInstances: PrismaClientInstance[]): ClientResolver => {
+  const instancesByLocation = new Map<string, PrismaClientInstance>();
+  for (const instance of prismaInstances) {
+    instancesByLocation.set(`${instance.file}:${instance.line}:${instance.name}`, instance);
+  }
+
+  const clientCache = new Map<Node, ResolvedClient | null>();
+  const delegateCache = new Map<Node, ResolvedDelegate | null>();
+
+  const resolveClient = (expression: Node): ResolvedClient | null => {
+    const node = unwrapExpression(expression);
+    if (clientCache.has(node)) {
+      return clientCache.get(node) ?? null;
+    }
+
+    // Guard against cycles through self-referencing declarations
+    clientCache.set(node, null);
+    const result = resolveClientUncached(node);
+    clientCache.set(node, result);
+    return result;
+  };
+
+  const resolveClientUncached = (node: Node): ResolvedClient | null => {
+    // prisma.$primary(), prisma.$replica(), prisma.$extends(...)
+    if (node.isKind(SyntaxKind.CallExpression)) {
+      const callee = node.getExpression();
+      if (callee.isKind(SyntaxKind.PropertyAccessExpression)) {
+        const name = callee.getName();
+        if (name === '$primary' || name === '$replica') {
+          return resolveClient(callee.getExpression());
+        }
+        if (name === '$extends') {
+          const base = resolveClient(callee.getExpression());
+          if (!base) {
+            return null;
+          }
+          const extendsReplicas = node
+            .getArguments()
+            .some((arg) => arg.getText().includes('readReplicas'));
+          return { hasReadReplicaExtension: base.hasReadReplicaExtension || extendsReplicas };
+        }
+      }
+    }
+
+    // new PrismaClient()
+    if (node.isKind(SyntaxKind.NewExpression)) {
+      return isPrismaClientClass(node.getExpression()) ? { hasReadReplicaExtension: false } : null;
+    }
+
+    // Prefer the checker whenever the type resolves
+    const type = getResolvedType(node);
+    if (type) {
+      return isClientType(type)
+        ? { hasReadReplicaExtension: type.getProperty('$primary') !== undefined }
+        : null;
+    }
+
+    return resolveClientFromOrigins(node);
+  };
+
+  /**
+   * Trace a value back to where it was created: the declaration of a
+   * reference, or the return values of a called function
+   */
+  const resolveClientFromOrigins = (node: Node): ResolvedClient | null => {
+    if (node.isKind(SyntaxKind.CallExpression)) {
+      const func = resolveCallee(node);
+      return func ? combineClients(getReturnExpressions(func).map(resolveClient)) : null;
+    }
+
+    const isReference =
+      node.isKind(SyntaxKind.Identifier) || node.isKind(SyntaxKind.PropertyAccessExpression);
+    if (!isReference) {
+      return null;
+    }
+
+    for (const declaration of getTargetDeclarations(node)) {
+      if (declaration.isKind(SyntaxKind.VariableDeclaration)) {
+        const instance = instancesByLocation.get(getInstanceKey(declaration));
+        if (instance) {
+          return { hasReadReplicaExtension: instance.hasReadReplicaExtension };
+        }
+      }
+
+      if (
+        declaration.isKind(SyntaxKind.VariableDeclaration) ||
+        declaration.isKind(SyntaxKind.PropertyDeclaration)
+      ) {
+        const initializer = declaration.getInitializer();
+        if (initializer) {
+          return resolveClient(initializer);
+        }
+      }
+
+      if (declaration.isKind(SyntaxKind.Parameter)) {
+        const transactionClient = resolveTransactionParameter(declaration);
+        if (transactionClient) {
+          return transactionClient;
+        }
+
+        // Values passed in at call sites, including constructor injection
+        const passed = combineClients(getParameterArguments(declaration).map(resolveClient));
+        if (passed) {
+          return passed;
+        }
+      }
+
+      // Fields assigned in the class body: this.db = db
+      if (declaration.isKind(SyntaxKind.PropertyDeclaration)) {
+        const assigned = combineClients(getFieldAssignments(declaration).map(resolveClient));
+        if (assigned) {
+          return assigned;
+        }
+      }
+
+      if (
+        declaration.isKind(SyntaxKind.PropertyDeclaration) ||
+        declaration.isKind(SyntaxKind.Parameter)
+      ) {
+        const typeNode = declaration.getTypeNode();
+        if (typeNode && isPrismaClientClass(typeNode)) {
+          return { hasReadReplicaExtension: false };
+        }
+      }
+    }
+
+    return null;
+  };
+
+  /**
+   * Resolve the `tx` parameter of prisma.$transaction(async (tx) => ...)
+   */
+  const resolveTransactionParameter = (declaration: Node): ResolvedClient | null => {
+    const callback = declaration.getParent();
+    const call = callback?.getParent();
+    if (!call?.isKind(SyntaxKind.CallExpression) || call.getArguments()[0] !== callback) {
+      return null;
+    }
+
+    const callee = call.getExpression();
+    if (
+      !callee.isKind(SyntaxKind.PropertyAccessExpression) ||
+      callee.getName() !== '$transaction'
+    ) {
+      return null;
+    }
+
+    return resolveClient(callee.getExpression());
+  };
+
+  const resolveDelegate = (expression: Node): ResolvedDelegate | null => {
+    const node = unwrapExpression(expression);
+    if (delegateCache.has(node)) {
+      return delegateCache.get(node) ?? null;
+    }
+
+    delegateCache.set(node, null);
+    const result = resolveDelegateUncached(node);
+    delegateCache.set(node, result);
+    return result;
+  };
+
+  const resolveDelegateUncached = (node: Node): ResolvedDelegate | null => {
+    // prisma.user, this.prisma.user, prisma.$primary().user
+    if (node.isKind(SyntaxKind.PropertyAccessExpression)) {
+      const model = node.getName();
+      if (!model.startsWith('$')) {
+        const client = resolveClient(node.getExpression());
+        if (client) {
+          return { model, client };
+        }
+      }
+    }
+
+    // Aliases: const users = prisma.user; const { user } = prisma;
+    if (node.isKind(SyntaxKind.Identifier) || node.isKind(SyntaxKind.PropertyAccessExpression)) {
+      for (const declaration of getTargetDeclarations(node)) {
+        const delegate = resolveDelegateDeclaration(declaration);
+        if (delegate) {
+          return delegate;
+        }
+      }
+    }
+
+    // Delegates whose origin cannot be traced, e.g. parameters typed as a
+    // delegate. Read replicas are a client extension, so only delegates of
+    // extended clients can route to a replica.
+    const type = getResolvedType(node);
+    const delegateType = type ? getDelegateType(type) : null;
+    if (delegateType) {
+      return {
+        model: delegateType.model,
+        client: { hasReadReplicaExtension: delegateType.extended },
+      };
+    }
+
+    return null;
+  };
+
+  const resolveDelegateDeclaration = (declaration: Node): ResolvedDelegate | null => {
+    if (
+      declaration.isKind(SyntaxKind.VariableDeclaration) ||
+      declaration.isKind(SyntaxKind.PropertyDeclaration)
+    ) {
+      const initializer = declaration.getInitializer();
+      return initializer ? resolveDelegate(initializer) : null;
+    }
+
+    if (declaration.isKind(SyntaxKind.BindingElement)) {
+      const pattern = declaration.getParent();
+      const variable = pattern?.getParent();
+      if (!pattern?.isKind(SyntaxKind.ObjectBindingPattern) || !variable) {
+        return null;
+      }
+
+      const initializer = variable.isKind(SyntaxKind.VariableDeclaration)
+        ? variable.getInitializer()
+        : undefined;
+      const client = initializer ? resolveClient(initializer) : null;
+      if (!client) {
+        return null;
+      }
+
+      const model = declaration.getPropertyNameNode()?.getText() ?? declaration.getName();
+      return model.startsWith('$') ? null : { model, client };
+    }
+
+    return null;
+  };
+
+  return { resolveClient, resolveDelegate };
+};
+
+/**
+ * Merge the clients a value may come from. The value can reach a replica
+ * when any of them has the read replica extension.
+ */
+const combineClients = (clients: (ResolvedClient | null)[]): ResolvedClient | null => {
+  const resolved = clients.filter((client): client is ResolvedClient => client !== null);
+  if (resolved.length === 0) {
+    return null;
+  }
+  return { hasReadReplicaExtension: resolved.some((client) => client.hasReadReplicaExtension) };
+};
+
+/**
+ * Extract the model from a delegate type, e.g. Prisma.UserDelegate -> "user".
+ * The model of an extended delegate is its second type argument, after a
+ * type map whose own arguments hold commas.
+ */
+const getDelegateType = (type: Type): { model: string; extended: boolean } | null => {
+  const text = type.getText();
+  const extended = EXTENDED_DELEGATE_TYPE_PATTERN.exec(text);
+  const name = extended
+    ? /^"(\w+)"$/.exec(getTypeArguments(text, extended.index + extended[0].length)[1] ?? '')?.[1]
+    : DELEGATE_TYPE_PATTERN.exec(text)?.[1];
+  if (!name) {
+    return null;
+  }
+  return { model: name.charAt(0).toLowerCase() + name.slice(1), extended: Boolean(extended) };
+};
+
+/**
+ * Split the type arguments that start at an index of a type's text, just
+ * after the opening angle bracket, at the commas outside nested brackets
+ */
+const getTypeArguments = (text: string, start: number): string[] => {
+  const args: string[] = [];
+  let depth = 0;
+  let argStart = start;
+  for (let i = start; i < text.length; i++) {
+    const char = text[i];
+    if ('<([{'.includes(char)) {
+      depth++;
+    } else if ('>)]}'.includes(char) && text[i - 1] !== '=') {
+      if (depth === 0) {
+        args.push(text.slice(argStart, i).trim());
+        return args;
+      }
+      depth--;
+    } else if (char === ',' && depth === 0) {
+      args.push(text.slice(argStart, i).trim());
+      argStart = i + 1;
+    }
+  }
+  return args;
+};
+
+const getInstanceKey = (declaration: Node): string => {
+  const sourceFile = declaration.getSourceFile();
+  const { line } = sourceFile.getLineAndColumnAtPos(declaration.getStart());
+  const name = declaration.isKind(SyntaxKind.VariableDeclaration) ? declaration.getName() : '';
+  return `${sourceFile.getFilePath()}:${line}:${name}`;
+};
+
+/**
+ * Get the checker's type for a node, or null when it does not resolve
+ * (e.g. @prisma/client is not installed)
+ */
+const getResolvedType = (node: Node): Type | null => {
+  const type = node.getType().getNonNullableType();
+  if (type.isAny() || type.isUnknown()) {
+    return null;
+  }
+  return type;
+};
+
+const isClientType = (type: Type): boolean => {
+  if (CLIENT_TYPE_PATTERN.test(type.getText())) {
+    return true;
+  }
+
+  // Classes such as NestJS services that extend PrismaClient, checked by
+  // declaration too since the base type may not resolve
+  const declarations = type.getSymbol()?.getDeclarations() ?? [];
+  return (
+    type.getBaseTypes().some(isClientType) ||
+    declarations.some((declaration) => isPrismaSubclass(declaration))
+  );
+};
+
+const isPrismaSubclass = (declaration: Node): boolean => {
+  if (!declaration.isKind(SyntaxKind.ClassDeclaration)) {
+    return false;
+  }
+  const base = declaration.getExtends();
+  return base !== undefined && isPrismaClientClass(base.getExpression());
+};
+
+/**
+ * Check whether a class reference or type annotation names PrismaClient,
+ * directly or through a class that extends it
+ */
+const isPrismaClientClass = (node: Node): boolean => {
+  if (CLIENT_TYPE_PATTERN.test(node.getText())) {
+    return true;
+  }
+
+  const identifier = node.isKind(SyntaxKind.TypeReference) ? node.getTypeName() : node;
+  return getTargetDeclarations(identifier).some(isPrismaSubclass);
+};
@@ -0,0 +1,144 @@
+import { describe, expect, it } from 'vitest';
+import { analyzeSources } from '../test-utils.js';
+import { checkContracts } from './contracts.js';
+
+/** [function, line, message] of each contract warning in service.ts */
+const check = (service: string) => {
+  const { context, getSourceFile } = analyzeSources({ 'service.ts': service });
+  return checkContracts(getSourceFile('service.ts'), context.callGraph, context.schema ?? null).map(
+    ({ functionName, location, message }) => [functionName, location.line, message]
+  );
+};
+
+describe('checkContracts', () => {
+  it('accepts a contract that matches the body', () => {
+    expect(
+      check(`
+        import { prisma } from './client';
+        /**
+         * @prismaWrites User
+         * @prismaReads post
+         */
+        export async function publish(id: number) {
+          await prisma.user.update({ where: { id }, data: {} });
+          return prisma.post.findMany();
+        }
+      `)
+    ).toEqual([]);
+  });
+
+  it('warns about operations the contract leaves out or the body never runs', () => {
+    expect(
+      check(`
+        import { prisma } from './client';
+        /**
+         * @prismaWrites user, post
+         */
+        export async function publish(id: number) {
+          await prisma.user.update({ where: { id }, data: {} });
+          return prisma.auditLog.findMany();
+        }
+      `)
+    ).toEqual([
+      ['publish', 4, '@prismaWrites declares post, which the body never writes'],
+      ['publish', 4, 'the body reads auditLog, which @prismaReads does not declare'],
+    ]);
+  });
+
+  it('warns about models missing from the schema', () => {
+    expect(
+      check(`
+        /** @prismaWrites account */
+        export declare function openAccount(email: string): Promise<void>;
+      `)
+    ).toEqual([
+      ['openAccount', 2, 'the contract names account, which is not a model of schema.prisma'],
+    ]);
+  });
+
+  it('warns when a read of a @prismaPrimary function may go to a replica', () => {
+    expect(
+      check(`
+        import { prisma } from './client';
+        /**
+         * @prismaReads user
+         * @prismaPrimary
+         */
+        export async function loadUser(id: number) {
+          await prisma.$primary().user.findUnique({ where: { id } });
+          return prisma.user.findFirst({ where: { id } });
+        }
+      `)
+    ).toEqual([
+      [
+        'loadUser',
+        4,
+        '@prismaPrimary is declared, but user.findFirst() at line 9 may go to a replica',
+      ],
+    ]);
+  });
+
+  it('takes bodies without visible operations at their word', () => {
+    expect(
+      check(`
+        declare const api: { post: (path: string) => Promise<void> };
+        /** @prismaWrites user */
+        export async function signUp(email: string) {
+          await api.post('/users');
+        }
+      `)
+    ).toEqual([]);
+  });
+});
+
+describe('contracts at call sites', () => {
+  /** [write, read] of each issue in service.ts */
+  const analyze = (service: string) =>
+    analyzeSources({
+      'billing.d.ts': `
+        /** @prismaWrites user */
+        export declare function subscribe(id: number): Promise<void>;
+        /**
+         * @prismaReads user
+         * @prismaPrimary
+         */
+        export declare function loadPlan(id: number): Promise<void>;
+        /** @prismaReads user */
+        export declare function loadInvoices(id: number): Promise<void>;
+      `,
+      'service.ts': service,
+    }).issues.map((issue) => [
+      `${issue.writeOperation?.model}.${issue.writeOperation?.method}`,
+      `${issue.readOperation?.model}.${issue.readOperation?.method}`,
+    ]);
+
+  it('pairs the declared operations with those of the caller', () => {
+    expect(
+      analyze(`
+        import { prisma } from './client';
+        import { subscribe, loadInvoices } from './billing';
+        export async function upgrade(id: number) {
+          await subscribe(id);
+          await loadInvoices(id);
+          return prisma.user.findFirst({ where: { id } });
+        }
+      `)
+    ).toEqual([
+      ['user.subscribe', 'user.loadInvoices'],
+      ['user.subscribe', 'user.findFirst'],
+    ]);
+  });
+
+  it('does not report declared reads from the primary', () => {
+    expect(
+      analyze(`
+        import { prisma } from './client';
+        import { loadPlan } from './billing';
+        export async function upgrade(id: number) {
+          await prisma.user.update({ where: { id }, data: {} });
+          return loadPlan(id);
+        }
+      `)
+    ).toEqual([]);
+  });
+});
@@ -0,0 +1,242 @@
+import type { CallExpression, JSDoc, SourceFile } from 'ts-morph';
+import { Node, SyntaxKind } from 'ts-morph';
+import type { ContractWarning, PrismaMethod, PrismaOperation, SourceLocation } from '../types.js';
+import { getTargetDeclarations } from '../utils/ast-utils.js';
+import type { CallGraph, FunctionSummary } from './call-graph.js';
+import type { ClassifierContext } from './operation-classifier.js';
+import type { SchemaModelGraph } from './schema-parser.js';
+import { toDelegateName } from './schema-parser.js';
+
+export const CONTRACT_TAGS = {
+  writes: 'prismaWrites',
+  reads: 'prismaReads',
+  primary: 'prismaPrimary',
+} as const;
+
+/**
+ * The effects a function declares with JSDoc tags:
+ *
+ *   /**
+ *    * @prismaWrites user, order
+ *    * @prismaReads user
+ *    * @prismaPrimary
+ *    *\/
+ *
+ * A contract replaces what the function's body does, or stands in for a
+ * body the analyzer cannot see, e.g. in a .d.ts file.
+ */
+export interface FunctionContract {
+  /** Delegate names of the models written, e.g. "user" */
+  writes: string[];
+  /** Delegate names of the models read */
+  reads: string[];
+  /** Whether the declared reads go to the primary */
+  primary: boolean;
+  /** Where the contract's first tag is */
+  location: SourceLocation;
+}
+
+const contracts = new WeakMap<Node, FunctionContract | null>();
+
+/**
+ * Read the contract of a function, method or signature declaration. Arrow
+ * functions and function expressions carry the JSDoc of the variable or
+ * property they are assigned to.
+ */
+export const getContract = (declaration: Node): FunctionContract | null => {
+  if (contracts.has(declaration)) {
+    return contracts.get(declaration)!;
+  }
+
+  let contract: FunctionContract | null = null;
+  for (const doc of getJsDocs(declaration)) {
+    for (const tag of doc.getTags()) {
+      const name = tag.getTagName();
+      if (!Object.values<string>(CONTRACT_TAGS).includes(name)) {
+        continue;
+      }
+
+      contract ??= { writes: [], reads: [], primary: false, location: getLocation(tag) };
+      if (name === CONTRACT_TAGS.primary) {
+        contract.primary = true;
+        continue;
+      }
+      const models = (tag.getCommentText() ?? '')
+        .split(/[\s,]+/)
+        .filter(Boolean)
+        .map(toDelegateName);
+      const target = name === CONTRACT_TAGS.writes ? contract.writes : contract.reads;
+      target.push(...models.filter((model) => !target.includes(model)));
+    }
+  }
+
+  contracts.set(declaration, contract);
+  return contract;
+};
+
+const getJsDocs = (declaration: Node): JSDoc[] => {
+  let target: Node | undefined = declaration;
+  if (
+    declaration.isKind(SyntaxKind.ArrowFunction) ||
+    declaration.isKind(SyntaxKind.FunctionExpression)
+  ) {
+    target = declaration.getParent();
+  }
+  if (target?.isKind(SyntaxKind.VariableDeclaration)) {
+    target = target.getVariableStatement();
+  }
+  return Node.isJSDocable(target) ? target.getJsDocs() : [];
+};
+
+/**
+ * Find the contract of the function a call invokes, with the name it is
+ * called by
+ */
+export const findCallContract = (
+  callExpr: CallExpression
+): { name: string; contract: FunctionContract } | null => {
+  const callee = callExpr.getExpression();
+  for (const declaration of getTargetDeclarations(callee)) {
+    const contract = getContract(declaration);
+    if (contract) {
+      const name = callee.isKind(SyntaxKind.PropertyAccessExpression)
+        ? callee.getName()
+        : callee.getText();
+      return { name, contract };
+    }
+  }
+  return null;
+};
+
+/**
+ * The operations a contract declares, located at the call. They go through
+ * the callee's own client, so they are never part of the caller's
+ * transaction.
+ */
+export const createContractOperations = (
+  callExpr: CallExpression,
+  { name, contract }: { name: string; contract: FunctionContract },
+  context: ClassifierContext = {}
+): PrismaOperation[] => {
+  const location = getLocation(callExpr);
+  const inTransactionCallback = context.routingTracker
+    ? context.routingTracker.isInTransactionCallback(callExpr)
+    : false;
+
+  const declared: [PrismaOperation['type'], string[]][] = [
+    ['write', contract.writes],
+    ['read', contract.reads],
+  ];
+  return declared.flatMap(([type, models]) =>
+    models
+      .filter((model) => !context.ignoredModels?.has(model))
+      .map(
+        (model): PrismaOperation => ({
+          type,
+          // Reported by the name of the function, like custom methods
+          method: name as PrismaMethod,
+          model,
+          models: [model],
+          location,
+          usesPrimary: type === 'read' && contract.primary,
+          usesReplica: false,
+          inTransaction: false,
+          inTransactionCallback,
+          declaredBy: name,
+        })
+      )
+  );
+};
+
+/**
+ * Compare the contracts of the functions in a file with what their bodies
+ * do. Functions without a body, e.g. in .d.ts files, and bodies whose
+ * operations cannot be seen are taken at their word.
+ */
+export const checkContracts = (
+  sourceFile: SourceFile,
+  callGraph: CallGraph,
+  schema: SchemaModelGraph | null
+): ContractWarning[] => {
+  const warnings: ContractWarning[] = [];
+  // Most files have no contracts, and summarizing them is not free
+  const text = sourceFile.getFullText();
+  if (!Object.values(CONTRACT_TAGS).some((tag) => text.includes(`@${tag}`))) {
+    return warnings;
+  }
+
+  for (const summary of callGraph.getFunctionsInFile(sourceFile)) {
+    const contract = getContract(summary.node);
+    if (!contract) {
+      continue;
+    }
+
+    const warn = (message: string): void => {
+      warnings.push({ functionName: summary.name, location: contract.location, message });
+    };
+
+    if (schema) {
+      for (const model of [...contract.writes, ...contract.reads]) {
+        if (!schema.getModelByDelegate(model)) {
+          warn(`the contract names ${model}, which is not a model of ${schema.path}`);
+        }
+      }
+    }
+
+    if (summary.node.getBody()) {
+      compareWithBody(summary, contract, callGraph, warn);
+    }
+  }
+
+  return warnings;
+};
+
+const compareWithBody = (
+  summary: FunctionSummary,
+  contract: FunctionContract,
+  callGraph: CallGraph,
+  warn: (message: string) => void
+): void => {
+  const operations = callGraph.getReachableOperations(summary).map(({ operation }) => operation);
+
+  const declared = { write: contract.writes, read: contract.reads };
+  const tags = { write: `@${CONTRACT_TAGS.writes}`, read: `@${CONTRACT_TAGS.reads}` };
+  for (const type of ['write', 'read'] as const) {
+    const found = new Set(
+      operations.filter((operation) => operation.type === type).map(({ model }) => model)
+    );
+    for (const model of found) {
+      if (!declared[type].includes(model)) {
+        warn(`the body ${type}s ${model}, which ${tags[type]} does not declare`);
+      }
+    }
+    // A body without any visible operation is what contracts are for
+    for (const model of operations.length > 0 ? declared[type] : []) {
+      if (!found.has(model)) {
+        warn(`${tags[type]} declares ${model}, which the body never ${type}s`);
+      }
+    }
+  }
+
+  if (contract.primary) {
+    for (const operation of operations) {
+      if (operation.type === 'read' && !operation.usesPrimary && !operation.inTransaction) {
+        warn(
+          `@${CONTRACT_TAGS.primary} is declared, but ${operation.model}.${operation.method}() ` +
+            `at line ${operation.location.line} may go to a replica`
+        );
+      }
+    }
+  }
+};
+
+const getLocation = (node: Node): SourceLocation => {
+  const sourceFile = node.getSourceFile();
+  const { line, column } = sourceFile.getLineAndColumnAtPos(node.getStart());
+  return {
+    file: sourceFile.getFilePath(),
+    line,
+    column,
+    endLine: sourceFile.getLineAndColumnAtPos(node.getEnd()).line,
+  };
+};
@@ -0,0 +1,119 @@
+import { describe, expect, it } from 'vitest';
+import { analyzeSources } from '../test-utils.js';
+
+/** The methods of the [write, read] pairs reported for a function body */
+const getPairs = (body: string) => {
+  const { issues } = analyzeSources({
+    'service.ts': `
+      import { prisma } from './client';
+      export async function run(id: number, ids: number[], flag: boolean) {
+        ${body}
+      }
+    `,
+  });
+  return issues.map((issue) => [issue.writeOperation?.method, issue.readOperation?.method]);
+};
+
+describe('buildControlFlowGraph', () => {
+  it('does not pair operations in exclusive branches', () => {
+    const pairs = getPairs(`
+      if (flag) {
+        await prisma.user.delete({ where: { id } });
+      } else {
+        await prisma.user.findFirst({ where: { id } });
+      }
+    `);
+    expect(pairs).toEqual([]);
+  });
+
+  it('does not pair a write after an early return with a read before it', () => {
+    const pairs = getPairs(`
+      if (flag) {
+        return prisma.user.findFirst({ where: { id } });
+      }
+      await prisma.user.delete({ where: { id } });
+    `);
+    expect(pairs).toEqual([]);
+  });
+
+  it('pairs a write with a read before it in the same loop', () => {
+    const pairs = getPairs(`
+      for (const next of ids) {
+        await prisma.user.findFirst({ where: { id: next } });
+        await prisma.user.delete({ where: { id: next } });
+      }
+    `);
+    expect(pairs).toEqual([['delete', 'findFirst']]);
+  });
+
+  it('runs finally after a throw in catch', () => {
+    const pairs = getPairs(`
+      while (flag) {
+        try {
+          await prisma.user.findFirst({ where: { id } });
+        } catch (error) {
+          await prisma.user.delete({ where: { id } });
+          break;
+        } finally {
+          await prisma.user.count();
+        }
+      }
+    `);
+    expect(pairs).toEqual([['delete', 'count']]);
+  });
+
+  it('does not resume normally after finally when the try block returned', () => {
+    const pairs = getPairs(`
+      try {
+        await prisma.user.delete({ where: { id } });
+        return;
+      } finally {
+        await prisma.user.count();
+      }
+      await prisma.user.findFirst({ where: { id } });
+    `);
+    expect(pairs).toEqual([['delete', 'count']]);
+  });
+
+  it('enters default only after every case test failed', () => {
+    const pairs = getPairs(`
+      switch (flag) {
+        default:
+          await prisma.user.findFirst({ where: { id } });
+          break;
+        case (await prisma.user.delete({ where: { id } })) !== null:
+          await prisma.user.count();
+      }
+    `);
+    expect(pairs).toEqual([
+      ['delete', 'findFirst'],
+      ['delete', 'count'],
+    ]);
+  });
+
+  it('falls through from default into the next case', () => {
+    const pairs = getPairs(`
+      switch (id) {
+        case 1:
+          break;
+        default:
+          await prisma.user.delete({ where: { id } });
+        case 2:
+          await prisma.user.findFirst({ where: { id } });
+      }
+    `);
+    expect(pairs).toEqual([['delete', 'findFirst']]);
+  });
+
+  it('gives inline callbacks a graph of their own', () => {
+    const pairs = getPairs(`
+      await Promise.all(
+        ids.map(async (next) => {
+          await prisma.user.findFirst({ where: { id: next } });
+          await prisma.user.delete({ where: { id: next } });
+        })
+      );
+    `);
+    expect(pairs).toEqual([['delete', 'findFirst']]);
+  });
+});
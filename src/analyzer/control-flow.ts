@@ -0,0 +1,430 @@
+import type { ArrowFunction, FunctionExpression, Statement } from 'ts-morph';
+import { Node, SyntaxKind } from 'ts-morph';
+import type { FunctionLikeNode } from './call-graph.js';
+import { isInlineFunction } from './call-graph.js';
+
+interface FlowNode {
+  /** Statement or expression evaluated at this point, null for join points */
+  node: Node | null;
+  successors: Set<FlowNode>;
+}
+
+interface JumpTargets {
+  label?: string;
+  /** Collects nodes that leave the statement through `break` */
+  breaks: FlowNode[];
+  /** Where `continue` goes, undefined for switch statements */
+  continueTarget?: FlowNode;
+}
+
+interface TryTargets {
+  /** Entry of the catch clause, if any */
+  catchEntry?: FlowNode;
+  /** Entry of the finally block run by a return, if there is one */
+  finallyEntry?: FlowNode;
+  /** Entry of the finally block run by a throw, if there is one */
+  finallyThrowEntry?: FlowNode;
+  /** Nodes created inside the try block, which may throw into the handlers */
+  members: FlowNode[];
+}
+
+interface CallbackTargets {
+  /** Where a return from the callback goes */
+  exit: FlowNode;
+  /** Try statements below this depth are outside the callback */
+  tryDepth: number;
+}
+
+export interface ControlFlowGraph {
+  /**
+   * Check whether some execution path evaluates `from` before `to`,
+   * including paths that loop back around
+   */
+  canReach: (from: Node, to: Node) => boolean;
+}
+
+/**
+ * Build a statement-level control-flow graph for a function body.
+ * Handles if/else, switch, loops, labeled jumps, try/catch/finally, early
+ * returns and throws. Inline callbacks, e.g. of .map(), get a graph of their
+ * own, entered after the statement they are written in and run any number
+ * of times. Other expressions inside one statement are treated as evaluated
+ * in source order.
+ */
+export const buildControlFlowGraph = (func: FunctionLikeNode): ControlFlowGraph => {
+  // A finally block is built once per way into it, so a node can have several
+  const flowNodes = new Map<Node, FlowNode[]>();
+  const jumpStack: JumpTargets[] = [];
+  const tryStack: TryTargets[] = [];
+  const callbackStack: CallbackTargets[] = [];
+
+  const createNode = (node: Node | null): FlowNode => {
+    const flowNode: FlowNode = { node, successors: new Set() };
+    if (node) {
+      flowNodes.set(node, [...(flowNodes.get(node) ?? []), flowNode]);
+    }
+    for (const targets of tryStack) {
+      targets.members.push(flowNode);
+    }
+    return flowNode;
+  };
+
+  const exit = createNode(null);
+
+  const connect = (predecessors: FlowNode[], target: FlowNode): void => {
+    for (const predecessor of predecessors) {
+      predecessor.successors.add(target);
+    }
+  };
+
+  /**
+   * Add a statement or expression, followed by the inline callbacks in it.
+   * Returns the node that control leaves it from.
+   */
+  const step = (node: Node | null, predecessors: FlowNode[]): FlowNode => {
+    const flowNode = createNode(node);
+    connect(predecessors, flowNode);
+    return node ? visitCallbacks(node, flowNode) : flowNode;
+  };
+
+  /**
+   * Chain the graphs of the inline callbacks in a node, in source order.
+   * Each one may be skipped or run several times, e.g. for each element.
+   */
+  const visitCallbacks = (node: Node, flowNode: FlowNode): FlowNode => {
+    let current = flowNode;
+    for (const callback of findInlineCallbacks(node)) {
+      const callbackEntry = step(null, [current]);
+      const callbackExit = createNode(null);
+
+      // Jumps do not cross function boundaries; returns leave the callback
+      callbackStack.push({ exit: callbackExit, tryDepth: tryStack.length });
+      const outerJumps = jumpStack.splice(0);
+      const body = callback.getBody();
+      const exits = body.isKind(SyntaxKind.Block)
+        ? visitStatements(body.getStatements(), [callbackEntry])
+        : [step(body, [callbackEntry])];
+      jumpStack.push(...outerJumps);
+      callbackStack.pop();
+
+      connect(exits, callbackExit);
+      connect([callbackExit], callbackEntry);
+      current = step(null, [current, callbackExit]);
+    }
+    return current;
+  };
+
+  /**
+   * Route an abrupt exit (return/throw) through the innermost handler. In a
+   * callback, handlers outside it are left to the statement that runs it.
+   */
+  const exitTarget = (isThrow: boolean): FlowNode => {
+    const callback = callbackStack.at(-1);
+    for (let i = tryStack.length - 1; i >= (callback?.tryDepth ?? 0); i--) {
+      const targets = tryStack[i];
+      if (isThrow && targets.catchEntry) {
+        return targets.catchEntry;
+      }
+      const finallyEntry = isThrow ? targets.finallyThrowEntry : targets.finallyEntry;
+      if (finallyEntry) {
+        return finallyEntry;
+      }
+    }
+    return callback?.exit ?? exit;
+  };
+
+  const findJumpTargets = (
+    label: string | undefined,
+    isContinue: boolean
+  ): JumpTargets | undefined => {
+    for (let i = jumpStack.length - 1; i >= 0; i--) {
+      const targets = jumpStack[i];
+      if (label ? targets.label === label : !isContinue || targets.continueTarget) {
+        return targets;
+      }
+    }
+    return undefined;
+  };
+
+  const visitStatements = (statements: Statement[], predecessors: FlowNode[]): FlowNode[] => {
+    let current = predecessors;
+    for (const statement of statements) {
+      current = visit(statement, current);
+    }
+    return current;
+  };
+
+  const visitLoopBody = (
+    body: Statement,
+    predecessors: FlowNode[],
+    continueTarget: FlowNode,
+    label: string | undefined
+  ): { exits: FlowNode[]; breaks: FlowNode[] } => {
+    const targets: JumpTargets = { label, breaks: [], continueTarget };
+    jumpStack.push(targets);
+    const exits = visit(body, predecessors);
+    jumpStack.pop();
+    return { exits, breaks: targets.breaks };
+  };
+
+  const visit = (statement: Statement, predecessors: FlowNode[], label?: string): FlowNode[] => {
+    if (statement.isKind(SyntaxKind.Block)) {
+      return visitStatements(statement.getStatements(), predecessors);
+    }
+
+    if (statement.isKind(SyntaxKind.IfStatement)) {
+      const condition = step(statement.getExpression(), predecessors);
+      const thenExits = visit(statement.getThenStatement(), [condition]);
+      const elseStatement = statement.getElseStatement();
+      const elseExits = elseStatement ? visit(elseStatement, [condition]) : [condition];
+      return [...thenExits, ...elseExits];
+    }
+
+    if (statement.isKind(SyntaxKind.WhileStatement)) {
+      const condition = step(statement.getExpression(), predecessors);
+      const { exits, breaks } = visitLoopBody(
+        statement.getStatement(),
+        [condition],
+        condition,
+        label
+      );
+      connect(exits, condition);
+      return [condition, ...breaks];
+    }
+
+    if (statement.isKind(SyntaxKind.DoStatement)) {
+      const head = step(null, predecessors);
+      const condition = createNode(statement.getExpression());
+      const { exits, breaks } = visitLoopBody(statement.getStatement(), [head], condition, label);
+      connect(exits, condition);
+      connect([condition], head);
+      return [condition, ...breaks];
+    }
+
+    if (statement.isKind(SyntaxKind.ForStatement)) {
+      const initializer = statement.getInitializer();
+      const entry = initializer ? [step(initializer, predecessors)] : predecessors;
+      const head = step(statement.getCondition() ?? null, entry);
+      const incrementor = statement.getIncrementor();
+      const update = createNode(incrementor ?? null);
+      const { exits, breaks } = visitLoopBody(statement.getStatement(), [head], update, label);
+      connect(exits, update);
+      connect([update], head);
+      return [head, ...breaks];
+    }
+
+    if (
+      statement.isKind(SyntaxKind.ForOfStatement) ||
+      statement.isKind(SyntaxKind.ForInStatement)
+    ) {
+      const iterable = step(statement.getExpression(), predecessors);
+      const head = step(statement.getInitializer(), [iterable]);
+      const { exits, breaks } = visitLoopBody(statement.getStatement(), [head], head, label);
+      connect(exits, head);
+      return [head, ...breaks];
+    }
+
+    if (statement.isKind(SyntaxKind.SwitchStatement)) {
+      const discriminant = step(statement.getExpression(), predecessors);
+      const targets: JumpTargets = { label, breaks: [] };
+      jumpStack.push(targets);
+
+      // Case tests run in order; default is entered once all of them failed
+      const clauses = statement.getClauses();
+      const caseTests = new Map<Node, FlowNode>();
+      let noMatch = discriminant;
+      for (const clause of clauses) {
+        if (clause.isKind(SyntaxKind.CaseClause)) {
+          noMatch = step(clause.getExpression(), [noMatch]);
+          caseTests.set(clause, noMatch);
+        }
+      }
+
+      let fallthrough: FlowNode[] = [];
+      let hasDefault = false;
+      for (const clause of clauses) {
+        const caseTest = caseTests.get(clause);
+        hasDefault ||= !caseTest;
+        fallthrough = visitStatements(clause.getStatements(), [
+          caseTest ?? noMatch,
+          ...fallthrough,
+        ]);
+      }
+
+      jumpStack.pop();
+      return [...fallthrough, ...targets.breaks, ...(hasDefault ? [] : [noMatch])];
+    }
+
+    if (statement.isKind(SyntaxKind.TryStatement)) {
+      const catchClause = statement.getCatchClause();
+      const finallyBlock = statement.getFinallyBlock();
+      const catchEntry = catchClause ? createNode(null) : undefined;
+      const finallyEntry = finallyBlock ? createNode(null) : undefined;
+      const finallyThrowEntry = finallyBlock ? createNode(null) : undefined;
+
+      const targets: TryTargets = { catchEntry, finallyEntry, finallyThrowEntry, members: [] };
+      tryStack.push(targets);
+      const tryEntry = step(null, predecessors);
+      const tryExits = visit(statement.getTryBlock(), [tryEntry]);
+      tryStack.pop();
+
+      // Anything in the try block may throw into the catch clause
+      let normalExits = tryExits;
+      if (catchClause && catchEntry) {
+        connect(targets.members, catchEntry);
+        const catchTargets: TryTargets = { finallyEntry, finallyThrowEntry, members: [] };
+        tryStack.push(catchTargets);
+        normalExits = [...tryExits, ...visit(catchClause.getBlock(), [catchEntry])];
+        tryStack.pop();
+
+        // A throw anywhere in the catch clause runs finally
+        if (finallyThrowEntry) {
+          connect(catchTargets.members, finallyThrowEntry);
+        }
+      }
+
+      if (!finallyBlock || !finallyEntry || !finallyThrowEntry) {
+        return normalExits;
+      }
+
+      // Without a catch clause, a throw anywhere in the try block runs finally
+      if (!catchClause) {
+        connect(targets.members, finallyThrowEntry);
+      }
+
+      // The finally block is built once for each way into it, so a return or
+      // a throw goes on after it without joining the normal path
+      connect(visit(finallyBlock, [finallyEntry]), exitTarget(false));
+      connect(visit(finallyBlock, [finallyThrowEntry]), exitTarget(true));
+      return visit(finallyBlock, normalExits);
+    }
+
+    if (statement.isKind(SyntaxKind.LabeledStatement)) {
+      return visit(statement.getStatement(), predecessors, statement.getLabel().getText());
+    }
+
+    if (statement.isKind(SyntaxKind.ReturnStatement)) {
+      const node = step(statement, predecessors);
+      connect([node], exitTarget(false));
+      return [];
+    }
+
+    if (statement.isKind(SyntaxKind.ThrowStatement)) {
+      const node = step(statement, predecessors);
+      connect([node], exitTarget(true));
+      return [];
+    }
+
+    if (
+      statement.isKind(SyntaxKind.BreakStatement) ||
+      statement.isKind(SyntaxKind.ContinueStatement)
+    ) {
+      const isContinue = statement.isKind(SyntaxKind.ContinueStatement);
+      const node = step(statement, predecessors);
+      const targets = findJumpTargets(statement.getLabel()?.getText(), isContinue);
+      if (targets) {
+        if (isContinue && targets.continueTarget) {
+          connect([node], targets.continueTarget);
+        } else {
+          targets.breaks.push(node);
+        }
+      }
+      return [];
+    }
+
+    return [step(statement, predecessors)];
+  };
+
+  const body = func.getBody();
+  const entry = createNode(null);
+  if (body?.isKind(SyntaxKind.Block)) {
+    connect(visitStatements(body.getStatements(), [entry]), exit);
+  } else if (body) {
+    connect([step(body, [entry])], exit);
+  }
+
+  const reachableCache = new Map<FlowNode, Set<FlowNode>>();
+
+  const getReachable = (start: FlowNode): Set<FlowNode> => {
+    const cached = reachableCache.get(start);
+    if (cached) {
+      return cached;
+    }
+
+    const reachable = new Set<FlowNode>();
+    const pending = [...start.successors];
+    while (pending.length > 0) {
+      const current = pending.pop() as FlowNode;
+      if (reachable.has(current)) {
+        continue;
+      }
+      reachable.add(current);
+      pending.push(...current.successors);
+    }
+
+    reachableCache.set(start, reachable);
+    return reachable;
+  };
+
+  /**
+   * Find the graph nodes of the innermost statement or expression containing
+   * a node
+   */
+  const findFlowNodes = (node: Node): FlowNode[] | undefined => {
+    let current: Node | undefined = node;
+    while (current && current !== func) {
+      const found = flowNodes.get(current);
+      if (found) {
+        return found;
+      }
+      current = current.getParent();
+    }
+    return undefined;
+  };
+
+  const canReach = (from: Node, to: Node): boolean => {
+    const fromNodes = findFlowNodes(from);
+    const toNodes = findFlowNodes(to);
+
+    // Fall back to source order for nodes outside the body
+    if (!fromNodes || !toNodes) {
+      return from.getStart() < to.getStart();
+    }
+
+    if (fromNodes === toNodes && from.getStart() < to.getStart()) {
+      return true;
+    }
+
+    return fromNodes.some((fromNode) => {
+      const reachable = getReachable(fromNode);
+      return toNodes.some((toNode) => reachable.has(toNode));
+    });
+  };
+
+  return { canReach };
+};
+
+/**
+ * The inline callbacks written in a node, outside any other function in it
+ */
+const findInlineCallbacks = (node: Node): (ArrowFunction | FunctionExpression)[] => {
+  const callbacks: (ArrowFunction | FunctionExpression)[] = [];
+  if (Node.isFunctionLikeDeclaration(node)) {
+    return callbacks;
+  }
+
+  node.forEachDescendant((descendant, traversal) => {
+    if (!Node.isFunctionLikeDeclaration(descendant)) {
+      return;
+    }
+    if (
+      (descendant.isKind(SyntaxKind.ArrowFunction) ||
+        descendant.isKind(SyntaxKind.FunctionExpression)) &&
+      isInlineFunction(descendant)
+    ) {
+      callbacks.push(descendant);
+    }
+    traversal.skip();
+  });
+  return callbacks;
+};
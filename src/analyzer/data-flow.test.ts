@@ -0,0 +1,135 @@
+import { describe, expect, it } from 'vitest';
+import { analyzeSources } from '../test-utils.js';
+
+/** The reason codes of the read-after-write issues in a function body */
+const getReasons = (body: string, options: { schema?: string | null } = {}) => {
+  const { issues } = analyzeSources(
+    {
+      'service.ts': `
+        import { prisma } from './client';
+        export async function run(id: number, email: string) {
+          ${body}
+        }
+      `,
+    },
+    options
+  );
+  return issues
+    .filter((issue) => issue.ruleId === 'read-after-write')
+    .map((issue) => [issue.reason.code, issue.severity]);
+};
+
+describe('analyzeDependency', () => {
+  it('grades a read of the write result as an error', () => {
+    const reasons = getReasons(`
+      const user = await prisma.user.create({ data: { email } });
+      return prisma.user.findUnique({ where: { id: user.id } });
+    `);
+    expect(reasons).toEqual([['uses-write-result', 'error']]);
+  });
+
+  it('grades a read filtering on a write input as an error', () => {
+    const reasons = getReasons(`
+      await prisma.user.update({ where: { id }, data: { email } });
+      return prisma.user.findMany({ where: { email } });
+    `);
+    expect(reasons).toEqual([['shares-write-input', 'error']]);
+  });
+
+  it('does not link a write and a read through a shared literal', () => {
+    const reasons = getReasons(`
+      await prisma.user.updateMany({ where: { id }, data: { email: 'ACTIVE' } });
+      return prisma.user.findMany({ where: { email: 'ACTIVE' } });
+    `);
+    expect(reasons).toEqual([['same-model', 'warning']]);
+  });
+
+  it('does not link a read in a later pass of a loop through the loop variable', () => {
+    const reasons = getReasons(`
+      for (const next of [email]) {
+        await prisma.user.findFirst({ where: { email: next } });
+        await prisma.user.create({ data: { email: next } });
+      }
+    `);
+    expect(reasons).toEqual([['same-model', 'warning']]);
+  });
+
+  it('links a read in the same pass of a loop through the loop variable', () => {
+    const reasons = getReasons(`
+      for (const next of [email]) {
+        await prisma.user.create({ data: { email: next } });
+        await prisma.user.findFirst({ where: { email: next } });
+      }
+    `);
+    expect(reasons).toEqual([['shares-write-input', 'error']]);
+  });
+
+  it('links a read in a loop through a variable bound before it', () => {
+    const reasons = getReasons(`
+      for (const next of [email]) {
+        await prisma.user.findFirst({ where: { id } });
+        await prisma.user.update({ where: { id }, data: { email: next } });
+      }
+    `);
+    expect(reasons).toEqual([['shares-write-input', 'error']]);
+  });
+
+  it('does not link a write and a read through a variable assigned in between', () => {
+    const reasons = getReasons(`
+      let current = email;
+      await prisma.user.create({ data: { email: current } });
+      current = current.toLowerCase();
+      return prisma.user.findMany({ where: { email: current } });
+    `);
+    expect(reasons).toEqual([['same-model', 'warning']]);
+  });
+
+  it('does not link a write and a read through a module constant', () => {
+    const { issues } = analyzeSources({
+      'service.ts': `
+        import { prisma } from './client';
+        const ADMIN_EMAIL = 'admin@example.com';
+        export async function resetAdmin() {
+          await prisma.user.updateMany({ where: { email: ADMIN_EMAIL }, data: {} });
+          return prisma.user.findFirst({ where: { email: ADMIN_EMAIL } });
+        }
+      `,
+    });
+    expect(issues.map((issue) => issue.reason.code)).toEqual(['same-model']);
+  });
+
+  it('grades a read of a model reached through relations as related', () => {
+    const reasons = getReasons(`
+      await prisma.post.create({ data: { authorId: 1 } });
+      return prisma.user.findMany({ include: { posts: true } });
+    `);
+    expect(reasons).toEqual([['related-model', 'warning']]);
+  });
+
+  it('reports pairs of different models as unrelated without a schema', () => {
+    const reasons = getReasons(
+      `
+        await prisma.auditLog.create({ data: {} });
+        return prisma.user.findMany();
+      `,
+      { schema: null }
+    );
+    expect(reasons).toEqual([['unrelated-model', 'warning']]);
+  });
+
+  it('follows the write result through a helper', () => {
+    const { issues } = analyzeSources({
+      'service.ts': `
+        import { prisma } from './client';
+        async function createUser(email: string) {
+          return prisma.user.create({ data: { email } });
+        }
+        export async function signUp(email: string) {
+          const user = await createUser(email);
+          return prisma.user.findUnique({ where: { id: user.id } });
+        }
+      `,
+    });
+    expect(issues.map((issue) => issue.reason.code)).toEqual(['uses-write-result']);
+  });
+});
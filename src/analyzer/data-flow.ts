@@ -0,0 +1,289 @@
+import { Node, SyntaxKind, VariableDeclarationKind } from 'ts-morph';
+import type { IssueReason } from '../types.js';
+import type { FunctionLikeNode, ReachableOperation } from './call-graph.js';
+import { isMergedFunction } from './call-graph.js';
+import { getOperationArguments } from './operation-classifier.js';
+
+interface ValueReference {
+  node: Node;
+  key: string;
+  /** The variable, parameter or binding the value comes from */
+  declaration: Node;
+}
+
+const LOOP_KINDS: ReadonlySet<SyntaxKind> = new Set([
+  SyntaxKind.ForStatement,
+  SyntaxKind.ForOfStatement,
+  SyntaxKind.ForInStatement,
+  SyntaxKind.WhileStatement,
+  SyntaxKind.DoStatement,
+]);
+
+/**
+ * Grade how strongly a read depends on a preceding write.
+ * Data flowing from the write's result or its inputs into the read makes
+ * a stale read almost certain; otherwise only the shared model links them.
+ */
+export const analyzeDependency = (
+  write: ReachableOperation,
+  read: ReachableOperation
+): IssueReason => {
+  const writeOp = write.operation;
+  const readOp = read.operation;
+  const writeLabel = `${writeOp.model}.${writeOp.method}()`;
+  const readLabel = `${readOp.model}.${readOp.method}()`;
+
+  // 1. The read uses a value returned by the write
+  const resultSymbols = getResultBindings(write.event.node);
+  const readReferences = getValueReferences(getOperationArguments(read.event.node));
+
+  for (const reference of readReferences) {
+    if (resultSymbols.has(reference.key)) {
+      return {
+        code: 'uses-write-result',
+        evidence: `\`${reference.node.getText()}\` in ${readLabel} comes from the result of ${writeLabel}`,
+      };
+    }
+  }
+
+  // 2. The read filters on a value that was passed to the write
+  const writeInputs = new Map<string, Node>();
+  for (const reference of getValueReferences(getOperationArguments(write.event.node))) {
+    writeInputs.set(reference.key, reference.node);
+  }
+
+  for (const reference of getValueReferences(getFilterNodes(read))) {
+    const shared = writeInputs.get(reference.key);
+    if (shared && holdsOneValue(reference.declaration, write.event.node, read.event.node)) {
+      return {
+        code: 'shares-write-input',
+        evidence: `\`${shared.getText()}\` is passed to ${writeLabel} and used to filter ${readLabel}`,
+      };
+    }
+  }
+
+  // 3. No data link: grade by how the models relate
+  if (readOp.model === writeOp.model) {
+    return {
+      code: 'same-model',
+      evidence: `${readLabel} reads the ${writeOp.model} model written by ${writeLabel}`,
+    };
+  }
+
+  const shared = writeOp.models.filter((model) => readOp.models.includes(model));
+  if (shared.length > 0) {
+    return {
+      code: 'related-model',
+      evidence: `${readLabel} observes ${shared.join(', ')}, which ${writeLabel} writes`,
+    };
+  }
+
+  return {
+    code: 'unrelated-model',
+    evidence: `${readLabel} and ${writeLabel} share no model, but relations could not be checked without a schema`,
+  };
+};
+
+/**
+ * Collect the symbols a call's result is bound to
+ * e.g., const user = await createUser() -> user
+ * e.g., const { id } = await prisma.user.create(...) -> id
+ */
+const getResultBindings = (callNode: Node): Set<string> => {
+  const bindings = new Set<string>();
+
+  let current: Node = callNode;
+  let parent = current.getParent();
+  while (
+    parent &&
+    (parent.isKind(SyntaxKind.AwaitExpression) ||
+      parent.isKind(SyntaxKind.ParenthesizedExpression) ||
+      parent.isKind(SyntaxKind.AsExpression) ||
+      parent.isKind(SyntaxKind.NonNullExpression))
+  ) {
+    current = parent;
+    parent = current.getParent();
+  }
+
+  if (!parent?.isKind(SyntaxKind.VariableDeclaration) || parent.getInitializer() !== current) {
+    return bindings;
+  }
+
+  const nameNode = parent.getNameNode();
+  const identifiers = nameNode.isKind(SyntaxKind.Identifier)
+    ? [nameNode]
+    : nameNode.getDescendantsOfKind(SyntaxKind.Identifier).filter((identifier) => {
+        // Skip property names in renamed bindings: const { id: userId } = ...
+        const element = identifier.getParent();
+        return !(
+          element?.isKind(SyntaxKind.BindingElement) &&
+          element.getPropertyNameNode() === identifier
+        );
+      });
+
+  for (const identifier of identifiers) {
+    const declaration = getValueDeclaration(identifier);
+    if (declaration) {
+      bindings.add(toSymbolKey(declaration));
+    }
+  }
+
+  return bindings;
+};
+
+/**
+ * Get the argument nodes a read filters on: its `where` clause when written
+ * inline, otherwise every argument passed at the call site
+ */
+const getFilterNodes = (read: ReachableOperation): Node[] => {
+  const args = getOperationArguments(read.event.node);
+  if (read.event.kind !== 'operation') {
+    return args;
+  }
+
+  const [firstArg] = args;
+  if (firstArg?.isKind(SyntaxKind.ObjectLiteralExpression)) {
+    const where = firstArg.getProperty('where');
+    return where ? [where] : [];
+  }
+
+  return args;
+};
+
+/**
+ * Collect identifiers that carry values into the given nodes, skipping
+ * property names. Literals are left out: the same constant in a write and a
+ * read, e.g. status: 'ACTIVE', does not mean they touch the same rows.
+ */
+const getValueReferences = (nodes: Node[]): ValueReference[] => {
+  const references: ValueReference[] = [];
+
+  const visit = (node: Node): void => {
+    if (!node.isKind(SyntaxKind.Identifier) || isPropertyName(node)) {
+      return;
+    }
+
+    const declaration = getValueDeclaration(node);
+    if (declaration) {
+      references.push({ node, key: toSymbolKey(declaration), declaration });
+    }
+  };
+
+  for (const root of nodes) {
+    visit(root);
+    root.forEachDescendant(visit);
+  }
+
+  return references;
+};
+
+const isPropertyName = (node: Node): boolean => {
+  const parent = node.getParent();
+
+  if (parent?.isKind(SyntaxKind.PropertyAccessExpression)) {
+    return parent.getNameNode() === node;
+  }
+
+  if (parent?.isKind(SyntaxKind.PropertyAssignment)) {
+    return parent.getNameNode() === node;
+  }
+
+  return false;
+};
+
+/**
+ * Find the value behind an identifier: the declaring variable, parameter or
+ * binding (shorthand properties resolve to the variable they read). Other
+ * identifiers such as enums, namespaces and functions carry no data and
+ * yield undefined.
+ */
+const getValueDeclaration = (node: Node): Node | undefined => {
+  const parent = node.getParent();
+  const symbol = parent?.isKind(SyntaxKind.ShorthandPropertyAssignment)
+    ? parent.getValueSymbol()
+    : node.getSymbol();
+
+  const declaration = symbol?.getDeclarations()[0];
+  if (
+    !declaration ||
+    !(
+      declaration.isKind(SyntaxKind.VariableDeclaration) ||
+      declaration.isKind(SyntaxKind.Parameter) ||
+      declaration.isKind(SyntaxKind.BindingElement)
+    )
+  ) {
+    return undefined;
+  }
+
+  return declaration;
+};
+
+const toSymbolKey = (declaration: Node): string => {
+  return `symbol:${declaration.getSourceFile().getFilePath()}:${declaration.getStart()}`;
+};
+
+/**
+ * Check whether a variable holds the same value when the write and the read
+ * run. Module constants are left out like literals: every call shares them.
+ * A variable assigned again may change in between. A variable declared in a
+ * loop or a callback is bound anew on each pass, so it only holds the same
+ * value when the write comes first in the pass; a read before the write
+ * follows it in a later pass, with another value.
+ */
+const holdsOneValue = (declaration: Node, writeNode: Node, readNode: Node): boolean => {
+  const func = declaration.getFirstAncestor(Node.isFunctionLikeDeclaration);
+  if (!func || isReassigned(declaration)) {
+    return false;
+  }
+
+  // Callbacks merged into the function around them run once per element
+  let boundPerPass = false;
+  for (const ancestor of declaration.getAncestors()) {
+    if (Node.isFunctionLikeDeclaration(ancestor)) {
+      if (!isMergedFunction(ancestor as FunctionLikeNode)) {
+        break;
+      }
+      boundPerPass = true;
+    }
+    boundPerPass ||= LOOP_KINDS.has(ancestor.getKind());
+  }
+
+  return !boundPerPass || writeNode.getStart() < readNode.getStart();
+};
+
+/**
+ * Check whether a variable or parameter is assigned after its declaration
+ */
+const isReassigned = (declaration: Node): boolean => {
+  const list = declaration.getFirstAncestorByKind(SyntaxKind.VariableDeclarationList);
+  if (list?.getDeclarationKind() === VariableDeclarationKind.Const) {
+    return false;
+  }
+
+  const nameNode =
+    declaration.isKind(SyntaxKind.VariableDeclaration) ||
+    declaration.isKind(SyntaxKind.Parameter) ||
+    declaration.isKind(SyntaxKind.BindingElement)
+      ? declaration.getNameNode()
+      : undefined;
+  if (!nameNode?.isKind(SyntaxKind.Identifier)) {
+    return false;
+  }
+
+  return nameNode.findReferencesAsNodes().some((reference) => {
+    const parent = reference.getParent();
+    if (parent?.isKind(SyntaxKind.BinaryExpression)) {
+      const operator = parent.getOperatorToken().getKind();
+      return (
+        parent.getLeft() === reference &&
+        operator >= SyntaxKind.FirstAssignment &&
+        operator <= SyntaxKind.LastAssignment
+      );
+    }
+    return (
+      (parent?.isKind(SyntaxKind.PrefixUnaryExpression) ||
+        parent?.isKind(SyntaxKind.PostfixUnaryExpression)) &&
+      [SyntaxKind.PlusPlusToken, SyntaxKind.MinusMinusToken].includes(parent.getOperatorToken())
+    );
+  });
+};
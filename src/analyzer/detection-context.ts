@@ -0,0 +1,70 @@
+import type { Rule } from '../rules/index.js';
+import { BUILT_IN_RULES, resolveRules } from '../rules/index.js';
+import type { AnalyzerConfig } from '../types.js';
+import type { SummaryStore } from './call-graph.js';
+import { buildCallGraph, DEFAULT_MAX_DEPTH } from './call-graph.js';
+import { createClientResolver } from './client-resolver.js';
+import type { DetectionContext, SeverityOverrides } from './issue-detector.js';
+import type { PrismaClientInstance } from './prisma-detector.js';
+import { createRoutingTracker } from './routing-tracker.js';
+import type { SchemaModelGraph } from './schema-parser.js';
+import { toDelegateName } from './schema-parser.js';
+
+export interface DetectionContextOptions {
+  projectPath: string;
+  prismaInstances: PrismaClientInstance[];
+  schema: SchemaModelGraph | null;
+  config: AnalyzerConfig;
+  maxDepth?: number;
+  /** Rules the config can turn on and off (default: the built-in rules) */
+  rules?: Rule[];
+  /** Function events from an earlier run, e.g. the analysis cache's */
+  summaryStore?: SummaryStore;
+}
+
+/**
+ * Set up client resolution, routing, the call graph and the rules for a
+ * project, as configured by its config. Function summaries are built
+ * lazily, so the context can be reused to analyze any number of files.
+ */
+export const createDetectionContext = (options: DetectionContextOptions): DetectionContext => {
+  const { config, prismaInstances, schema } = options;
+
+  const clientResolver = createClientResolver(prismaInstances);
+  const callGraph = buildCallGraph({
+    maxDepth: options.maxDepth ?? DEFAULT_MAX_DEPTH,
+    summaryStore: options.summaryStore,
+    classifierContext: {
+      schema,
+      clientResolver,
+      customMethods: {
+        read: new Set(config.methods?.read),
+        write: new Set(config.methods?.write),
+      },
+      ignoredModels: new Set(config.ignoreModels?.map(toDelegateName)),
+      routingTracker: createRoutingTracker({
+        clientResolver,
+        primaryWrappers: config.primaryWrappers,
+      }),
+    },
+  });
+
+  const severityOverrides: SeverityOverrides = {
+    models: new Map(
+      Object.entries(config.severity?.models ?? {}).map(([model, severity]) => [
+        toDelegateName(model),
+        severity,
+      ])
+    ),
+    methods: new Map(Object.entries(config.severity?.methods ?? {})),
+  };
+
+  return {
+    projectPath: options.projectPath,
+    prismaInstances,
+    callGraph,
+    schema,
+    severityOverrides,
+    rules: resolveRules(options.rules ?? BUILT_IN_RULES, config.rules),
+  };
+};
@@ -0,0 +1,44 @@
+import { describe, expect, it } from 'vitest';
+import { analyzeSources } from '../test-utils.js';
+import { toProjectRelativePath } from './fingerprint.js';
+
+const SERVICE = `
+  import { prisma } from './client';
+  export async function rename(id: number, email: string) {
+    await prisma.user.update({ where: { id }, data: { email } });
+    return prisma.user.findMany({ where: { email } });
+  }
+`;
+
+const getFingerprints = (source: string): string[] =>
+  analyzeSources({ 'service.ts': source }).issues.map((issue) => issue.fingerprint);
+
+describe('createFingerprint', () => {
+  it('is a 32-character hex digest', () => {
+    expect(getFingerprints(SERVICE)).toEqual([expect.stringMatching(/^[0-9a-f]{32}$/)]);
+  });
+
+  it('survives code moving and formatting changes', () => {
+    const moved = `\n\n// Added above\n${SERVICE}`.replace(
+      'prisma.user.findMany({ where: { email } })',
+      'prisma.user.findMany({\n      where: { email }\n    })'
+    );
+    expect(getFingerprints(moved)).toEqual(getFingerprints(SERVICE));
+  });
+
+  it('changes with the function the issue is reported in', () => {
+    const renamed = SERVICE.replace('function rename', 'function changeEmail');
+    expect(getFingerprints(renamed)).not.toEqual(getFingerprints(SERVICE));
+  });
+
+  it('changes with the operations that are paired', () => {
+    const changed = SERVICE.replace('findMany', 'findFirst');
+    expect(getFingerprints(changed)).not.toEqual(getFingerprints(SERVICE));
+  });
+});
+
+describe('toProjectRelativePath', () => {
+  it('uses forward slashes relative to the project', () => {
+    expect(toProjectRelativePath('/project', '/project/src/users.ts')).toBe('src/users.ts');
+  });
+});
@@ -0,0 +1,54 @@
+import { createHash } from 'node:crypto';
+import { relative, sep } from 'node:path';
+import type { Node } from 'ts-morph';
+import type { CallChainEntry, PrismaOperation } from '../types.js';
+
+export interface FingerprintInput {
+  projectPath: string;
+  ruleId: string;
+  callChain: CallChainEntry[];
+  writeOperation?: PrismaOperation;
+  readOperation?: PrismaOperation;
+  writeNode?: Node;
+  readNode?: Node;
+}
+
+/** Its fingerprints predate rule IDs, so they do not include one */
+const ORIGINAL_RULE_ID = 'read-after-write';
+
+/**
+ * Build a stable identifier for an issue from where it is reported and what
+ * it pairs, without line numbers, so it survives unrelated edits that shift
+ * code around
+ */
+export const createFingerprint = (input: FingerprintInput): string => {
+  const [frame] = input.callChain;
+  const parts = [
+    toProjectRelativePath(input.projectPath, frame.file),
+    frame.functionName,
+    formatMethod(input.writeOperation),
+    formatMethod(input.readOperation),
+    normalizeSnippet(input.writeNode?.getText() ?? ''),
+    normalizeSnippet(input.readNode?.getText() ?? ''),
+  ];
+  if (input.ruleId !== ORIGINAL_RULE_ID) {
+    parts.unshift(input.ruleId);
+  }
+  return createHash('sha256').update(parts.join('\n')).digest('hex').slice(0, 32);
+};
+
+/**
+ * Path relative to the project with forward slashes, so fingerprints match
+ * across machines and operating systems
+ */
+export const toProjectRelativePath = (projectPath: string, file: string): string => {
+  return relative(projectPath, file).split(sep).join('/');
+};
+
+const formatMethod = (operation: PrismaOperation | undefined): string => {
+  return operation ? `${operation.model}.${operation.method}` : '';
+};
+
+const normalizeSnippet = (text: string): string => {
+  return text.replace(/\s+/g, ' ').replace(/\s*([(){}[\],:;.])\s*/g, '$1').trim();
+};
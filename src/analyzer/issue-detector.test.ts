@@ -0,0 +1,76 @@
+import { describe, expect, it } from 'vitest';
+import { analyzeSources } from '../test-utils.js';
+import type { AnalyzerConfig } from '../types.js';
+
+const SERVICE = `
+  import { prisma } from './client';
+
+  export async function rename(id: number, email: string) {
+    await prisma.user.update({ where: { id }, data: { email } });
+    await prisma.user.findFirst({ where: { id } });
+    return prisma.user.count();
+  }
+
+  export async function archive(id: number) {
+    await prisma.$replica().user.delete({ where: { id } });
+  }
+`;
+
+/** [ruleId, reason code, severity] of each issue */
+const analyze = (config: AnalyzerConfig = {}) =>
+  analyzeSources({ 'service.ts': SERVICE }, { config }).issues.map((issue) => [
+    issue.ruleId,
+    issue.reason.code,
+    issue.severity,
+  ]);
+
+describe('detectIssuesInFile', () => {
+  it('keeps the severity each rule reports', () => {
+    expect(analyze()).toEqual([
+      ['read-after-write', 'shares-write-input', 'error'],
+      ['read-after-write', 'same-model', 'warning'],
+      ['replica-write', 'write-through-replica', 'error'],
+    ]);
+  });
+
+  it('does not raise graded warnings when a rule is set to error', () => {
+    expect(analyze({ rules: { 'read-after-write': 'error' } })).toEqual(analyze());
+  });
+
+  it('lowers the errors of a rule set to warning', () => {
+    expect(analyze({ rules: { 'read-after-write': 'warning' } })).toEqual([
+      ['read-after-write', 'shares-write-input', 'warning'],
+      ['read-after-write', 'same-model', 'warning'],
+      ['replica-write', 'write-through-replica', 'error'],
+    ]);
+  });
+
+  it('applies model and method overrides to pairs only', () => {
+    const severity = { models: { User: 'warning' }, methods: { count: 'off' } } as const;
+    expect(analyze({ severity })).toEqual([
+      ['read-after-write', 'shares-write-input', 'warning'],
+      ['replica-write', 'write-through-replica', 'error'],
+    ]);
+  });
+
+  it('turns rules off by ID', () => {
+    expect(analyze({ rules: { 'replica-write': 'off' } })).toHaveLength(2);
+  });
+
+  it('gives issues of the same fingerprint numbered IDs', () => {
+    const { issues } = analyzeSources({
+      'service.ts': `
+        import { prisma } from './client';
+        export async function rename(id: number) {
+          await prisma.user.update({ where: { id }, data: { email: 'a' } });
+          await prisma.user.findFirst({ where: { id } });
+          await prisma.user.findFirst({ where: { id } });
+        }
+      `,
+    });
+    const [first, second] = issues.map((issue) => issue.id);
+    expect(first).toMatch(/^[0-9a-f]{12}$/);
+    expect(second).toBe(`${first}-2`);
+    expect(issues[0].fingerprint.startsWith(first)).toBe(true);
+  });
+});
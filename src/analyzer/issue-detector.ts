@@ -1,112 +1,220 @@
-import type { SourceFile, CallExpression, Node } from 'ts-morph';
-import { SyntaxKind } from 'ts-morph';
-import type { PrismaOperation, Issue } from '../types.js';
-import { classifyOperation } from './operation-classifier.js';
+import type { SourceFile } from 'ts-morph';
+import type { ActiveRule, RuleContext, RuleReport, RuleScope } from '../rules/index.js';
+import type { Issue, PrismaOperation, SeverityOverride } from '../types.js';
+import type { CallGraph, FunctionSummary, ReachableOperation } from './call-graph.js';
+import type { ControlFlowGraph } from './control-flow.js';
+import { buildControlFlowGraph } from './control-flow.js';
+import { createFingerprint } from './fingerprint.js';
 import type { PrismaClientInstance } from './prisma-detector.js';
+import type { SchemaModelGraph } from './schema-parser.js';
 
-interface OperationWithNode {
-  operation: PrismaOperation;
-  node: CallExpression;
+/** Characters of the fingerprint that make up an issue ID */
+const ISSUE_ID_LENGTH = 12;
+
+export interface SeverityOverrides {
+  /** Keyed by delegate name, e.g. "user" */
+  models: ReadonlyMap<string, SeverityOverride>;
+  methods: ReadonlyMap<string, SeverityOverride>;
+}
+
+export interface DetectionContext {
+  /** Root that fingerprint paths are relative to */
+  projectPath: string;
+  prismaInstances: PrismaClientInstance[];
+  callGraph: CallGraph;
+  schema?: SchemaModelGraph | null;
+  severityOverrides?: SeverityOverrides;
+  /** The rules that run, in order */
+  rules: ActiveRule[];
 }
 
 /**
- * Detect read-after-write issues in a source file
+ * Run the rules on every function of a source file
  */
-export const detectIssuesInFile = (
-  sourceFile: SourceFile,
-  _prismaInstances: PrismaClientInstance[]
-): Issue[] => {
+export const detectIssuesInFile = (sourceFile: SourceFile, context: DetectionContext): Issue[] => {
   const issues: Issue[] = [];
+  const ruleContext: RuleContext = {
+    projectPath: context.projectPath,
+    schema: context.schema ?? null,
+    callGraph: context.callGraph,
+    getScope: (summary) => getRuleScope(summary, context.callGraph),
+  };
+
+  // Issues that share a fingerprint get numbered IDs, in source order
+  const fingerprintCounts = new Map<string, number>();
+
+  // Analyze each function separately; its scope is shared by the rules
+  for (const summary of context.callGraph.getFunctionsInFile(sourceFile)) {
+    const scope = getRuleScope(summary, context.callGraph);
+
+    for (const activeRule of context.rules) {
+      let reports: RuleReport[];
+      try {
+        reports = activeRule.rule.check(scope, ruleContext);
+      } catch (error) {
+        const reason = error instanceof Error ? error.message : String(error);
+        throw new Error(
+          `Rule "${activeRule.rule.id}" failed in ${summary.name} (${summary.file}:${summary.line}): ${reason}`
+        );
+      }
 
-  // Get all functions in the file
-  const functions = [
-    ...sourceFile.getDescendantsOfKind(SyntaxKind.FunctionDeclaration),
-    ...sourceFile.getDescendantsOfKind(SyntaxKind.ArrowFunction),
-    ...sourceFile.getDescendantsOfKind(SyntaxKind.FunctionExpression),
-    ...sourceFile.getDescendantsOfKind(SyntaxKind.MethodDeclaration),
-  ];
-
-  // Analyze each function separately
-  for (const func of functions) {
-    const funcIssues = detectIssuesInFunction(func);
-    issues.push(...funcIssues);
+      for (const report of reports) {
+        const issue = createIssue(report, activeRule, context, fingerprintCounts);
+        if (issue) {
+          issues.push(issue);
+        }
+      }
+    }
   }
 
   return issues;
 };
 
-/**
- * Detect read-after-write issues within a single function
- */
-const detectIssuesInFunction = (func: Node): Issue[] => {
-  const issues: Issue[] = [];
-
-  // Get all call expressions in this function
-  const callExpressions = func.getDescendantsOfKind(SyntaxKind.CallExpression);
+/** Summaries belong to one call graph, so their scopes can be kept with them */
+const scopes = new WeakMap<FunctionSummary, RuleScope>();
 
-  // Classify all Prisma operations
-  const operations: OperationWithNode[] = [];
-  for (const callExpr of callExpressions) {
-    const operation = classifyOperation(callExpr);
-    if (operation) {
-      operations.push({ operation, node: callExpr });
-    }
+const getRuleScope = (summary: FunctionSummary, callGraph: CallGraph): RuleScope => {
+  let scope = scopes.get(summary);
+  if (!scope) {
+    scope = createRuleScope(summary, callGraph);
+    scopes.set(summary, scope);
   }
+  return scope;
+};
 
-  // Detect write → read patterns within this function
-  for (let i = 0; i < operations.length; i++) {
-    const { operation: writeOp } = operations[i];
-
-    // Skip if not a write operation
-    if (writeOp.type !== 'write') {
-      continue;
-    }
+/**
+ * Collect the operations of a function once for all rules. The control
+ * flow graph is only built when a rule asks for it.
+ */
+const createRuleScope = (summary: FunctionSummary, callGraph: CallGraph): RuleScope => {
+  const operations = callGraph.getReachableOperations(summary);
+  const indexes = new Map(operations.map((operation, index) => [operation, index]));
+  let controlFlow: ControlFlowGraph | undefined;
+
+  const getControlFlow = (): ControlFlowGraph => {
+    controlFlow ??= buildControlFlowGraph(summary.node);
+    return controlFlow;
+  };
+
+  return {
+    summary,
+    operations,
+    ownOperations: operations.filter(({ event }) => event.kind === 'operation'),
+    get controlFlow() {
+      return getControlFlow();
+    },
+    canRunAfter: (earlier, later) =>
+      canRunAfter(
+        earlier,
+        later,
+        (indexes.get(later) ?? 0) > (indexes.get(earlier) ?? 0),
+        getControlFlow()
+      ),
+  };
+};
 
-    // Skip if in transaction (always uses primary)
-    if (writeOp.inTransaction) {
-      continue;
-    }
+/**
+ * Turn a report into an issue with the configured severity, or null when
+ * the config turns it off
+ */
+const createIssue = (
+  report: RuleReport,
+  { rule, severity: ruleSeverity }: ActiveRule,
+  context: DetectionContext,
+  fingerprintCounts: Map<string, number>
+): Issue | null => {
+  const { write, read } = report;
+  const writeOp = write?.operation;
+  const readOp = read?.operation;
+
+  // Model and method overrides grade read-after-write pairs; issues about
+  // one operation, such as a write through $replica(), fail the same way
+  // whatever the model
+  const override =
+    write && read ? getSeverityOverride([readOp, writeOp], context.severityOverrides) : undefined;
+  const severity =
+    override ?? capSeverity(report.severity ?? ruleSeverity ?? rule.severity, ruleSeverity);
+  if (severity === 'off') {
+    return null;
+  }
 
-    // Look for read operations after this write in the same function
-    for (let j = i + 1; j < operations.length; j++) {
-      const { operation: readOp } = operations[j];
+  const callChain = [...(write?.chain ?? []), ...(read?.chain ?? [])];
+  const fingerprint = createFingerprint({
+    projectPath: context.projectPath,
+    ruleId: rule.id,
+    callChain,
+    writeOperation: writeOp,
+    readOperation: readOp,
+    writeNode: write?.node,
+    readNode: read?.node,
+  });
+  const count = (fingerprintCounts.get(fingerprint) ?? 0) + 1;
+  fingerprintCounts.set(fingerprint, count);
+  const id = fingerprint.slice(0, ISSUE_ID_LENGTH);
+
+  return {
+    id: count === 1 ? id : `${id}-${count}`,
+    ruleId: rule.id,
+    type: rule.id,
+    severity,
+    writeOperation: writeOp,
+    readOperation: readOp,
+    callChain,
+    reason: report.reason,
+    message: report.message,
+    priority: report.priority,
+    fingerprint,
+  };
+};
 
-      // Skip if not a read operation
-      if (readOp.type !== 'read') {
-        continue;
-      }
+/**
+ * Check whether the later operation can execute after the earlier one
+ * within one function. Operations reached through the same call are ordered
+ * by the callee, which reports its own pairs; the caller only adds
+ * operations that a loop around the call brings back after the earlier one.
+ */
+const canRunAfter = (
+  earlier: ReachableOperation,
+  later: ReachableOperation,
+  laterFollowsInSource: boolean,
+  controlFlow: ControlFlowGraph
+): boolean => {
+  const earlierNode = earlier.event.node;
+  const laterNode = later.event.node;
+
+  if (earlier.event === later.event) {
+    return !laterFollowsInSource && controlFlow.canReach(earlierNode, laterNode);
+  }
 
-      // Skip if in transaction
-      if (readOp.inTransaction) {
-        continue;
-      }
+  return controlFlow.canReach(earlierNode, laterNode);
+};
 
-      // Skip if explicitly uses $primary()
-      if (readOp.usesPrimary) {
-        continue;
-      }
+/**
+ * Keep the severity a rule reports, unless the config lowers the rule to a
+ * warning
+ */
+const capSeverity = (
+  severity: Issue['severity'],
+  cap: Issue['severity'] | undefined
+): Issue['severity'] => {
+  return cap === 'warning' ? 'warning' : severity;
+};
 
-      // This is a potential issue:
-      // - Write operation followed by read operation in the same function
-      // - Read operation doesn't explicitly use $primary()
-      // - Read operation will use replica by default (or explicitly uses $replica())
-
-      const issue: Issue = {
-        type: 'read-after-write',
-        severity: 'error',
-        writeOperation: writeOp,
-        readOperation: readOp,
-        callChain: [
-          `${writeOp.location.file}:${writeOp.location.line}`,
-          `${readOp.location.file}:${readOp.location.line}`,
-        ],
-        message: `Read operation on ${readOp.model}.${readOp.method}() may use replica immediately after write operation on ${writeOp.model}.${writeOp.method}(), potentially reading stale data. Consider using $primary() for the read operation.`,
-      };
-
-      issues.push(issue);
-    }
+/**
+ * Find the configured severity for the operations of an issue, the read
+ * first. Method overrides win over model overrides, and the read's method
+ * or model wins over the write's.
+ */
+const getSeverityOverride = (
+  operations: (PrismaOperation | undefined)[],
+  overrides: SeverityOverrides | undefined
+): SeverityOverride | undefined => {
+  if (!overrides) {
+    return undefined;
   }
-
-  return issues;
+  const present = operations.filter((operation): operation is PrismaOperation => !!operation);
+  return (
+    present.map((operation) => overrides.methods.get(operation.method)).find(Boolean) ??
+    present.map((operation) => overrides.models.get(operation.model)).find(Boolean)
+  );
 };
-
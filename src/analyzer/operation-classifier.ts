@@ -1,4 +1,11 @@
-import type { CallExpression, PropertyAccessExpression } from 'ts-morph';
+import { readFileSync } from 'node:fs';
+import { dirname, join } from 'node:path';
+import type {
+  CallExpression,
+  Node,
+  PropertyAccessExpression,
+  TaggedTemplateExpression,
+} from 'ts-morph';
 import { SyntaxKind } from 'ts-morph';
 import type {
   PrismaMethod,
@@ -6,6 +13,26 @@ import type {
   PrismaOperation,
   SourceLocation,
 } from '../types.js';
+import { isFile } from '../utils/file-utils.js';
+import type { ClientResolver } from './client-resolver.js';
+import { parseRawSql } from './raw-sql.js';
+import type { RoutingTracker } from './routing-tracker.js';
+import type { SchemaModelGraph } from './schema-parser.js';
+
+/** A Prisma call, or a raw query written as a tagged template */
+export type OperationNode = CallExpression | TaggedTemplateExpression;
+
+export interface ClassifierContext {
+  schema?: SchemaModelGraph | null;
+  /** Restricts operations to receivers that resolve to Prisma delegates */
+  clientResolver?: ClientResolver;
+  /** Follows primary/replica-bound clients through variables and calls */
+  routingTracker?: RoutingTracker;
+  /** Extra model methods from the config, e.g. helpers added with $extends */
+  customMethods?: { read: ReadonlySet<string>; write: ReadonlySet<string> };
+  /** Delegate names of models left out of the analysis */
+  ignoredModels?: ReadonlySet<string>;
+}
 
 const WRITE_METHODS: ReadonlySet<string> = new Set([
   'create',
@@ -15,6 +42,10 @@ const WRITE_METHODS: ReadonlySet<string> = new Set([
   'upsert',
   'delete',
   'deleteMany',
+  'createManyAndReturn',
+  'updateManyAndReturn',
+  '$executeRaw',
+  '$executeRawUnsafe',
 ]);
 
 const READ_METHODS: ReadonlySet<string> = new Set([
@@ -26,15 +57,42 @@ const READ_METHODS: ReadonlySet<string> = new Set([
   'count',
   'aggregate',
   'groupBy',
+  'findRaw',
+  'aggregateRaw',
+  '$queryRaw',
+  '$queryRawUnsafe',
+  '$queryRawTyped',
+]);
+
+/** Client-level methods that take SQL instead of a model query */
+const RAW_METHODS: ReadonlySet<string> = new Set([
+  '$queryRaw',
+  '$queryRawUnsafe',
+  '$queryRawTyped',
+  '$executeRaw',
+  '$executeRawUnsafe',
 ]);
 
+/** Model name used for raw queries whose tables could not be determined */
+const RAW_MODEL = '$raw';
+
+const DELETE_METHODS: ReadonlySet<string> = new Set(['delete', 'deleteMany']);
+
+/** Argument keys that hold the written record at any nesting level */
+const WRITE_DATA_KEYS: ReadonlySet<string> = new Set(['data', 'create', 'update']);
+
+/** Argument keys that pull related records into a read result */
+const SELECTION_KEYS: ReadonlySet<string> = new Set(['include', 'select']);
+
 /**
  * Classify a Prisma method call as read or write operation
  */
 export const classifyOperation = (
-  callExpression: CallExpression
+  callExpression: OperationNode,
+  context: ClassifierContext = {}
 ): PrismaOperation | null => {
-  const expression = callExpression.getExpression();
+  const isTaggedTemplate = callExpression.isKind(SyntaxKind.TaggedTemplateExpression);
+  const expression = isTaggedTemplate ? callExpression.getTag() : callExpression.getExpression();
 
   // Must be a property access (e.g., prisma.user.findMany())
   if (expression.getKind() !== SyntaxKind.PropertyAccessExpression) {
@@ -46,9 +104,9 @@ export const classifyOperation = (
 
   // Determine operation type
   let type: PrismaOperationType | null = null;
-  if (WRITE_METHODS.has(methodName)) {
+  if (WRITE_METHODS.has(methodName) || context.customMethods?.write.has(methodName)) {
     type = 'write';
-  } else if (READ_METHODS.has(methodName)) {
+  } else if (READ_METHODS.has(methodName) || context.customMethods?.read.has(methodName)) {
     type = 'read';
   }
 
@@ -56,12 +114,43 @@ export const classifyOperation = (
     return null;
   }
 
-  // Extract model name (e.g., "user" from prisma.user.findMany())
-  const model = extractModelName(propertyAccess);
-  if (!model) {
+  // Only raw queries are written as tagged templates: prisma.$queryRaw`...`
+  if (isTaggedTemplate && !RAW_METHODS.has(methodName)) {
     return null;
   }
 
+  let model: string | null;
+  let models: string[];
+
+  if (RAW_METHODS.has(methodName)) {
+    // Raw SQL decides the operation type and models from its statement
+    const raw = classifyRawQuery(callExpression, methodName, propertyAccess, context);
+    if (!raw) {
+      return null;
+    }
+    ({ type, model, models } = raw);
+  } else {
+    // Extract model name (e.g., "user" from prisma.user.findMany())
+    model = resolveModelName(propertyAccess, context);
+    if (!model) {
+      return null;
+    }
+
+    // Work out every model the operation writes to or reads from
+    models = context.schema
+      ? collectModels(type, methodName, model, callExpression, context.schema)
+      : [model];
+  }
+
+  // Ignored models are dropped, including as relations of other models
+  const { ignoredModels } = context;
+  if (ignoredModels) {
+    if (ignoredModels.has(model)) {
+      return null;
+    }
+    models = models.filter((related) => !ignoredModels.has(related));
+  }
+
   // Get location information
   const sourceFile = callExpression.getSourceFile();
   const { line, column } = sourceFile.getLineAndColumnAtPos(callExpression.getStart());
@@ -69,25 +158,187 @@ export const classifyOperation = (
     file: sourceFile.getFilePath(),
     line,
     column,
+    endLine: sourceFile.getLineAndColumnAtPos(callExpression.getEnd()).line,
   };
 
-  // Check for $primary() or $replica()
-  const { usesPrimary, usesReplica } = checkReplicaUsage(propertyAccess);
+  // Check for $primary(), $replica() or a transaction client, including
+  // through aliases, helpers and parameters
+  let usesPrimary: boolean;
+  let usesReplica: boolean;
+  let inTransaction: boolean;
+  let inTransactionCallback: boolean;
 
-  // Check if in transaction
-  const inTransaction = isInTransaction(callExpression);
+  if (context.routingTracker) {
+    const routing = context.routingTracker.getRouting(propertyAccess.getExpression());
+    usesPrimary = routing === 'primary';
+    usesReplica = routing === 'replica';
+    inTransaction =
+      routing === 'transaction' || context.routingTracker.isInBatchTransaction(callExpression);
+    inTransactionCallback = context.routingTracker.isInTransactionCallback(callExpression);
+  } else {
+    ({ usesPrimary, usesReplica } = checkReplicaUsage(propertyAccess));
+    // Without a tracker, anything written inside a transaction counts as in it
+    inTransaction = isInTransaction(callExpression);
+    inTransactionCallback = inTransaction;
+  }
 
   return {
     type,
     method: methodName as PrismaMethod,
     model,
+    models,
     location,
     usesPrimary,
     usesReplica,
     inTransaction,
+    inTransactionCallback,
   };
 };
 
+/**
+ * Get the values passed to an operation. For tagged templates these are the
+ * interpolated expressions, e.g. ${email} in prisma.$queryRaw`...${email}`
+ */
+export const getOperationArguments = (node: OperationNode): Node[] => {
+  if (node.isKind(SyntaxKind.CallExpression)) {
+    return node.getArguments();
+  }
+
+  const template = node.getTemplate();
+  return template.isKind(SyntaxKind.TemplateExpression)
+    ? template.getTemplateSpans().map((span) => span.getExpression())
+    : [];
+};
+
+/**
+ * Classify a raw query from its SQL, mapping tables back to models
+ * e.g., prisma.$queryRaw`SELECT * FROM "users"` -> read of "user" (via @@map)
+ */
+const classifyRawQuery = (
+  node: OperationNode,
+  methodName: string,
+  propertyAccess: PropertyAccessExpression,
+  context: ClassifierContext
+): { type: PrismaOperationType; model: string; models: string[] } | null => {
+  if (context.clientResolver) {
+    const client = context.clientResolver.resolveClient(propertyAccess.getExpression());
+    if (!client || !client.hasReadReplicaExtension) {
+      return null;
+    }
+  }
+
+  const sql = extractRawSql(node, methodName, context.schema);
+  const statement = sql !== null ? parseRawSql(sql) : null;
+
+  // Fall back to the method's intent when the SQL is dynamic or unclear
+  const type: PrismaOperationType =
+    statement?.type ?? (WRITE_METHODS.has(methodName) ? 'write' : 'read');
+  const tables = statement?.type === type ? statement.tables : [];
+
+  const models = new Set<string>();
+  for (const table of tables) {
+    const schemaModel = context.schema?.getModelByTable(table);
+    if (!schemaModel) {
+      // Without a mapping, the table name is the best guess at the model
+      models.add(table);
+      continue;
+    }
+
+    models.add(schemaModel.delegateName);
+    if (statement?.deletes) {
+      for (const target of context.schema?.getCascadeTargets(schemaModel.name) ?? []) {
+        models.add(target.delegateName);
+      }
+    }
+  }
+
+  const modelList = [...models];
+  return { type, model: modelList[0] ?? RAW_MODEL, models: modelList };
+};
+
+/**
+ * Get the SQL text of a raw query. Interpolated values become placeholders.
+ * TypedSQL queries are read from the prisma/sql folder next to the schema.
+ */
+const extractRawSql = (
+  node: OperationNode,
+  methodName: string,
+  schema: SchemaModelGraph | null | undefined
+): string | null => {
+  if (node.isKind(SyntaxKind.TaggedTemplateExpression)) {
+    return getTemplateText(node.getTemplate());
+  }
+
+  const [firstArg] = node.getArguments();
+  if (!firstArg) {
+    return null;
+  }
+
+  if (
+    firstArg.isKind(SyntaxKind.StringLiteral) ||
+    firstArg.isKind(SyntaxKind.NoSubstitutionTemplateLiteral) ||
+    firstArg.isKind(SyntaxKind.TemplateExpression)
+  ) {
+    return getTemplateText(firstArg);
+  }
+
+  // prisma.$queryRaw(Prisma.sql`...`)
+  if (firstArg.isKind(SyntaxKind.TaggedTemplateExpression)) {
+    return getTemplateText(firstArg.getTemplate());
+  }
+
+  // prisma.$queryRawTyped(getUsersByEmail(email)) -> prisma/sql/getUsersByEmail.sql
+  if (methodName === '$queryRawTyped' && firstArg.isKind(SyntaxKind.CallExpression) && schema) {
+    const callee = firstArg.getExpression();
+    const name = callee.isKind(SyntaxKind.PropertyAccessExpression)
+      ? callee.getName()
+      : callee.getText();
+    const sqlPath = join(dirname(schema.path), 'sql', `${name}.sql`);
+    return isFile(sqlPath) ? readFileSync(sqlPath, 'utf-8') : null;
+  }
+
+  return null;
+};
+
+const getTemplateText = (node: Node): string | null => {
+  if (
+    node.isKind(SyntaxKind.StringLiteral) ||
+    node.isKind(SyntaxKind.NoSubstitutionTemplateLiteral)
+  ) {
+    return node.getLiteralText();
+  }
+
+  if (node.isKind(SyntaxKind.TemplateExpression)) {
+    const spans = node
+      .getTemplateSpans()
+      .map((span) => ` ? ${span.getLiteral().getLiteralText()}`);
+    return node.getHead().getLiteralText() + spans.join('');
+  }
+
+  return null;
+};
+
+/**
+ * Resolve the model a method is called on. With a client resolver, the
+ * receiver must be a delegate of a client extended with read replicas;
+ * operations on plain clients never reach a replica and are skipped.
+ */
+const resolveModelName = (
+  propertyAccess: PropertyAccessExpression,
+  context: ClassifierContext
+): string | null => {
+  if (!context.clientResolver) {
+    return extractModelName(propertyAccess);
+  }
+
+  const delegate = context.clientResolver.resolveDelegate(propertyAccess.getExpression());
+  if (!delegate || !delegate.client.hasReadReplicaExtension) {
+    return null;
+  }
+
+  return delegate.model;
+};
+
 /**
  * Extract model name from property access expression
  * e.g., prisma.user.findMany() -> "user"
@@ -112,7 +363,132 @@ const extractModelName = (propertyAccess: PropertyAccessExpression): string | nu
 };
 
 /**
- * Check if the operation uses $primary() or $replica()
+ * Collect the models an operation touches using the schema's relations
+ * e.g., user.create({ data: { posts: { create: {...} } } }) -> ["user", "post"]
+ * e.g., user.findMany({ include: { posts: true } }) -> ["user", "post"]
+ */
+const collectModels = (
+  type: PrismaOperationType,
+  method: string,
+  delegateName: string,
+  callExpression: OperationNode,
+  schema: SchemaModelGraph
+): string[] => {
+  const models = new Set<string>([delegateName]);
+  const rootModel = schema.getModelByDelegate(delegateName);
+  if (!rootModel) {
+    return [...models];
+  }
+
+  const addModel = (modelName: string): void => {
+    const model = schema.models.get(modelName);
+    if (model) {
+      models.add(model.delegateName);
+    }
+  };
+
+  const addCascades = (modelName: string): void => {
+    for (const target of schema.getCascadeTargets(modelName)) {
+      models.add(target.delegateName);
+    }
+  };
+
+  // Walk nested writes, e.g. data: { posts: { create: [...], connect: {...} } }
+  const visitWrite = (node: Node | undefined, modelName: string): void => {
+    if (!node) {
+      return;
+    }
+
+    if (node.isKind(SyntaxKind.ArrayLiteralExpression)) {
+      node.getElements().forEach((element) => visitWrite(element, modelName));
+      return;
+    }
+
+    if (!node.isKind(SyntaxKind.ObjectLiteralExpression)) {
+      return;
+    }
+
+    for (const property of node.getProperties()) {
+      if (!property.isKind(SyntaxKind.PropertyAssignment)) {
+        continue;
+      }
+
+      const name = property.getName();
+      const relationTo = schema.models.get(modelName)?.fields.get(name)?.relationTo;
+
+      if (relationTo) {
+        addModel(relationTo);
+        visitRelationWrite(property.getInitializer(), relationTo);
+      } else if (WRITE_DATA_KEYS.has(name)) {
+        visitWrite(property.getInitializer(), modelName);
+      }
+    }
+  };
+
+  // Walk the operations applied to a relation field, e.g. { create, connect, delete }
+  const visitRelationWrite = (node: Node | undefined, modelName: string): void => {
+    if (!node?.isKind(SyntaxKind.ObjectLiteralExpression)) {
+      return;
+    }
+
+    for (const property of node.getProperties()) {
+      if (!property.isKind(SyntaxKind.PropertyAssignment)) {
+        continue;
+      }
+
+      if (DELETE_METHODS.has(property.getName())) {
+        addCascades(modelName);
+      }
+
+      // Nested updates wrap the record in { where, data }, creates pass it directly
+      visitWrite(property.getInitializer(), modelName);
+    }
+  };
+
+  // Walk include/select trees, e.g. include: { posts: { include: { comments: true } } }
+  const visitSelection = (node: Node | undefined, modelName: string): void => {
+    if (!node?.isKind(SyntaxKind.ObjectLiteralExpression)) {
+      return;
+    }
+
+    for (const property of node.getProperties()) {
+      if (!property.isKind(SyntaxKind.PropertyAssignment)) {
+        continue;
+      }
+
+      const name = property.getName();
+      const initializer = property.getInitializer();
+
+      // _count: { select: { posts: true } } counts related rows of the same shape
+      if (SELECTION_KEYS.has(name) || name === '_count') {
+        visitSelection(initializer, modelName);
+        continue;
+      }
+
+      const relationTo = schema.models.get(modelName)?.fields.get(name)?.relationTo;
+      if (relationTo) {
+        addModel(relationTo);
+        visitSelection(initializer, relationTo);
+      }
+    }
+  };
+
+  const [firstArg] = getOperationArguments(callExpression);
+
+  if (type === 'write') {
+    visitWrite(firstArg, rootModel.name);
+    if (DELETE_METHODS.has(method)) {
+      addCascades(rootModel.name);
+    }
+  } else {
+    visitSelection(firstArg, rootModel.name);
+  }
+
+  return [...models];
+};
+
+/**
+ * Check if the operation uses $primary() or $replica() in its own call chain
  */
 const checkReplicaUsage = (
   propertyAccess: PropertyAccessExpression
@@ -150,9 +526,11 @@ const checkReplicaUsage = (
 };
 
 /**
- * Check if a call expression is inside a transaction
+ * Check if a call expression is lexically inside a transaction callback or
+ * array. Used when no routing tracker is available to follow transaction
+ * clients as values.
  */
-const isInTransaction = (callExpression: CallExpression): boolean => {
+const isInTransaction = (callExpression: OperationNode): boolean => {
   let parent = callExpression.getParent();
 
   while (parent) {
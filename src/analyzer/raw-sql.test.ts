@@ -0,0 +1,54 @@
+import { describe, expect, it } from 'vitest';
+import { parseRawSql } from './raw-sql.js';
+
+describe('parseRawSql', () => {
+  it('finds the tables a write targets', () => {
+    expect(parseRawSql('INSERT INTO "public"."User" (email) VALUES ($1)')).toEqual({
+      type: 'write',
+      tables: ['User'],
+      deletes: false,
+    });
+    expect(parseRawSql('UPDATE users AS u SET name = $1 WHERE u.id = $2').tables).toEqual([
+      'users',
+    ]);
+  });
+
+  it('marks deletes, so relations may cascade', () => {
+    expect(parseRawSql('DELETE FROM `orders` WHERE id = ?')).toEqual({
+      type: 'write',
+      tables: ['orders'],
+      deletes: true,
+    });
+    expect(parseRawSql('TRUNCATE TABLE sessions').deletes).toBe(true);
+  });
+
+  it('finds the tables a read selects from and joins', () => {
+    expect(
+      parseRawSql('SELECT * FROM "User" u JOIN "Post" p ON p."authorId" = u.id WHERE u.id = $1')
+    ).toEqual({ type: 'read', tables: ['User', 'Post'], deletes: false });
+  });
+
+  it('leaves out common table expressions', () => {
+    const statement = parseRawSql(`
+      WITH recent AS (SELECT * FROM "Order" WHERE "createdAt" > now() - interval '1 day')
+      SELECT * FROM recent JOIN "User" ON "User".id = recent."userId"
+    `);
+    expect(statement.tables).toEqual(['Order', 'User']);
+  });
+
+  it('ignores keywords in comments and string literals', () => {
+    const statement = parseRawSql(`
+      -- DELETE FROM audit
+      SELECT * FROM users WHERE note = 'UPDATE posts SET x = 1' /* INSERT INTO logs */
+    `);
+    expect(statement).toEqual({ type: 'read', tables: ['users'], deletes: false });
+  });
+
+  it('neither reads nor writes for other statements', () => {
+    expect(parseRawSql('SET search_path TO app')).toEqual({
+      type: null,
+      tables: [],
+      deletes: false,
+    });
+  });
+});
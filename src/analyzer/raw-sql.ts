@@ -0,0 +1,82 @@
+import type { PrismaOperationType } from '../types.js';
+
+export interface RawStatement {
+  /** Null when the statement neither clearly reads nor writes, e.g. SET */
+  type: PrismaOperationType | null;
+  /** Tables written by a write statement, or read by a read statement */
+  tables: string[];
+  /** Whether rows are removed, so relations may cascade */
+  deletes: boolean;
+}
+
+const IDENTIFIER = String.raw`((?:(?:"[^"]+"|\x60[^\x60]+\x60|\w+)\.)*(?:"[^"]+"|\x60[^\x60]+\x60|\w+))`;
+
+const WRITE_TARGET_PATTERNS = [
+  new RegExp(String.raw`\bINSERT\s+(?:IGNORE\s+)?INTO\s+${IDENTIFIER}`, 'gi'),
+  new RegExp(String.raw`\bUPDATE\s+(?:ONLY\s+)?${IDENTIFIER}(?:\s+(?:AS\s+)?\w+)?\s+SET\b`, 'gi'),
+  new RegExp(String.raw`\bDELETE\s+FROM\s+(?:ONLY\s+)?${IDENTIFIER}`, 'gi'),
+  new RegExp(String.raw`\bMERGE\s+INTO\s+${IDENTIFIER}`, 'gi'),
+  new RegExp(String.raw`\bTRUNCATE\s+(?:TABLE\s+)?${IDENTIFIER}`, 'gi'),
+];
+
+const DELETE_PATTERN = /\b(?:DELETE\s+FROM|TRUNCATE)\b/i;
+const READ_SOURCE_PATTERN = new RegExp(String.raw`\b(?:FROM|JOIN)\s+(?:ONLY\s+)?${IDENTIFIER}`, 'gi');
+const CTE_NAME_PATTERN = /(\w+)\s+AS\s+(?:NOT\s+)?(?:MATERIALIZED\s+)?\(/gi;
+const SELECT_PATTERN = /\bSELECT\b/i;
+
+/**
+ * Lightly parse a SQL statement to find whether it reads or writes and which
+ * tables it targets. This is a keyword scan, not a full parser: it is meant
+ * to map raw queries back to models, not to validate them.
+ */
+export const parseRawSql = (sql: string): RawStatement => {
+  const source = stripLiterals(sql);
+  const cteNames = new Set(
+    [...source.matchAll(CTE_NAME_PATTERN)].map((match) => match[1].toLowerCase())
+  );
+
+  const collect = (pattern: RegExp): string[] => {
+    const tables: string[] = [];
+    for (const match of source.matchAll(pattern)) {
+      const table = normalizeTableName(match[1]);
+      if (!cteNames.has(table.toLowerCase()) && !tables.includes(table)) {
+        tables.push(table);
+      }
+    }
+    return tables;
+  };
+
+  const writeTargets = WRITE_TARGET_PATTERNS.flatMap(collect);
+  if (writeTargets.length > 0) {
+    return {
+      type: 'write',
+      tables: [...new Set(writeTargets)],
+      deletes: DELETE_PATTERN.test(source),
+    };
+  }
+
+  if (SELECT_PATTERN.test(source)) {
+    return { type: 'read', tables: collect(READ_SOURCE_PATTERN), deletes: false };
+  }
+
+  return { type: null, tables: [], deletes: false };
+};
+
+/**
+ * Use the last segment of a qualified name, without quotes
+ * e.g., "public"."users" -> users
+ */
+const normalizeTableName = (name: string): string => {
+  const segments = name.split('.');
+  return segments[segments.length - 1].replace(/^["`]|["`]$/g, '');
+};
+
+/**
+ * Remove comments and string literals so keywords inside them are ignored
+ */
+const stripLiterals = (sql: string): string => {
+  return sql
+    .replace(/--[^\n]*/g, ' ')
+    .replace(/\/\*[\s\S]*?\*\//g, ' ')
+    .replace(/'(?:[^']|'')*'/g, "''");
+};
@@ -0,0 +1,134 @@
+import { describe, expect, it } from 'vitest';
+import { analyzeSources } from '../test-utils.js';
+
+const LOAD_USERS = `
+  export const loadUsers = (db: any, email: string) =>
+    db.user.findMany({ where: { email } });
+`;
+
+/** [function, ruleId] of each issue */
+const analyze = (service: string) =>
+  analyzeSources({ 'users.ts': LOAD_USERS, 'service.ts': service }).issues.map((issue) => [
+    issue.callChain[0]?.functionName,
+    issue.ruleId,
+  ]);
+
+describe('createRoutingTracker', () => {
+  it('leaves a helper to default routing when only some callers pin the primary', () => {
+    const issues = analyze(`
+      import { prisma } from './client';
+      import { loadUsers } from './users';
+
+      export async function signUp(email: string) {
+        await prisma.user.create({ data: { email } });
+        return loadUsers(prisma, email);
+      }
+
+      export async function adminList(email: string) {
+        return loadUsers(prisma.$primary(), email);
+      }
+    `);
+    expect(issues).toEqual([['signUp', 'read-after-write']]);
+  });
+
+  it('follows a client pinned by every caller', () => {
+    const issues = analyze(`
+      import { prisma } from './client';
+      import { loadUsers } from './users';
+
+      export async function signUp(email: string) {
+        await prisma.user.create({ data: { email } });
+        return loadUsers(prisma.$primary(), email);
+      }
+    `);
+    expect(issues).toEqual([]);
+  });
+});
+
+describe('transaction clients', () => {
+  it('follows the transaction client into helpers it is passed to', () => {
+    const issues = analyze(`
+      import { prisma } from './client';
+      import { loadUsers } from './users';
+
+      export async function signUp(email: string) {
+        return prisma.$transaction(async (tx) => {
+          await tx.user.create({ data: { email } });
+          return loadUsers(tx, email);
+        });
+      }
+    `);
+    expect(issues).toEqual([]);
+  });
+
+  it('treats helpers typed to take a transaction client as in a transaction', () => {
+    const { issues } = analyzeSources({
+      'prisma.d.ts': `
+        declare module '@prisma/client' {
+          export namespace Prisma {
+            // Typed as extended with read replicas, so its reads could reach one
+            interface TransactionClient {
+              $primary(): TransactionClient;
+              user: {
+                create(args: object): Promise<object>;
+                findMany(args?: object): Promise<object[]>;
+              };
+            }
+          }
+        }
+      `,
+      'service.ts': `
+        import type { Prisma } from '@prisma/client';
+
+        export async function signUp(tx: Prisma.TransactionClient, email: string) {
+          await tx.user.create({ data: { email } });
+          return tx.user.findMany({ where: { email } });
+        }
+      `,
+    });
+    expect(issues).toEqual([]);
+  });
+
+  it('runs every operation of a batch transaction on the primary', () => {
+    const issues = analyze(`
+      import { prisma } from './client';
+
+      export async function signUp(email: string) {
+        return prisma.$transaction([
+          prisma.user.create({ data: { email } }),
+          prisma.user.findMany({ where: { email } }),
+        ]);
+      }
+    `);
+    expect(issues).toEqual([]);
+  });
+
+  it('reports reads through the outer client inside a transaction callback', () => {
+    const issues = analyze(`
+      import { prisma } from './client';
+
+      export async function signUp(email: string) {
+        return prisma.$transaction(async (tx) => {
+          await tx.user.create({ data: { email } });
+          return prisma.user.findMany({ where: { email } });
+        });
+      }
+    `);
+    expect(issues).toEqual([['signUp', 'read-after-write']]);
+  });
+
+  it('only starts transactions on a Prisma client', () => {
+    const issues = analyze(`
+      import { prisma } from './client';
+      const queue = { $transaction: async (jobs: Promise<unknown>[]) => Promise.all(jobs) };
+
+      export async function signUp(email: string) {
+        return queue.$transaction([
+          prisma.user.create({ data: { email } }),
+          prisma.user.findMany({ where: { email } }),
+        ]);
+      }
+    `);
+    expect(issues).toEqual([['signUp', 'read-after-write']]);
+  });
+});
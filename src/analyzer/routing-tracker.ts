@@ -0,0 +1,291 @@
+import type { CallExpression, Node } from 'ts-morph';
+import { SyntaxKind } from 'ts-morph';
+import { getTargetDeclarations, unwrapExpression } from '../utils/ast-utils.js';
+import { resolveCallee } from './call-graph.js';
+import type { ClientResolver } from './client-resolver.js';
+import {
+  getFieldAssignments,
+  getParameterArguments,
+  getReturnExpressions,
+} from './value-origins.js';
+
+/**
+ * Where queries through a client value are sent: pinned to the primary by
+ * $primary(), pinned to a replica by $replica(), run on the primary as part
+ * of an interactive transaction, or left to the extension's default routing
+ */
+export type ClientRouting = 'primary' | 'replica' | 'transaction' | 'default';
+
+const TRANSACTION_CLIENT_TYPE_PATTERN = /\bTransactionClient\b/;
+
+export interface RoutingTrackerOptions {
+  /** Only `$transaction` calls on clients this resolver accepts start a transaction */
+  clientResolver?: ClientResolver;
+  /** Functions whose callbacks and returned clients always use the primary */
+  primaryWrappers?: string[];
+}
+
+export interface RoutingTracker {
+  getRouting: (expression: Node) => ClientRouting;
+  /** Batch transactions run their queries on the primary as one unit */
+  isInBatchTransaction: (operation: Node) => boolean;
+  /** Whether an operation is written inside an interactive transaction's callback */
+  isInTransactionCallback: (operation: Node) => boolean;
+}
+
+/**
+ * Create a tracker that follows client values through aliases, parameters,
+ * class fields and function return values to find how they were created.
+ * Values with several origins are only pinned when every origin agrees.
+ */
+export const createRoutingTracker = (options: RoutingTrackerOptions = {}): RoutingTracker => {
+  const { clientResolver } = options;
+  const primaryWrappers = new Set(options.primaryWrappers);
+  const cache = new Map<Node, ClientRouting | null>();
+  const inProgress = new Set<Node>();
+
+  /**
+   * Resolve routing, or null when the value has no traceable origin
+   */
+  const trace = (expression: Node): ClientRouting | null => {
+    const node = unwrapExpression(expression);
+    if (cache.has(node)) {
+      return cache.get(node) ?? null;
+    }
+    if (inProgress.has(node)) {
+      return null;
+    }
+
+    inProgress.add(node);
+    let result = traceUncached(node);
+    inProgress.delete(node);
+
+    // A client whose origin is out of sight, e.g. declared in a package,
+    // still routes like any other: it is not pinned
+    if (result === null && clientResolver?.resolveClient(node)) {
+      result = 'default';
+    }
+
+    cache.set(node, result);
+    return result;
+  };
+
+  const traceUncached = (node: Node): ClientRouting | null => {
+    if (node.isKind(SyntaxKind.CallExpression)) {
+      const callee = node.getExpression();
+      if (callee.isKind(SyntaxKind.PropertyAccessExpression)) {
+        const name = callee.getName();
+        if (name === '$primary') {
+          return 'primary';
+        }
+        if (name === '$replica') {
+          return 'replica';
+        }
+        if (name === '$extends') {
+          return trace(callee.getExpression());
+        }
+      }
+
+      if (isPrimaryWrapperCall(node)) {
+        return 'primary';
+      }
+
+      // Helpers such as getPrimary() return a pinned client
+      const func = resolveCallee(node);
+      return func ? combine(getReturnExpressions(func).map(trace)) : null;
+    }
+
+    // new PrismaClient(): a client that nothing has pinned yet
+    if (node.isKind(SyntaxKind.NewExpression)) {
+      return 'default';
+    }
+
+    if (node.isKind(SyntaxKind.Identifier)) {
+      return traceDeclarations(node);
+    }
+
+    if (node.isKind(SyntaxKind.PropertyAccessExpression)) {
+      // Fields declared in the project: this.db, repository.client
+      const fromDeclarations = traceDeclarations(node);
+      if (fromDeclarations) {
+        return fromDeclarations;
+      }
+
+      // Delegates and other members inherit the routing of their object:
+      // db.user, prisma.$primary().user
+      return trace(node.getExpression());
+    }
+
+    return null;
+  };
+
+  const traceDeclarations = (node: Node): ClientRouting | null => {
+    return combine(getTargetDeclarations(node).map(traceDeclaration));
+  };
+
+  const traceDeclaration = (declaration: Node): ClientRouting | null => {
+    if (declaration.isKind(SyntaxKind.VariableDeclaration)) {
+      const initializer = declaration.getInitializer();
+      return initializer ? trace(initializer) : null;
+    }
+
+    // const { user } = prisma.$primary()
+    if (declaration.isKind(SyntaxKind.BindingElement)) {
+      const variable = declaration.getParent()?.getParent();
+      const initializer = variable?.isKind(SyntaxKind.VariableDeclaration)
+        ? variable.getInitializer()
+        : undefined;
+      return initializer ? trace(initializer) : null;
+    }
+
+    if (declaration.isKind(SyntaxKind.PropertyAssignment)) {
+      const initializer = declaration.getInitializer();
+      return initializer ? trace(initializer) : null;
+    }
+
+    if (declaration.isKind(SyntaxKind.PropertyDeclaration)) {
+      const initializer = declaration.getInitializer();
+      if (initializer) {
+        return trace(initializer);
+      }
+      return combine(getFieldAssignments(declaration).map(trace));
+    }
+
+    if (declaration.isKind(SyntaxKind.Parameter)) {
+      // prisma.$transaction(async (tx) => ...)
+      if (isTransactionCallbackParameter(declaration)) {
+        return 'transaction';
+      }
+
+      // Values passed in at call sites, e.g. createOrder(tx, input)
+      const passed = combine(getParameterArguments(declaration).map(trace));
+      if (passed) {
+        return passed;
+      }
+
+      // Helpers typed to only accept a transaction: (tx: Prisma.TransactionClient)
+      const typeNode = declaration.getTypeNode();
+      return typeNode && TRANSACTION_CLIENT_TYPE_PATTERN.test(typeNode.getText())
+        ? 'transaction'
+        : null;
+    }
+
+    return null;
+  };
+
+  const isTransactionCallbackParameter = (parameter: Node): boolean => {
+    const call = getTransactionCall(parameter.getParent());
+    return call !== null && call.getArguments()[0] === parameter.getParent();
+  };
+
+  /**
+   * Get the `$transaction` call an argument is passed to, if the receiver is
+   * a Prisma client
+   */
+  const getTransactionCall = (argument: Node | undefined): CallExpression | null => {
+    const call = argument?.getParent();
+    if (!call?.isKind(SyntaxKind.CallExpression)) {
+      return null;
+    }
+
+    const callee = call.getExpression();
+    if (
+      !callee.isKind(SyntaxKind.PropertyAccessExpression) ||
+      callee.getName() !== '$transaction'
+    ) {
+      return null;
+    }
+
+    if (clientResolver && !clientResolver.resolveClient(callee.getExpression())) {
+      return null;
+    }
+
+    return call;
+  };
+
+  const isPrimaryWrapperCall = (call: CallExpression): boolean => {
+    if (primaryWrappers.size === 0) {
+      return false;
+    }
+    const callee = call.getExpression();
+    const name = callee.isKind(SyntaxKind.PropertyAccessExpression) ? callee.getName() : null;
+    return primaryWrappers.has(callee.getText()) || (name !== null && primaryWrappers.has(name));
+  };
+
+  /**
+   * Check whether an expression is inside a callback passed to a primary
+   * wrapper, e.g. withPrimary(() => prisma.user.findMany())
+   */
+  const isInPrimaryWrapper = (expression: Node): boolean => {
+    let child = expression;
+    for (const ancestor of expression.getAncestors()) {
+      if (
+        ancestor.isKind(SyntaxKind.CallExpression) &&
+        isPrimaryWrapperCall(ancestor) &&
+        ancestor.getArguments().includes(child)
+      ) {
+        return true;
+      }
+      child = ancestor;
+    }
+    return false;
+  };
+
+  const getRouting = (expression: Node): ClientRouting => {
+    const routing = trace(expression);
+    if (routing && routing !== 'default') {
+      return routing;
+    }
+    return isInPrimaryWrapper(expression) ? 'primary' : 'default';
+  };
+
+  /**
+   * Check whether an operation is an element of prisma.$transaction([...])
+   */
+  const isInBatchTransaction = (operation: Node): boolean => {
+    let element = operation;
+    while (element.getParent()?.isKind(SyntaxKind.ParenthesizedExpression)) {
+      element = element.getParentOrThrow();
+    }
+
+    const array = element.getParent();
+    if (!array?.isKind(SyntaxKind.ArrayLiteralExpression)) {
+      return false;
+    }
+
+    const call = getTransactionCall(array);
+    return call !== null && call.getArguments()[0] === array;
+  };
+
+  /**
+   * Check whether an operation is inside the callback of
+   * prisma.$transaction(async (tx) => ...), even when it does not use tx
+   */
+  const isInTransactionCallback = (operation: Node): boolean => {
+    return operation.getAncestors().some((ancestor) => {
+      if (!ancestor.isKind(SyntaxKind.ArrowFunction) && !ancestor.isKind(SyntaxKind.FunctionExpression)) {
+        return false;
+      }
+      const call = getTransactionCall(ancestor);
+      return call !== null && call.getArguments()[0] === ancestor;
+    });
+  };
+
+  return {
+    getRouting,
+    isInBatchTransaction,
+    isInTransactionCallback,
+  };
+};
+
+/**
+ * Merge the routing of every origin of a value. Untraceable origins are
+ * ignored; disagreeing origins fall back to the default routing.
+ */
+const combine = (routings: (ClientRouting | null)[]): ClientRouting | null => {
+  const known = routings.filter((routing): routing is ClientRouting => routing !== null);
+  if (known.length === 0) {
+    return null;
+  }
+  return known.every((routing) => routing === known[0]) ? known[0] : 'default';
+};
@@ -0,0 +1,186 @@
+import { mkdirSync, mkdtempSync, rmSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { analyzeSources } from '../test-utils.js';
+import { loadSchema, parseSchema } from './schema-parser.js';
+
+const SCHEMA = `
+model User {
+  id      Int      @id // was @map("user_id")
+  email   String   @map("email//address")
+  posts   Post[]
+  profile Profile?
+  @@map("users")
+}
+
+model Profile {
+  id     Int  @id
+  userId Int  @unique
+  user   User @relation(fields: [userId], references: [id], onDelete: Cascade)
+}
+
+model Post {
+  id       Int       @id
+  authorId Int
+  author   User      @relation(fields: [authorId], references: [id], onDelete: Cascade)
+  comments Comment[]
+  tags     Tag[]
+}
+
+model Comment {
+  id     Int  @id
+  postId Int?
+  post   Post? @relation(fields: [postId], references: [id], onDelete: SetNull)
+}
+
+model Tag {
+  id     Int  @id
+  postId Int
+  post   Post @relation(fields: [postId], references: [id], onDelete: Restrict)
+}
+
+view UserStats {
+  userId Int @unique
+  posts  Int
+}
+`;
+
+describe('parseSchema', () => {
+  const schema = parseSchema(SCHEMA);
+
+  it('reads models and views', () => {
+    expect([...schema.models.keys()]).toEqual([
+      'User',
+      'Profile',
+      'Post',
+      'Comment',
+      'Tag',
+      'UserStats',
+    ]);
+  });
+
+  it('maps table and column names, leaving out comments', () => {
+    const user = schema.models.get('User')!;
+    expect(user.dbName).toBe('users');
+    expect(user.fields.get('id')?.dbName).toBe('id');
+    expect(user.fields.get('email')?.dbName).toBe('email//address');
+    expect(schema.getModelByTable('USERS')).toBe(user);
+    expect(schema.getModelByDelegate('userStats')?.name).toBe('UserStats');
+  });
+
+  it('resolves relation fields to their models', () => {
+    const user = schema.models.get('User')!;
+    expect(user.fields.get('posts')).toMatchObject({ relationTo: 'Post', isList: true });
+    expect(user.fields.get('profile')).toMatchObject({ relationTo: 'Profile', isList: false });
+    expect(user.fields.get('email')?.relationTo).toBeUndefined();
+  });
+
+  it('follows cascading and nulling deletes through every relation', () => {
+    const names = (modelName: string) =>
+      schema
+        .getCascadeTargets(modelName)
+        .map(({ name }) => name)
+        .sort();
+
+    expect(names('User')).toEqual(['Comment', 'Post', 'Profile']);
+    expect(names('Post')).toEqual(['Comment']);
+    expect(names('Comment')).toEqual([]);
+  });
+});
+
+describe('loadSchema', () => {
+  let root: string;
+
+  beforeEach(() => {
+    root = mkdtempSync(join(tmpdir(), 'prisma-raw-schema-'));
+  });
+
+  afterEach(() => {
+    rmSync(root, { recursive: true, force: true });
+  });
+
+  it('joins the files of a multi-file schema folder', () => {
+    mkdirSync(join(root, 'prisma', 'schema', 'blog'), { recursive: true });
+    writeFileSync(
+      join(root, 'prisma', 'schema', 'user.prisma'),
+      'model User {\n  posts Post[]\n}\n'
+    );
+    writeFileSync(
+      join(root, 'prisma', 'schema', 'blog', 'post.prisma'),
+      'model Post {\n  author User @relation(fields: [authorId], references: [id], onDelete: Cascade)\n}\n'
+    );
+
+    const schema = loadSchema(root);
+    expect(schema?.path).toBe(join(root, 'prisma', 'schema'));
+    expect(schema?.getCascadeTargets('User').map(({ name }) => name)).toEqual(['Post']);
+  });
+
+  it('uses the schema set in package.json', () => {
+    mkdirSync(join(root, 'db'));
+    writeFileSync(join(root, 'db', 'main.prisma'), 'model Account {\n  id Int @id\n}\n');
+    writeFileSync(
+      join(root, 'package.json'),
+      JSON.stringify({ prisma: { schema: 'db/main.prisma' } })
+    );
+
+    expect([...(loadSchema(root)?.models.keys() ?? [])]).toEqual(['Account']);
+  });
+
+  it('returns null without a schema', () => {
+    expect(loadSchema(root)).toBeNull();
+  });
+});
+
+describe('relation models', () => {
+  const findModels = (body: string) => {
+    const { issues } = analyzeSources({
+      'service.ts': `
+        import { prisma } from './client';
+        export async function run(id: number) {
+          ${body}
+        }
+      `,
+    });
+    return issues.map(({ writeOperation, readOperation }) => [
+      writeOperation?.models,
+      readOperation?.models,
+    ]);
+  };
+
+  it('pairs a delete with reads of the models it cascades to', () => {
+    expect(
+      findModels(`
+        await prisma.user.delete({ where: { id } });
+        return prisma.post.findMany({ where: { authorId: id } });
+      `)
+    ).toEqual([[['user', 'post'], ['post']]]);
+  });
+
+  it('pairs a nested create with reads of the related model', () => {
+    expect(
+      findModels(`
+        await prisma.user.create({ data: { email: 'a', posts: { create: { id: 1 } } } });
+        return prisma.post.findFirst({ where: { id: 1 } });
+      `)
+    ).toEqual([[['user', 'post'], ['post']]]);
+  });
+
+  it('pairs a write with reads that include its model', () => {
+    expect(
+      findModels(`
+        await prisma.post.update({ where: { id }, data: {} });
+        return prisma.user.findMany({ include: { posts: true } });
+      `)
+    ).toEqual([[['post'], ['user', 'post']]]);
+  });
+
+  it('does not pair a write with reads of unrelated models', () => {
+    expect(
+      findModels(`
+        await prisma.auditLog.delete({ where: { id } });
+        return prisma.post.findMany();
+      `)
+    ).toEqual([]);
+  });
+});
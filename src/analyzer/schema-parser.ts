@@ -0,0 +1,236 @@
+import { readdirSync, readFileSync } from 'node:fs';
+import { dirname, join } from 'node:path';
+import { isDirectory, isFile } from '../utils/file-utils.js';
+
+export type ReferentialAction = 'Cascade' | 'Restrict' | 'NoAction' | 'SetNull' | 'SetDefault';
+
+export interface SchemaField {
+  name: string;
+  /** Column name, from @map or the field name */
+  dbName: string;
+  type: string;
+  isList: boolean;
+  /** Target model name when the field is a relation */
+  relationTo?: string;
+  /** Set on the side of the relation that holds the foreign key */
+  onDelete?: ReferentialAction;
+}
+
+export interface SchemaModel {
+  name: string;
+  /** Table name, from @@map or the model name */
+  dbName: string;
+  /** Client property name, e.g. "auditLog" for model AuditLog */
+  delegateName: string;
+  fields: Map<string, SchemaField>;
+}
+
+export interface SchemaModelGraph {
+  path: string;
+  models: Map<string, SchemaModel>;
+  getModelByDelegate: (delegateName: string) => SchemaModel | undefined;
+  getModelByTable: (tableName: string) => SchemaModel | undefined;
+  /** Models whose rows are changed when a row of the given model is deleted */
+  getCascadeTargets: (modelName: string) => SchemaModel[];
+}
+
+const BLOCK_PATTERN = /^\s*(model|view)\s+(\w+)\s*\{([\s\S]*?)^\s*\}/gm;
+const FIELD_PATTERN = /^(\w+)\s+(\w+)(\[\])?(\?)?(.*)$/;
+const MAP_PATTERN = /@map\(\s*(?:name:\s*)?"([^"]+)"/;
+const MODEL_MAP_PATTERN = /@@map\(\s*(?:name:\s*)?"([^"]+)"/;
+const ON_DELETE_PATTERN = /onDelete:\s*(\w+)/;
+
+/**
+ * Locate the Prisma schema for a project.
+ * Honors the `prisma.schema` entry in package.json, then falls back to the
+ * default locations used by the Prisma CLI.
+ */
+export const findSchemaPath = (projectPath: string): string | null => {
+  const packageJsonPath = join(projectPath, 'package.json');
+  if (isFile(packageJsonPath)) {
+    try {
+      const packageJson = JSON.parse(readFileSync(packageJsonPath, 'utf-8'));
+      const configured = packageJson?.prisma?.schema;
+      if (typeof configured === 'string') {
+        const resolved = join(dirname(packageJsonPath), configured);
+        if (isFile(resolved) || isDirectory(resolved)) {
+          return resolved;
+        }
+      }
+    } catch {
+      // Ignore malformed package.json and use the default locations
+    }
+  }
+
+  const candidates = [
+    join(projectPath, 'prisma', 'schema.prisma'),
+    join(projectPath, 'schema.prisma'),
+    join(projectPath, 'prisma', 'schema'),
+  ];
+
+  return candidates.find((candidate) => isFile(candidate) || isDirectory(candidate)) ?? null;
+};
+
+/**
+ * Load and parse the project's Prisma schema, if one exists
+ */
+export const loadSchema = (projectPath: string): SchemaModelGraph | null => {
+  const schemaPath = findSchemaPath(projectPath);
+  if (!schemaPath) {
+    return null;
+  }
+
+  const text = isDirectory(schemaPath)
+    ? collectSchemaFiles(schemaPath)
+        .map((file) => readFileSync(file, 'utf-8'))
+        .join('\n')
+    : readFileSync(schemaPath, 'utf-8');
+
+  return parseSchema(text, schemaPath);
+};
+
+/**
+ * Collect every .prisma file of a multi-file schema folder
+ */
+const collectSchemaFiles = (directory: string): string[] => {
+  const files: string[] = [];
+
+  for (const entry of readdirSync(directory, { withFileTypes: true })) {
+    const entryPath = join(directory, entry.name);
+    if (entry.isDirectory()) {
+      files.push(...collectSchemaFiles(entryPath));
+    } else if (entry.name.endsWith('.prisma')) {
+      files.push(entryPath);
+    }
+  }
+
+  return files.sort();
+};
+
+/**
+ * Parse model and view blocks of a Prisma schema into a model graph
+ */
+export const parseSchema = (text: string, path = 'schema.prisma'): SchemaModelGraph => {
+  const models = new Map<string, SchemaModel>();
+  const source = stripComments(text);
+
+  for (const match of source.matchAll(BLOCK_PATTERN)) {
+    const [, , name, body] = match;
+    const fields = new Map<string, SchemaField>();
+    let dbName = name;
+
+    for (const rawLine of body.split('\n')) {
+      const line = rawLine.trim();
+      if (!line) {
+        continue;
+      }
+
+      if (line.startsWith('@@')) {
+        const mapped = MODEL_MAP_PATTERN.exec(line);
+        if (mapped) {
+          dbName = mapped[1];
+        }
+        continue;
+      }
+
+      const fieldMatch = FIELD_PATTERN.exec(line);
+      if (!fieldMatch) {
+        continue;
+      }
+
+      const [, fieldName, type, list, , attributes] = fieldMatch;
+      const onDelete = ON_DELETE_PATTERN.exec(attributes)?.[1] as ReferentialAction | undefined;
+
+      fields.set(fieldName, {
+        name: fieldName,
+        dbName: MAP_PATTERN.exec(attributes)?.[1] ?? fieldName,
+        type,
+        isList: Boolean(list),
+        onDelete,
+      });
+    }
+
+    models.set(name, { name, dbName, delegateName: toDelegateName(name), fields });
+  }
+
+  // Relation targets can only be resolved once every model is known
+  for (const model of models.values()) {
+    for (const field of model.fields.values()) {
+      if (models.has(field.type)) {
+        field.relationTo = field.type;
+      }
+    }
+  }
+
+  return createModelGraph(path, models);
+};
+
+const createModelGraph = (path: string, models: Map<string, SchemaModel>): SchemaModelGraph => {
+  const byDelegate = new Map<string, SchemaModel>();
+  const byTable = new Map<string, SchemaModel>();
+
+  for (const model of models.values()) {
+    byDelegate.set(model.delegateName, model);
+    byTable.set(model.dbName.toLowerCase(), model);
+  }
+
+  const getCascadeTargets = (modelName: string): SchemaModel[] => {
+    const targets = new Map<string, SchemaModel>();
+    const pending = [modelName];
+
+    while (pending.length > 0) {
+      const current = pending.pop() as string;
+
+      for (const model of models.values()) {
+        const affected = [...model.fields.values()].some(
+          (field) =>
+            field.relationTo === current &&
+            (field.onDelete === 'Cascade' || field.onDelete === 'SetNull')
+        );
+
+        if (affected && !targets.has(model.name) && model.name !== modelName) {
+          targets.set(model.name, model);
+          pending.push(model.name);
+        }
+      }
+    }
+
+    return [...targets.values()];
+  };
+
+  return {
+    path,
+    models,
+    getModelByDelegate: (delegateName) => byDelegate.get(delegateName),
+    getModelByTable: (tableName) => byTable.get(tableName.toLowerCase()),
+    getCascadeTargets,
+  };
+};
+
+/**
+ * Prisma exposes each model on the client with a lowercased first letter
+ */
+export const toDelegateName = (modelName: string): string => {
+  return modelName.charAt(0).toLowerCase() + modelName.slice(1);
+};
+
+/**
+ * Remove line comments while leaving string literals intact
+ */
+const stripComments = (text: string): string => {
+  return text
+    .split('\n')
+    .map((line) => {
+      let inString = false;
+      for (let i = 0; i < line.length; i++) {
+        const char = line[i];
+        if (char === '"' && line[i - 1] !== '\\') {
+          inString = !inString;
+        } else if (!inString && char === '/' && line[i + 1] === '/') {
+          return line.slice(0, i);
+        }
+      }
+      return line;
+    })
+    .join('\n');
+};
@@ -0,0 +1,107 @@
+import { describe, expect, it } from 'vitest';
+import { analyzeSources } from '../test-utils.js';
+import { applySuppressions, collectSuppressions } from './suppressions.js';
+
+const USERS = `
+  import { prisma } from './client';
+  export async function createUser(email: string) {
+    await prisma.user.create({ data: { email } });
+  }
+`;
+
+/** Analyze a service calling createUser, and apply the suppressions of both files */
+const suppress = (service: string) => {
+  const { issues, getSourceFile } = analyzeSources({ 'users.ts': USERS, 'service.ts': service });
+  const suppressions = ['users.ts', 'service.ts'].flatMap((name) =>
+    collectSuppressions(getSourceFile(name))
+  );
+  const result = applySuppressions(issues, suppressions);
+  return {
+    issues: result.issues.length,
+    suppressed: result.suppressed.map(({ suppression }) => suppression.location.line),
+    unused: result.unused.map(({ location }) => location.line),
+  };
+};
+
+describe('collectSuppressions', () => {
+  it('reads line, trailing and block comments with their reasons', () => {
+    const { getSourceFile } = analyzeSources({
+      'service.ts': `
+        // prisma-raw-ignore-file
+        const a = 1; // prisma-raw-ignore-next-line: replica lag is fine
+        /*
+         * prisma-raw-ignore-next-line
+         *   reports tolerate lag
+         */
+        const b = '// prisma-raw-ignore-next-line';
+        // prisma-raw-ignore-next-lines
+      `,
+    });
+
+    expect(
+      collectSuppressions(getSourceFile('service.ts')).map(({ kind, location, reason }) => ({
+        kind,
+        line: location.line,
+        reason,
+      }))
+    ).toEqual([
+      { kind: 'file', line: 2, reason: undefined },
+      { kind: 'next-line', line: 3, reason: 'replica lag is fine' },
+      { kind: 'next-line', line: 7, reason: 'reports tolerate lag' },
+    ]);
+  });
+});
+
+describe('applySuppressions', () => {
+  it('silences an issue from the line before its read', () => {
+    const result = suppress(`
+      import { prisma } from './client';
+      import { createUser } from './users';
+      export async function signUp(email: string) {
+        await createUser(email);
+        // prisma-raw-ignore-next-line: replica lag is fine
+        return prisma.user.findMany({ where: { email } });
+      }
+    `);
+    expect(result).toEqual({ issues: 0, suppressed: [6], unused: [] });
+  });
+
+  it('silences an issue from the line before a call in its chain', () => {
+    const result = suppress(`
+      import { prisma } from './client';
+      import { createUser } from './users';
+      export async function signUp(email: string) {
+        // prisma-raw-ignore-next-line
+        await createUser(email);
+        return prisma.user.findMany({ where: { email } });
+      }
+    `);
+    expect(result).toEqual({ issues: 0, suppressed: [5], unused: [] });
+  });
+
+  it('silences every issue reported in a file', () => {
+    const result = suppress(`
+      // prisma-raw-ignore-file: legacy reports
+      import { prisma } from './client';
+      import { createUser } from './users';
+      export async function signUp(email: string) {
+        await createUser(email);
+        return prisma.user.findMany({ where: { email } });
+      }
+    `);
+    expect(result).toEqual({ issues: 0, suppressed: [2], unused: [] });
+  });
+
+  it('lists suppressions that match no issue as unused', () => {
+    const result = suppress(`
+      import { prisma } from './client';
+      import { createUser } from './users';
+      export async function signUp(email: string) {
+        await createUser(email);
+        return prisma.user.findMany({ where: { email } });
+        // prisma-raw-ignore-next-line
+      }
+    `);
+    expect(result).toEqual({ issues: 1, suppressed: [], unused: [7] });
+  });
+});
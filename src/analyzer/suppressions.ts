@@ -0,0 +1,126 @@
+import type { SourceFile } from 'ts-morph';
+import { ts } from 'ts-morph';
+import type { Issue, SuppressedIssue, Suppression } from '../types.js';
+
+const DIRECTIVE_PREFIX = 'prisma-raw-ignore-';
+const DIRECTIVE_PATTERN = /^prisma-raw-ignore-(next-line|file)\b(?:\s*:)?\s*([\s\S]*)$/;
+
+export interface SuppressionResult {
+  issues: Issue[];
+  suppressed: SuppressedIssue[];
+  unused: Suppression[];
+}
+
+/**
+ * Collect the `prisma-raw-ignore-next-line: <reason>` and
+ * `prisma-raw-ignore-file` comments of a source file, in line or block form
+ */
+export const collectSuppressions = (sourceFile: SourceFile): Suppression[] => {
+  const text = sourceFile.getFullText();
+  if (!text.includes(DIRECTIVE_PREFIX)) {
+    return [];
+  }
+
+  const suppressions: Suppression[] = [];
+  const seen = new Set<number>();
+
+  const visitRange = (range: ts.CommentRange): void => {
+    if (seen.has(range.pos)) {
+      return;
+    }
+    seen.add(range.pos);
+
+    const suppression = parseSuppression(sourceFile, text, range);
+    if (suppression) {
+      suppressions.push(suppression);
+    }
+  };
+
+  // Comments are attached to tokens: leading comments start on their own
+  // line, trailing comments follow code on the same line. Tokens such as a
+  // closing brace are visited too, for comments at the end of a block.
+  const file = sourceFile.compilerNode;
+  const visit = (node: ts.Node): void => {
+    if (node.kind >= ts.SyntaxKind.FirstJSDocNode && node.kind <= ts.SyntaxKind.LastJSDocNode) {
+      return;
+    }
+    ts.getLeadingCommentRanges(text, node.pos)?.forEach(visitRange);
+    ts.getTrailingCommentRanges(text, node.end)?.forEach(visitRange);
+    node.getChildren(file).forEach(visit);
+  };
+  visit(file);
+
+  return suppressions.sort((a, b) => a.location.line - b.location.line);
+};
+
+const parseSuppression = (
+  sourceFile: SourceFile,
+  text: string,
+  range: ts.CommentRange
+): Suppression | null => {
+  const comment = text.slice(range.pos, range.end);
+  const body =
+    range.kind === ts.SyntaxKind.SingleLineCommentTrivia
+      ? comment.slice(2)
+      : comment.slice(2, -2).replace(/^\s*\*/gm, '');
+
+  const match = DIRECTIVE_PATTERN.exec(body.trim());
+  if (!match) {
+    return null;
+  }
+
+  const { line, column } = sourceFile.getLineAndColumnAtPos(range.pos);
+  const reason = match[2].trim();
+  return {
+    kind: match[1] === 'file' ? 'file' : 'next-line',
+    location: {
+      file: sourceFile.getFilePath(),
+      // Line-level suppressions are anchored to the last line of the comment
+      line: match[1] === 'file' ? line : sourceFile.getLineAndColumnAtPos(range.end).line,
+      column,
+    },
+    reason: reason || undefined,
+  };
+};
+
+/**
+ * Split issues into reported and suppressed ones. A line suppression matches
+ * when any frame of the call chain is on the line after it, so a finding can
+ * be silenced at the call site or next to the write or read. A file
+ * suppression matches issues reported in that file.
+ */
+export const applySuppressions = (
+  issues: Issue[],
+  suppressions: Suppression[]
+): SuppressionResult => {
+  const byLine = new Map<string, Suppression>();
+  const byFile = new Map<string, Suppression>();
+  for (const suppression of suppressions) {
+    const { file, line } = suppression.location;
+    if (suppression.kind === 'file') {
+      byFile.set(file, suppression);
+    } else {
+      byLine.set(`${file}:${line + 1}`, suppression);
+    }
+  }
+
+  const used = new Set<Suppression>();
+  const result: SuppressionResult = { issues: [], suppressed: [], unused: [] };
+
+  for (const issue of issues) {
+    const suppression =
+      issue.callChain
+        .map((frame) => byLine.get(`${frame.file}:${frame.line}`))
+        .find((match) => match !== undefined) ?? byFile.get(issue.callChain[0].file);
+
+    if (suppression) {
+      used.add(suppression);
+      result.suppressed.push({ ...issue, suppression });
+    } else {
+      result.issues.push(issue);
+    }
+  }
+
+  result.unused = suppressions.filter((suppression) => !used.has(suppression));
+  return result;
+};
@@ -0,0 +1,140 @@
+import type { CallExpression, NewExpression } from 'ts-morph';
+import { Node, SyntaxKind } from 'ts-morph';
+
+/**
+ * Collect the expressions a function returns, excluding nested functions
+ */
+export const getReturnExpressions = (func: Node): Node[] => {
+  const body = func.isKind(SyntaxKind.ArrowFunction) ? func.getBody() : undefined;
+  if (body && !body.isKind(SyntaxKind.Block)) {
+    return [body];
+  }
+
+  const expressions: Node[] = [];
+  func.forEachDescendant((node, traversal) => {
+    if (isFunctionBoundary(node)) {
+      traversal.skip();
+      return;
+    }
+    if (node.isKind(SyntaxKind.ReturnStatement)) {
+      const expression = node.getExpression();
+      if (expression) {
+        expressions.push(expression);
+      }
+    }
+  });
+  return expressions;
+};
+
+/**
+ * Collect values assigned to a field in its class: this.db = db
+ */
+export const getFieldAssignments = (declaration: Node): Node[] => {
+  const owner = declaration.getParent();
+  if (!owner || !declaration.isKind(SyntaxKind.PropertyDeclaration)) {
+    return [];
+  }
+
+  const name = declaration.getName();
+  return owner
+    .getDescendantsOfKind(SyntaxKind.BinaryExpression)
+    .filter((binary) => {
+      const left = binary.getLeft();
+      return (
+        binary.getOperatorToken().getKind() === SyntaxKind.EqualsToken &&
+        left.isKind(SyntaxKind.PropertyAccessExpression) &&
+        left.getExpression().isKind(SyntaxKind.ThisKeyword) &&
+        left.getName() === name
+      );
+    })
+    .map((binary) => binary.getRight());
+};
+
+/**
+ * Collect the arguments passed for a parameter at every call site of its
+ * function, including `new` expressions for constructor parameters
+ */
+export const getParameterArguments = (parameter: Node): Node[] => {
+  const func = parameter.getParent();
+  if (
+    !func ||
+    !Node.isParametered(func) ||
+    !parameter.isKind(SyntaxKind.Parameter) ||
+    parameter.isRestParameter()
+  ) {
+    return [];
+  }
+
+  const index = func.getParameters().indexOf(parameter);
+  if (index < 0) {
+    return [];
+  }
+
+  const args: Node[] = [];
+  for (const reference of getFunctionReferences(func)) {
+    const call = getCallForReference(reference);
+    const arg = call?.getArguments()[index];
+    if (arg) {
+      args.push(arg);
+    }
+  }
+  return args;
+};
+
+/**
+ * Find the identifiers that refer to a function, or to its class for constructors
+ */
+const getFunctionReferences = (func: Node): Node[] => {
+  let nameNode: Node | undefined;
+
+  if (func.isKind(SyntaxKind.Constructor)) {
+    const owner = func.getParent();
+    nameNode = owner.isKind(SyntaxKind.ClassDeclaration) ? owner.getNameNode() : undefined;
+  } else if (
+    func.isKind(SyntaxKind.FunctionDeclaration) ||
+    func.isKind(SyntaxKind.MethodDeclaration)
+  ) {
+    nameNode = func.getNameNode();
+  } else {
+    const parent = func.getParent();
+    if (
+      parent?.isKind(SyntaxKind.VariableDeclaration) ||
+      parent?.isKind(SyntaxKind.PropertyDeclaration) ||
+      parent?.isKind(SyntaxKind.PropertyAssignment)
+    ) {
+      nameNode = parent.getNameNode();
+    }
+  }
+
+  return nameNode?.isKind(SyntaxKind.Identifier) ? nameNode.findReferencesAsNodes() : [];
+};
+
+/**
+ * Get the call or `new` expression that invokes a reference
+ * e.g., createRepository(...), this.load(...), new Repository(...)
+ */
+const getCallForReference = (reference: Node): CallExpression | NewExpression | undefined => {
+  let callee = reference;
+  const parent = reference.getParent();
+  if (parent?.isKind(SyntaxKind.PropertyAccessExpression) && parent.getNameNode() === reference) {
+    callee = parent;
+  }
+
+  const call = callee.getParent();
+  if (
+    (call?.isKind(SyntaxKind.CallExpression) || call?.isKind(SyntaxKind.NewExpression)) &&
+    call.getExpression() === callee
+  ) {
+    return call;
+  }
+  return undefined;
+};
+
+const isFunctionBoundary = (node: Node): boolean => {
+  return (
+    node.isKind(SyntaxKind.FunctionDeclaration) ||
+    node.isKind(SyntaxKind.FunctionExpression) ||
+    node.isKind(SyntaxKind.ArrowFunction) ||
+    node.isKind(SyntaxKind.MethodDeclaration)
+  );
+};
@@ -0,0 +1,84 @@
+import { mkdtempSync, readFileSync, rmSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { compareWithBaseline, readBaseline, writeBaseline } from './baseline.js';
+import type { BaselineEntry, Issue } from './types.js';
+
+const createIssue = (fingerprint: string, functionName: string): Issue =>
+  ({
+    fingerprint,
+    ruleId: 'read-after-write',
+    callChain: [{ functionName, file: '/project/src/users.ts', line: 3 }],
+    writeOperation: { model: 'user', method: 'create' },
+    readOperation: { model: 'user', method: 'findMany' },
+  }) as unknown as Issue;
+
+const createEntry = (fingerprint: string): BaselineEntry => ({
+  fingerprint,
+  ruleId: 'read-after-write',
+  file: 'src/users.ts',
+  functionName: 'signUp',
+});
+
+describe('compareWithBaseline', () => {
+  it('splits issues into new and known ones, and lists fixed entries', () => {
+    const known = createIssue('aaa', 'signUp');
+    const added = createIssue('bbb', 'rename');
+    const fixed = createEntry('ccc');
+
+    expect(compareWithBaseline([known, added], [createEntry('aaa'), fixed])).toEqual({
+      newIssues: [added],
+      known: [known],
+      fixed: [fixed],
+    });
+  });
+
+  it('matches identical fingerprints one to one', () => {
+    const issues = [createIssue('aaa', 'signUp'), createIssue('aaa', 'signUp')];
+    const { newIssues, known } = compareWithBaseline(issues, [createEntry('aaa')]);
+    expect([newIssues.length, known.length]).toEqual([1, 1]);
+  });
+});
+
+describe('baseline files', () => {
+  let directory: string;
+
+  beforeEach(() => {
+    directory = mkdtempSync(join(tmpdir(), 'prisma-raw-baseline-'));
+  });
+
+  afterEach(() => {
+    rmSync(directory, { recursive: true, force: true });
+  });
+
+  it('reads back the entries it writes, sorted by file and function', () => {
+    const path = join(directory, 'baseline.json');
+    writeBaseline(path, [createIssue('bbb', 'signUp'), createIssue('aaa', 'rename')], '/project');
+
+    expect(readBaseline(path)).toEqual([
+      {
+        fingerprint: 'aaa',
+        ruleId: 'read-after-write',
+        file: 'src/users.ts',
+        functionName: 'rename',
+        write: 'user.create()',
+        read: 'user.findMany()',
+      },
+      expect.objectContaining({ fingerprint: 'bbb', functionName: 'signUp' }),
+    ]);
+    expect(readFileSync(path, 'utf-8')).toMatch(/^\{\n {2}"version": 1,/);
+  });
+
+  it('rejects a file of another version', () => {
+    const path = join(directory, 'baseline.json');
+    writeFileSync(path, JSON.stringify({ version: 2, issues: [] }));
+    expect(() => readBaseline(path)).toThrow('expected version 1 with an "issues" array');
+  });
+
+  it('fails on a file that does not exist', () => {
+    expect(() => readBaseline(join(directory, 'missing.json'))).toThrow(
+      'Baseline file does not exist'
+    );
+  });
+});
@@ -0,0 +1,95 @@
+import { readFileSync, writeFileSync } from 'node:fs';
+import { toProjectRelativePath } from './analyzer/fingerprint.js';
+import type { BaselineEntry, Issue } from './types.js';
+import { isFile } from './utils/file-utils.js';
+
+const BASELINE_VERSION = 1;
+
+interface BaselineFile {
+  version: number;
+  issues: BaselineEntry[];
+}
+
+/**
+ * Read the entries of a baseline file written by writeBaseline
+ */
+export const readBaseline = (path: string): BaselineEntry[] => {
+  if (!isFile(path)) {
+    throw new Error(`Baseline file does not exist: ${path}`);
+  }
+
+  let baseline: BaselineFile;
+  try {
+    baseline = JSON.parse(readFileSync(path, 'utf-8'));
+  } catch (error) {
+    const reason = error instanceof Error ? error.message : String(error);
+    throw new Error(`Could not parse baseline file ${path}: ${reason}`);
+  }
+
+  if (baseline?.version !== BASELINE_VERSION || !Array.isArray(baseline.issues)) {
+    throw new Error(
+      `Invalid baseline file ${path}: expected version ${BASELINE_VERSION} with an "issues" array`
+    );
+  }
+
+  return baseline.issues.filter((entry) => typeof entry?.fingerprint === 'string');
+};
+
+/**
+ * Write the given issues as a baseline. Entries are sorted so the file only
+ * changes when issues do.
+ */
+export const writeBaseline = (path: string, issues: Issue[], projectPath: string): void => {
+  const entries = issues
+    .map((issue) => toBaselineEntry(issue, projectPath))
+    .sort(
+      (a, b) =>
+        a.file.localeCompare(b.file) ||
+        a.functionName.localeCompare(b.functionName) ||
+        a.fingerprint.localeCompare(b.fingerprint)
+    );
+
+  const baseline: BaselineFile = { version: BASELINE_VERSION, issues: entries };
+  writeFileSync(path, `${JSON.stringify(baseline, null, 2)}\n`);
+};
+
+/**
+ * Split issues into new ones and ones already in the baseline. Identical
+ * fingerprints are matched one to one, so a copy of a known issue is new.
+ */
+export const compareWithBaseline = (
+  issues: Issue[],
+  entries: BaselineEntry[]
+): { newIssues: Issue[]; known: Issue[]; fixed: BaselineEntry[] } => {
+  const remaining = new Map<string, BaselineEntry[]>();
+  for (const entry of entries) {
+    const matches = remaining.get(entry.fingerprint) ?? [];
+    matches.push(entry);
+    remaining.set(entry.fingerprint, matches);
+  }
+
+  const newIssues: Issue[] = [];
+  const known: Issue[] = [];
+  for (const issue of issues) {
+    if (remaining.get(issue.fingerprint)?.shift()) {
+      known.push(issue);
+    } else {
+      newIssues.push(issue);
+    }
+  }
+
+  return { newIssues, known, fixed: [...remaining.values()].flat() };
+};
+
+const toBaselineEntry = (issue: Issue, projectPath: string): BaselineEntry => {
+  const [frame] = issue.callChain;
+  const { writeOperation, readOperation } = issue;
+  return {
+    fingerprint: issue.fingerprint,
+    ruleId: issue.ruleId,
+    file: toProjectRelativePath(projectPath, frame.file),
+    functionName: frame.functionName,
+    write: writeOperation && `${writeOperation.model}.${writeOperation.method}()`,
+    read: readOperation && `${readOperation.model}.${readOperation.method}()`,
+  };
+};
@@ -0,0 +1,161 @@
+import { mkdtempSync, rmSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import type { Node } from 'ts-morph';
+import { Project } from 'ts-morph';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import type { FunctionEvent, SummaryStore } from './analyzer/call-graph.js';
+import { buildCallGraph } from './analyzer/call-graph.js';
+import { openAnalysisCache } from './cache.js';
+import type { Issue } from './types.js';
+
+const FILES = {
+  'client.ts': `export const prisma = {} as any;`,
+  'repository.ts': `
+    export class UserRepository {
+      constructor(private client: any) {}
+      find(id: number) {
+        return this.client.user.findFirst({ where: { id } });
+      }
+    }
+  `,
+  'service.ts': `
+    import { prisma } from './client';
+    import { UserRepository } from './repository';
+    export const users = new UserRepository(prisma);
+  `,
+  'jobs.ts': `
+    import { prisma } from './client';
+    export const cleanUp = () => prisma.session.deleteMany();
+  `,
+  'audit.ts': `export const audit = () => undefined;`,
+};
+
+const ISSUES = [{ id: 'cached' }] as unknown as Issue[];
+
+describe('openAnalysisCache', () => {
+  let projectPath: string;
+
+  beforeEach(() => {
+    projectPath = mkdtempSync(join(tmpdir(), 'prisma-raw-cache-'));
+  });
+
+  afterEach(() => {
+    rmSync(projectPath, { recursive: true, force: true });
+  });
+
+  /** Open the cache for the project made of some files */
+  const open = (
+    files: Record<string, string>,
+    options: { callers?: Record<string, string[]>; settings?: unknown } = {}
+  ) => {
+    const project = new Project({ useInMemoryFileSystem: true });
+    const sourceFiles = Object.entries(files).map(([name, text]) =>
+      project.createSourceFile(`${projectPath}/${name}`, text)
+    );
+    const { callers } = options;
+    const cache = openAnalysisCache(projectPath, sourceFiles, options.settings ?? {}, {
+      projectFiles: sourceFiles,
+      getCallerFiles: callers
+        ? (sourceFile) =>
+            (callers[sourceFile.getBaseName()] ?? []).map((name) =>
+              project.getSourceFileOrThrow(`${projectPath}/${name}`)
+            )
+        : undefined,
+    });
+    return { cache, sourceFiles };
+  };
+
+  /** Cache every file of a project, then tell which files a second run reuses */
+  const findReused = (
+    changes: Record<string, string>,
+    options: { callers?: Record<string, string[]>; settings?: unknown } = {}
+  ): string[] => {
+    const first = open(FILES, { callers: options.callers });
+    for (const sourceFile of first.sourceFiles) {
+      first.cache.set(sourceFile, ISSUES);
+    }
+    first.cache.save();
+
+    const second = open({ ...FILES, ...changes }, options);
+    return second.sourceFiles
+      .filter((sourceFile) => second.cache.get(sourceFile))
+      .map((sourceFile) => sourceFile.getBaseName());
+  };
+
+  it('reuses every file when nothing changed', () => {
+    expect(findReused({})).toEqual(Object.keys(FILES));
+  });
+
+  it('analyzes a file again when a file it imports changed', () => {
+    const reused = findReused({ 'client.ts': `export const prisma = {} as never;` });
+    expect(reused).toEqual(['audit.ts']);
+  });
+
+  it('analyzes a file again when a file importing it changed', () => {
+    // The caller now passes the primary, which changes how the repository reads
+    const reused = findReused({
+      'service.ts': FILES['service.ts'].replace('(prisma)', '(prisma.$primary())'),
+    });
+    expect(reused).toEqual(['jobs.ts', 'audit.ts']);
+  });
+
+  it('keys a file on the files calling into it for rules that look at callers', () => {
+    // The jobs call the audit through a function passed to them
+    const changes = { 'jobs.ts': FILES['jobs.ts'].replace('deleteMany()', 'deleteMany({})') };
+    expect(findReused(changes)).toEqual(['repository.ts', 'service.ts', 'audit.ts']);
+    expect(findReused(changes, { callers: { 'audit.ts': ['jobs.ts'] } })).toEqual([
+      'repository.ts',
+      'service.ts',
+    ]);
+  });
+
+  it('analyzes everything again when the settings changed', () => {
+    expect(findReused({}, { settings: { maxDepth: 1 } })).toEqual([]);
+  });
+
+  it('gives back the function summaries of files that did not change', () => {
+    /** Summarize every function, telling which ones the cache had */
+    const summarize = (files: Record<string, string>) => {
+      const { cache, sourceFiles } = open(files);
+      const restored = new Map<Node, FunctionEvent[] | undefined>();
+      const summaryStore: SummaryStore = {
+        get: (node) => {
+          const events = cache.summaries.get(node);
+          restored.set(node, events);
+          return events;
+        },
+        set: cache.summaries.set,
+      };
+      const callGraph = buildCallGraph({ maxDepth: 5, summaryStore });
+      const functions = sourceFiles.flatMap((sourceFile) =>
+        callGraph.getFunctionsInFile(sourceFile)
+      );
+      cache.save();
+      return functions.map(({ name, node, events }) => ({
+        name,
+        events,
+        restored: restored.get(node),
+      }));
+    };
+
+    expect(summarize(FILES).every(({ restored }) => restored === undefined)).toBe(true);
+
+    // Only the summary of the changed job is built again
+    const functions = summarize({
+      ...FILES,
+      'jobs.ts': FILES['jobs.ts'].replace('deleteMany()', 'deleteMany({})'),
+    });
+    expect(functions.map(({ name, restored }) => [name, restored !== undefined])).toEqual([
+      ['UserRepository.find', true],
+      ['cleanUp', false],
+      ['audit', true],
+    ]);
+
+    // Restored events point into the new syntax trees
+    const [find] = functions;
+    expect(find.events).toEqual([expect.objectContaining({ kind: 'operation' })]);
+    expect(find.events[0].node.wasForgotten()).toBe(false);
+    expect(find.events[0].node.getText()).toBe('this.client.user.findFirst({ where: { id } })');
+  });
+});
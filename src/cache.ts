@@ -0,0 +1,414 @@
+import { createHash } from 'node:crypto';
+import { mkdirSync, readFileSync, renameSync, writeFileSync } from 'node:fs';
+import { join } from 'node:path';
+import type { Node, SourceFile } from 'ts-morph';
+import type {
+  CallEvent,
+  FunctionEvent,
+  FunctionLikeNode,
+  SummaryStore,
+} from './analyzer/call-graph.js';
+import { toProjectRelativePath } from './analyzer/fingerprint.js';
+import type { OperationNode } from './analyzer/operation-classifier.js';
+import type { CacheStats, Issue, PrismaOperation } from './types.js';
+import { isFile } from './utils/file-utils.js';
+import { ANALYZER_VERSION } from './version.js';
+
+export const CACHE_DIRECTORY = '.prisma-raw-cache';
+const CACHE_FILE = 'issues.json';
+
+interface CacheEntry {
+  /**
+   * Hash of the file, its importers, everything they import and the
+   * settings, and of the files calling into it for rules that look at callers
+   */
+  key: string;
+  issues: Issue[];
+}
+
+/** Where a node is in its file: start, width and kind name */
+type NodeSpan = [number, number, string];
+
+type CachedEvent =
+  | { kind: 'operation'; operation: PrismaOperation; node: NodeSpan }
+  | { kind: 'call'; callee: { file: string; span: NodeSpan }; node: NodeSpan; line: number };
+
+interface SummaryEntry {
+  /** Hash of the file, its importers, everything they import and the settings */
+  key: string;
+  /** Events of the file's functions, keyed by the function's span */
+  functions: Record<string, CachedEvent[]>;
+}
+
+interface CacheFile {
+  version: string;
+  /** Keyed by project-relative path */
+  entries: Record<string, CacheEntry>;
+  summaries: Record<string, SummaryEntry>;
+}
+
+export interface AnalysisCache {
+  /** Issues of a file from an earlier run, if nothing it depends on changed */
+  get: (sourceFile: SourceFile) => Issue[] | undefined;
+  set: (sourceFile: SourceFile, issues: Issue[]) => void;
+  /** Function events of the files that did not change, for the call graph */
+  summaries: SummaryStore;
+  /** Write the entries of this run; files that are gone are dropped */
+  save: () => void;
+  getStats: () => CacheStats;
+}
+
+/**
+ * Open the cache of a project. A file's issues depend on its own code, on
+ * the code of the files it imports, directly or not, and on the settings.
+ * They also depend on its callers, which decide how clients passed to it are
+ * routed, so the files importing it, directly or not, and everything they
+ * import are part of its key too. Importers are looked up among
+ * `projectFiles`. Rules that look at callers the imports do not show pass
+ * `getCallerFiles`, the files calling into a file; the files calling into
+ * it, directly or not, are then part of its key as well.
+ *
+ * The events of each function, its operations and the calls it makes, are
+ * stored too, under the same key without callers. The call graph takes them
+ * from `summaries` instead of classifying every call of a file again, which
+ * is where the type checker spends its time; only the syntax tree is built
+ * anew, and events find their nodes in it by position.
+ */
+export const openAnalysisCache = (
+  projectPath: string,
+  sourceFiles: SourceFile[],
+  settings: unknown,
+  options: {
+    projectFiles?: SourceFile[];
+    getCallerFiles?: (sourceFile: SourceFile) => SourceFile[];
+  } = {}
+): AnalysisCache => {
+  const directory = join(projectPath, CACHE_DIRECTORY);
+  const path = join(directory, CACHE_FILE);
+  const previous = readCacheFile(path);
+  const entries: Record<string, CacheEntry> = {};
+  const summaryEntries: Record<string, SummaryEntry> = {};
+  const stats: CacheStats = { hits: 0, misses: 0 };
+
+  const settingsKey = hash(
+    [ANALYZER_VERSION, projectPath, JSON.stringify(settings, replaceMaps)].join('\n')
+  );
+  const projectFiles = [...new Set([...sourceFiles, ...(options.projectFiles ?? [])])];
+  const closureKeys = computeClosureKeys(projectPath, projectFiles);
+  const importers = findImporters(projectFiles);
+
+  const summaryKeys = new Map<SourceFile, string>();
+  const getSummaryKey = (sourceFile: SourceFile): string => {
+    let key = summaryKeys.get(sourceFile);
+    if (key === undefined) {
+      const keys = [...findReachable(sourceFile, (file) => importers.get(file) ?? [])].map(
+        (file) => closureKeys.get(file) ?? ''
+      );
+      key = hash([settingsKey, ...[...new Set(keys)].sort()].join('\n'));
+      summaryKeys.set(sourceFile, key);
+    }
+    return key;
+  };
+
+  // Callers are only known once the call graph is built, so issue keys are
+  // computed on first use
+  const issueKeys = new Map<SourceFile, string>();
+  const getIssueKey = (sourceFile: SourceFile): string => {
+    let key = issueKeys.get(sourceFile);
+    if (key === undefined) {
+      const { getCallerFiles } = options;
+      key = getCallerFiles
+        ? hash([...findReachable(sourceFile, getCallerFiles)].map(getSummaryKey).sort().join('\n'))
+        : getSummaryKey(sourceFile);
+      issueKeys.set(sourceFile, key);
+    }
+    return key;
+  };
+
+  const getEntryKey = (sourceFile: SourceFile): { path: string; key: string } => {
+    const relativePath = toProjectRelativePath(projectPath, sourceFile.getFilePath());
+    return { path: relativePath, key: hash([relativePath, getIssueKey(sourceFile)].join('\n')) };
+  };
+
+  const get = (sourceFile: SourceFile): Issue[] | undefined => {
+    const { path: relativePath, key } = getEntryKey(sourceFile);
+    const entry = previous.entries[relativePath];
+    if (entry?.key !== key) {
+      stats.misses++;
+      return undefined;
+    }
+    stats.hits++;
+    entries[relativePath] = entry;
+    return entry.issues;
+  };
+
+  const set = (sourceFile: SourceFile, issues: Issue[]): void => {
+    const { path: relativePath, key } = getEntryKey(sourceFile);
+    entries[relativePath] = { key, issues };
+  };
+
+  /**
+   * The summary entry of a file for this run, with the functions of the
+   * earlier run when the file's key did not change
+   */
+  const getSummaryEntry = (sourceFile: SourceFile): SummaryEntry => {
+    const relativePath = toProjectRelativePath(projectPath, sourceFile.getFilePath());
+    let entry = summaryEntries[relativePath];
+    if (!entry) {
+      const key = getSummaryKey(sourceFile);
+      const earlier = previous.summaries[relativePath];
+      entry = { key, functions: earlier?.key === key ? { ...earlier.functions } : {} };
+      summaryEntries[relativePath] = entry;
+    }
+    return entry;
+  };
+
+  const summaries: SummaryStore = {
+    get: (node) => {
+      const cached = getSummaryEntry(node.getSourceFile()).functions[toSpanKey(toSpan(node))];
+      return cached ? restoreEvents(node, cached, projectPath) : undefined;
+    },
+    set: (node, events) => {
+      getSummaryEntry(node.getSourceFile()).functions[toSpanKey(toSpan(node))] = events.map(
+        (event) => storeEvent(event, projectPath)
+      );
+    },
+  };
+
+  const save = (): void => {
+    const cacheFile: CacheFile = {
+      version: ANALYZER_VERSION,
+      entries,
+      summaries: summaryEntries,
+    };
+    mkdirSync(directory, { recursive: true });
+    // The cache never belongs in version control
+    writeFileSync(join(directory, '.gitignore'), '*\n');
+    // Write then rename, so a concurrent run never reads half a file
+    const temporaryPath = `${path}.${process.pid}.tmp`;
+    writeFileSync(temporaryPath, JSON.stringify(cacheFile));
+    renameSync(temporaryPath, path);
+  };
+
+  return { get, set, summaries, save, getStats: () => ({ ...stats }) };
+};
+
+const toSpan = (node: Node): NodeSpan => [node.getStart(), node.getWidth(), node.getKindName()];
+
+const toSpanKey = ([start, width, kind]: NodeSpan): string => `${start}:${width}:${kind}`;
+
+/**
+ * Find the node of a file at a span, or undefined when the file changed
+ * and it is not there anymore
+ */
+const findNode = (sourceFile: SourceFile, [start, width, kind]: NodeSpan): Node | undefined => {
+  let node = sourceFile.getDescendantAtPos(start);
+  while (node && node.getStart() === start) {
+    if (node.getWidth() === width && node.getKindName() === kind) {
+      return node;
+    }
+    node = node.getParent();
+  }
+  return undefined;
+};
+
+const storeEvent = (event: FunctionEvent, projectPath: string): CachedEvent => {
+  if (event.kind === 'operation') {
+    return { kind: 'operation', operation: event.operation, node: toSpan(event.node) };
+  }
+  return {
+    kind: 'call',
+    callee: {
+      file: toProjectRelativePath(projectPath, event.callee.getSourceFile().getFilePath()),
+      span: toSpan(event.callee),
+    },
+    node: toSpan(event.node),
+    line: event.line,
+  };
+};
+
+/**
+ * Turn the stored events of a function back into events pointing into this
+ * run's syntax trees. Returns undefined when a node cannot be found, so the
+ * function is summarized again.
+ */
+const restoreEvents = (
+  func: FunctionLikeNode,
+  cached: CachedEvent[],
+  projectPath: string
+): FunctionEvent[] | undefined => {
+  const sourceFile = func.getSourceFile();
+  const events: FunctionEvent[] = [];
+  for (const event of cached) {
+    const node = findNode(sourceFile, event.node);
+    if (!node) {
+      return undefined;
+    }
+
+    if (event.kind === 'operation') {
+      events.push({ kind: 'operation', operation: event.operation, node: node as OperationNode });
+      continue;
+    }
+
+    const calleeFile = func.getProject().getSourceFile(join(projectPath, event.callee.file));
+    const callee = calleeFile && findNode(calleeFile, event.callee.span);
+    if (!callee) {
+      return undefined;
+    }
+    events.push({
+      kind: 'call',
+      callee: callee as FunctionLikeNode,
+      node: node as CallEvent['node'],
+      line: event.line,
+    });
+  }
+  return events;
+};
+
+/**
+ * Read a cache file, starting over when it is missing, unreadable or was
+ * written by another version of the analyzer
+ */
+const readCacheFile = (path: string): CacheFile => {
+  const empty: CacheFile = { version: ANALYZER_VERSION, entries: {}, summaries: {} };
+  if (!isFile(path)) {
+    return empty;
+  }
+
+  try {
+    const cacheFile = JSON.parse(readFileSync(path, 'utf-8')) as CacheFile;
+    return cacheFile?.version === ANALYZER_VERSION && cacheFile.entries && cacheFile.summaries
+      ? cacheFile
+      : empty;
+  } catch {
+    return empty;
+  }
+};
+
+/**
+ * Hash each file together with everything it imports. Files that import
+ * each other form a strongly connected component and share a key; a
+ * component's key covers its files and the keys of the components it
+ * imports. Tarjan's algorithm finishes components in dependency order.
+ */
+const computeClosureKeys = (
+  projectPath: string,
+  sourceFiles: SourceFile[]
+): Map<SourceFile, string> => {
+  const dependencies = new Map<SourceFile, SourceFile[]>();
+  const getDependencies = (sourceFile: SourceFile): SourceFile[] => {
+    let files = dependencies.get(sourceFile);
+    if (!files) {
+      files = sourceFile.getReferencedSourceFiles();
+      dependencies.set(sourceFile, files);
+    }
+    return files;
+  };
+
+  const keys = new Map<SourceFile, string>();
+  const indexes = new Map<SourceFile, number>();
+  const lowLinks = new Map<SourceFile, number>();
+  const stack: SourceFile[] = [];
+  const onStack = new Set<SourceFile>();
+
+  const visit = (sourceFile: SourceFile): void => {
+    const index = indexes.size;
+    indexes.set(sourceFile, index);
+    lowLinks.set(sourceFile, index);
+    stack.push(sourceFile);
+    onStack.add(sourceFile);
+
+    for (const dependency of getDependencies(sourceFile)) {
+      if (!indexes.has(dependency)) {
+        visit(dependency);
+        lowLinks.set(sourceFile, Math.min(lowLinks.get(sourceFile)!, lowLinks.get(dependency)!));
+      } else if (onStack.has(dependency)) {
+        lowLinks.set(sourceFile, Math.min(lowLinks.get(sourceFile)!, indexes.get(dependency)!));
+      }
+    }
+
+    if (lowLinks.get(sourceFile) !== index) {
+      return;
+    }
+
+    const members = new Set<SourceFile>();
+    let member: SourceFile;
+    do {
+      member = stack.pop()!;
+      onStack.delete(member);
+      members.add(member);
+    } while (member !== sourceFile);
+
+    const parts = [...members].map(
+      (file) =>
+        `${toProjectRelativePath(projectPath, file.getFilePath())}:${hash(file.getFullText())}`
+    );
+    const importedKeys = new Set<string>();
+    for (const file of members) {
+      for (const dependency of getDependencies(file)) {
+        if (!members.has(dependency)) {
+          importedKeys.add(keys.get(dependency)!);
+        }
+      }
+    }
+
+    const key = hash([...parts.sort(), ...[...importedKeys].sort()].join('\n'));
+    for (const file of members) {
+      keys.set(file, key);
+    }
+  };
+
+  for (const sourceFile of sourceFiles) {
+    if (!indexes.has(sourceFile)) {
+      visit(sourceFile);
+    }
+  }
+
+  return keys;
+};
+
+/**
+ * Map each file to the files that import it
+ */
+const findImporters = (sourceFiles: SourceFile[]): Map<SourceFile, SourceFile[]> => {
+  const importers = new Map<SourceFile, SourceFile[]>();
+  for (const sourceFile of sourceFiles) {
+    for (const dependency of sourceFile.getReferencedSourceFiles()) {
+      const files = importers.get(dependency) ?? [];
+      files.push(sourceFile);
+      importers.set(dependency, files);
+    }
+  }
+  return importers;
+};
+
+/**
+ * A file and every file linked to it, directly or not, e.g. its importers
+ */
+const findReachable = (
+  sourceFile: SourceFile,
+  getLinked: (sourceFile: SourceFile) => SourceFile[]
+): Set<SourceFile> => {
+  const found = new Set([sourceFile]);
+  const pending = [sourceFile];
+  while (pending.length > 0) {
+    for (const linked of getLinked(pending.pop()!)) {
+      if (!found.has(linked)) {
+        found.add(linked);
+        pending.push(linked);
+      }
+    }
+  }
+  return found;
+};
+
+const hash = (text: string): string => {
+  return createHash('sha256').update(text).digest('hex');
+};
+
+/**
+ * Serialize maps, such as the models of the schema, by their entries
+ */
+const replaceMaps = (_key: string, value: unknown): unknown => {
+  return value instanceof Map ? [...value] : value;
+};
@@ -0,0 +1,104 @@
+import { execFileSync } from 'node:child_process';
+import { existsSync, mkdirSync, mkdtempSync, realpathSync, rmSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import type { ChangedLines } from './changes.js';
+import { isIssueInChanges, readChangedLines } from './changes.js';
+import type { Issue } from './types.js';
+
+const lines = (count: number, change: Record<number, string> = {}): string =>
+  Array.from({ length: count }, (_, i) => change[i + 1] ?? `line ${i + 1}`).join('\n') + '\n';
+
+describe('readChangedLines', () => {
+  let root: string;
+
+  const git = (...args: string[]): void => {
+    execFileSync('git', ['-c', 'user.name=Test', '-c', 'user.email=test@example.com', ...args], {
+      cwd: root,
+      stdio: 'ignore',
+    });
+  };
+
+  const write = (files: Record<string, string>): void => {
+    for (const [name, text] of Object.entries(files)) {
+      mkdirSync(join(root, name, '..'), { recursive: true });
+      writeFileSync(join(root, name), text);
+    }
+  };
+
+  beforeEach(() => {
+    // The repository root git reports has symlinks resolved
+    root = realpathSync(mkdtempSync(join(tmpdir(), 'prisma-raw-changes-')));
+    git('init', '--quiet');
+    write({ 'src/users.ts': lines(10), 'src/my posts.ts': lines(5), 'src/ünïcode.ts': lines(3) });
+    git('add', '.');
+    git('commit', '--quiet', '-m', 'Initial commit');
+  });
+
+  afterEach(() => {
+    rmSync(root, { recursive: true, force: true });
+  });
+
+  it('finds the lines added or changed since a ref', () => {
+    write({ 'src/users.ts': lines(10, { 3: 'changed', 7: 'changed' }) + 'added\n' });
+    expect(readChangedLines(root, 'HEAD')).toEqual(
+      new Map([[join(root, 'src/users.ts'), new Set([3, 7, 11])]])
+    );
+  });
+
+  it('marks the line before removed lines', () => {
+    write({ 'src/users.ts': lines(10).replace('line 5\n', '') });
+    expect(readChangedLines(root, 'HEAD').get(join(root, 'src/users.ts'))).toEqual(new Set([4]));
+  });
+
+  it('reads paths with spaces and non-ASCII characters', () => {
+    write({
+      'src/my posts.ts': lines(5, { 2: 'changed' }),
+      'src/ünïcode.ts': lines(3, { 1: 'changed' }),
+    });
+    const changes = readChangedLines(root, 'HEAD');
+    expect(changes.get(join(root, 'src/my posts.ts'))).toEqual(new Set([2]));
+    expect(changes.get(join(root, 'src/ünïcode.ts'))).toEqual(new Set([1]));
+  });
+
+  it('counts untracked files as changed in full', () => {
+    write({ 'src/new.ts': lines(2) });
+    expect(readChangedLines(root, 'HEAD').get(join(root, 'src/new.ts'))).toBe('all');
+  });
+
+  it('fails on an unknown ref', () => {
+    expect(() => readChangedLines(root, 'no-such-ref')).toThrow('git diff failed');
+  });
+
+  it('does not read a ref starting with a dash as an option', () => {
+    const output = join(root, 'diff.txt');
+    expect(() => readChangedLines(root, `--output=${output}`)).toThrow('git diff failed');
+    expect(existsSync(output)).toBe(false);
+  });
+});
+
+describe('isIssueInChanges', () => {
+  const issue = {
+    writeOperation: { location: { file: '/project/users.ts', line: 4, endLine: 6 } },
+    readOperation: { location: { file: '/project/users.ts', line: 10 } },
+    callChain: [{ functionName: 'signUp', file: '/project/service.ts', line: 20 }],
+  } as unknown as Issue;
+
+  const isInChanges = (file: string, changed: Set<number> | 'all'): boolean =>
+    isIssueInChanges(issue, new Map([[file, changed]]) as ChangedLines);
+
+  it('matches a change anywhere in a multi-line operation', () => {
+    expect(isInChanges('/project/users.ts', new Set([5]))).toBe(true);
+    expect(isInChanges('/project/users.ts', new Set([7, 9]))).toBe(false);
+  });
+
+  it('matches a change to a call between the operations', () => {
+    expect(isInChanges('/project/service.ts', new Set([20]))).toBe(true);
+    expect(isInChanges('/project/service.ts', new Set([21]))).toBe(false);
+  });
+
+  it('matches any line of a new file', () => {
+    expect(isInChanges('/project/service.ts', 'all')).toBe(true);
+  });
+});
@@ -0,0 +1,115 @@
+import { execFileSync } from 'node:child_process';
+import { join, resolve } from 'node:path';
+import type { Issue } from './types.js';
+
+/** Changed line numbers, 1-based, by absolute file path; 'all' for files new to git */
+export type ChangedLines = Map<string, Set<number> | 'all'>;
+
+/** Matches the new-file side of a hunk header: @@ -12,3 +14,5 @@ */
+const HUNK_PATTERN = /^@@ -\d+(?:,\d+)? \+(\d+)(?:,(\d+))? @@/;
+
+/**
+ * Find the lines that differ between a git ref and the working tree, using
+ * only the local repository. Files that git does not track yet count as
+ * changed in full.
+ */
+export const readChangedLines = (projectPath: string, ref: string): ChangedLines => {
+  const root = runGit(projectPath, ['rev-parse', '--show-toplevel']).trim();
+  const diff = runGit(projectPath, [
+    '-c',
+    'core.quotePath=false',
+    'diff',
+    '--unified=0',
+    '--no-color',
+    '--no-ext-diff',
+    '--diff-filter=d',
+    // A ref starting with - is not an option
+    '--end-of-options',
+    ref,
+    '--',
+    '.',
+  ]);
+
+  const changes: ChangedLines = new Map();
+  let lines: Set<number> | null = null;
+
+  for (const line of diff.split('\n')) {
+    if (line.startsWith('+++ ')) {
+      const path = parseDiffPath(line.slice(4));
+      lines = new Set();
+      changes.set(join(root, path), lines);
+      continue;
+    }
+
+    const hunk = HUNK_PATTERN.exec(line);
+    if (hunk && lines) {
+      const start = Number(hunk[1]);
+      const count = hunk[2] === undefined ? 1 : Number(hunk[2]);
+      // A hunk that only removes lines starts at the line before them
+      for (let number = start; number < start + Math.max(count, 1); number++) {
+        lines.add(Math.max(number, 1));
+      }
+    }
+  }
+
+  const untracked = runGit(projectPath, ['ls-files', '--others', '--exclude-standard', '-z']);
+  for (const path of untracked.split('\0').filter(Boolean)) {
+    changes.set(resolve(projectPath, path), 'all');
+  }
+
+  return changes;
+};
+
+/**
+ * Check whether the write, the read or a call between them is on a
+ * changed line. Changes anywhere in a multi-line operation count.
+ */
+export const isIssueInChanges = (issue: Issue, changes: ChangedLines): boolean => {
+  const ranges = [issue.writeOperation, issue.readOperation].flatMap((operation) => {
+    if (!operation) {
+      return [];
+    }
+    const { file, line, endLine } = operation.location;
+    return [{ file, line, endLine: endLine ?? line }];
+  });
+  for (const { file, line } of issue.callChain) {
+    ranges.push({ file, line, endLine: line });
+  }
+
+  return ranges.some(({ file, line, endLine }) => {
+    const lines = changes.get(file);
+    if (lines === 'all') {
+      return true;
+    }
+    for (let number = line; lines && number <= endLine; number++) {
+      if (lines.has(number)) {
+        return true;
+      }
+    }
+    return false;
+  });
+};
+
+const parseDiffPath = (header: string): string => {
+  // Git ends paths that contain spaces with a tab
+  const path = header.replace(/\t$/, '');
+  // Paths with unusual characters are quoted like C strings
+  const unquoted = path.startsWith('"') ? (JSON.parse(path) as string) : path;
+  return unquoted.replace(/^b\//, '');
+};
+
+const runGit = (cwd: string, args: string[]): string => {
+  try {
+    return execFileSync('git', args, {
+      cwd,
+      encoding: 'utf-8',
+      maxBuffer: 256 * 1024 * 1024,
+      stdio: ['ignore', 'pipe', 'pipe'],
+    });
+  } catch (error) {
+    const stderr = (error as { stderr?: string }).stderr?.trim();
+    const reason = stderr || (error instanceof Error ? error.message : String(error));
+    const command = args[0] === '-c' ? args[2] : args[0];
+    throw new Error(`git ${command} failed: ${reason}`);
+  }
+};
@@ -1,32 +1,121 @@
 #!/usr/bin/env node
 
-import { Command } from 'commander';
+import { writeFileSync } from 'node:fs';
+import chalk from 'chalk';
+import { Command, InvalidArgumentError, Option } from 'commander';
 import { analyze } from './index.js';
+import { toProjectRelativePath } from './analyzer/fingerprint.js';
+import { writeBaseline } from './baseline.js';
+import { DEFAULT_EXCLUDE_PATTERNS } from './projects.js';
+import { OUTPUT_FORMATS, REPORTERS } from './reporters/index.js';
+import { getIssueOperation } from './rules/index.js';
+import type { OutputFormat } from './reporters/index.js';
+import { formatIssueOperations } from './reporters/utils.js';
+import { ANALYZER_VERSION } from './version.js';
 import { logger } from './utils/logger.js';
-import type { AnalyzerOptions } from './types.js';
+import type { AnalyzerOptions, Issue, IssueCount } from './types.js';
+import { watchProject } from './watch.js';
+
+/**
+ * Parse a count such as --max-depth, where 0 is allowed
+ */
+const parseCount = (value: string): number => {
+  if (!/^\d+$/.test(value.trim())) {
+    throw new InvalidArgumentError('Must be a non-negative integer.');
+  }
+  return Number(value);
+};
 
 const program = new Command();
 
 program
   .name('prisma-raw-analyzer')
   .description('Analyze Prisma code for read-after-write issues with read replicas')
-  .version('0.1.0')
+  .version(ANALYZER_VERSION)
   .argument('<project-path>', 'Path to the TypeScript project to analyze')
-  .option('-o, --output <file>', 'Output file for JSON results (default: stdout)')
-  .option('-i, --include <patterns>', 'Comma-separated glob patterns to include', 'src/**/*.ts')
-  .option('-e, --exclude <patterns>', 'Comma-separated glob patterns to exclude', 'node_modules/**,dist/**,build/**')
-  .option('--max-depth <number>', 'Maximum depth for call graph traversal', '100')
-  .action(async (projectPath: string, options) => {
+  .option('-o, --output <file>', 'Output file for results (default: stdout)')
+  .addOption(
+    new Option('-f, --format <format>', 'Output format').choices(OUTPUT_FORMATS).default('json')
+  )
+  .option(
+    '-p, --project <tsconfig>',
+    'TypeScript config to analyze, can be repeated; found in the project and its workspaces when omitted',
+    (value: string, previous: string[]) => [...previous, value],
+    []
+  )
+  .option('-i, --include <patterns>', 'Comma-separated glob patterns to include (default: every file of the tsconfigs)')
+  .option('-e, --exclude <patterns>', 'Comma-separated glob patterns to exclude', DEFAULT_EXCLUDE_PATTERNS.join(','))
+  .option('--max-depth <number>', 'Maximum depth for call graph traversal', parseCount, 100)
+  .option('-c, --config <file>', 'Config file (default: prisma-raw.config.{json,ts,mjs} or package.json "prismaRaw")')
+  .option('--baseline <file>', 'Only fail on issues that are not in this baseline file')
+  .option('--write-baseline <file>', 'Write the current issues to a baseline file and exit successfully')
+  .addOption(new Option('--fix', 'Rewrite flagged reads to use $primary()').conflicts('fixDryRun'))
+  .option('--fix-dry-run', 'Print the fixes as a unified diff without writing files')
+  .option('--changed-since <ref>', 'Only report issues on lines changed since this git ref')
+  .option('--no-cache', 'Analyze every file instead of reusing results from .prisma-raw-cache/')
+  .option('--group-by-write', 'In the pretty format, list each write once with the reads it affects')
+  .addOption(
+    new Option('-w, --watch', 'Analyze again when files change and print new and resolved issues')
+      .conflicts(['fix', 'fixDryRun', 'writeBaseline'])
+  )
+  .action(async (projectPath: string, options, command: Command) => {
     try {
       logger.info(`Analyzing project at: ${projectPath}`);
 
+      // Defaults shown in --help must not override the config file
+      const isExplicit = (name: string): boolean => command.getOptionValueSource(name) === 'cli';
+
       const analyzerOptions: AnalyzerOptions = {
         projectPath,
-        includePatterns: options.include?.split(',').map((p: string) => p.trim()),
-        excludePatterns: options.exclude?.split(',').map((p: string) => p.trim()),
-        maxDepth: options.maxDepth ? parseInt(options.maxDepth, 10) : undefined,
+        tsconfigPaths: options.project.length > 0 ? options.project : undefined,
+        configPath: options.config,
+        baselinePath: options.baseline,
+        includePatterns: isExplicit('include')
+          ? options.include.split(',').map((p: string) => p.trim())
+          : undefined,
+        excludePatterns: isExplicit('exclude')
+          ? options.exclude.split(',').map((p: string) => p.trim())
+          : undefined,
+        maxDepth: isExplicit('maxDepth') ? options.maxDepth : undefined,
+        fix: options.fix ? 'write' : options.fixDryRun ? 'dry-run' : undefined,
+        changedSince: options.changedSince,
+        cache: options.cache,
       };
 
+      if (options.watch) {
+        const watcher = await watchProject(analyzerOptions, {
+          onResult: (result, { added, resolved }) => {
+            for (const issue of added) {
+              console.log(formatIssueChange('+', issue, projectPath));
+            }
+            for (const issue of resolved) {
+              console.log(formatIssueChange('-', issue, projectPath));
+            }
+            logger.info(
+              `${result.summary.totalIssues} issue(s): ${added.length} new, ${resolved.length} resolved`
+            );
+
+            if (options.output) {
+              const report = REPORTERS[options.format as OutputFormat](result, {
+                projectPath,
+                groupByWrite: options.groupByWrite,
+              });
+              writeFileSync(options.output, report);
+            }
+          },
+          onError: (error) => {
+            logger.error(`Analysis failed: ${error instanceof Error ? error.message : String(error)}`);
+          },
+        });
+
+        logger.info('Watching for changes. Press Ctrl+C to stop.');
+        process.on('SIGINT', () => {
+          watcher.close();
+          process.exit(0);
+        });
+        return;
+      }
+
       const startTime = Date.now();
       const result = await analyze(analyzerOptions);
       const executionTime = ((Date.now() - startTime) / 1000).toFixed(2);
@@ -34,24 +123,91 @@ program
       result.summary.executionTime = `${executionTime}s`;
 
       // Output results
-      const jsonOutput = JSON.stringify(result, null, 2);
+      const report = REPORTERS[options.format as OutputFormat](result, {
+        projectPath,
+        color: !options.output,
+        groupByWrite: options.groupByWrite,
+      });
 
       if (options.output) {
-        const { writeFileSync } = await import('node:fs');
-        writeFileSync(options.output, jsonOutput);
+        writeFileSync(options.output, report);
         logger.success(`Results written to: ${options.output}`);
-      } else {
-        console.log(jsonOutput);
+      } else if (!options.fixDryRun) {
+        console.log(report);
+      }
+
+      // A dry run prints the diff in place of the report
+      if (options.fixDryRun && result.fixes) {
+        process.stdout.write(result.fixes.diff);
       }
 
       // Summary
       logger.info(`\nAnalysis complete:`);
       logger.info(`  Files analyzed: ${result.summary.filesAnalyzed}`);
       logger.info(`  Issues found: ${result.summary.totalIssues}`);
+      for (const { name, filesAnalyzed, totalIssues } of result.summary.packages ?? []) {
+        logger.info(`    ${name}: ${totalIssues} issue(s) in ${filesAnalyzed} file(s)`);
+      }
+      if (result.issues.length > 0) {
+        logger.info(`  Issues by file: ${formatCounts(result.summary.byFile)}`);
+        logger.info(`  Issues by model: ${formatCounts(result.summary.byModel)}`);
+      }
+      if (result.summary.scope) {
+        const { changedSince, changedFiles, totalIssues } = result.summary.scope;
+        logger.info(`  Files changed since ${changedSince}: ${changedFiles}`);
+        logger.info(`  Issues in the whole project: ${totalIssues}`);
+      }
+      if (result.summary.suppressedIssues > 0) {
+        logger.info(`  Issues suppressed: ${result.summary.suppressedIssues}`);
+      }
+      if (result.summary.cache) {
+        const { hits, misses } = result.summary.cache;
+        logger.info(`  Cache: ${hits} hit(s), ${misses} miss(es)`);
+      }
       logger.info(`  Execution time: ${executionTime}s`);
 
-      if (result.summary.totalIssues > 0) {
-        logger.warning(`\n${result.summary.totalIssues} read-after-write issue(s) detected!`);
+      if (result.baseline) {
+        logger.info(`  Known issues (baseline): ${result.baseline.known.length}`);
+        for (const entry of result.baseline.fixed) {
+          const pair = `${entry.write} -> ${entry.read}`;
+          logger.info(`Fixed baseline entry: ${entry.file} ${entry.functionName} (${pair})`);
+        }
+      }
+
+      if (result.fixes) {
+        const { applied, fixed, unfixable } = result.fixes;
+        logger.info(`  ${applied ? 'Fixed' : 'Fixable'}: ${fixed.length}`);
+        logger.info(`  Not fixable automatically: ${unfixable.length}`);
+        for (const { issue, reason } of unfixable) {
+          const { file, line } = getIssueOperation(issue).location;
+          logger.warning(`Cannot fix ${file}:${line}: ${reason}`);
+        }
+      }
+
+      for (const suppression of result.unusedSuppressions) {
+        const { file, line } = suppression.location;
+        logger.warning(`Unused prisma-raw-ignore-${suppression.kind} comment at ${file}:${line}`);
+      }
+
+      for (const warning of result.contractWarnings) {
+        const { file, line } = warning.location;
+        logger.warning(`Contract of ${warning.functionName} at ${file}:${line}: ${warning.message}`);
+      }
+
+      if (options.writeBaseline) {
+        const issues = [...(result.baseline?.known ?? []), ...result.issues];
+        writeBaseline(options.writeBaseline, issues, projectPath);
+        logger.success(`Baseline with ${issues.length} issue(s) written to: ${options.writeBaseline}`);
+        process.exit(0);
+      }
+
+      // Fixed issues no longer fail the run
+      const remainingIssues = result.fixes?.applied
+        ? result.fixes.unfixable.length
+        : result.summary.totalIssues;
+
+      if (remainingIssues > 0) {
+        logger.warning(`\n${remainingIssues} issue(s) detected!`);
         process.exit(1);
       } else {
         logger.success('\nNo issues detected!');
@@ -66,4 +222,33 @@ program
     }
   });
 
+/**
+ * List counts on one line, e.g. "user 4, post 1"
+ */
+const formatCounts = (counts: IssueCount[]): string => {
+  return counts.map(({ name, issues }) => `${name} ${issues}`).join(', ');
+};
+
+/**
+ * One line per issue that appeared (+) or was resolved (-) in watch mode
+ */
+const formatIssueChange = (sign: '+' | '-', issue: Issue, projectPath: string): string => {
+  const { location } = getIssueOperation(issue);
+  const file = toProjectRelativePath(projectPath, location.file);
+  const operations = formatIssueOperations(issue);
+  const line = `${sign} ${file}:${location.line}:${location.column} ${issue.severity} ${issue.ruleId} ${operations}`;
+  return sign === '+' ? chalk.red(line) : chalk.green(line);
+};
+
+program
+  .command('lsp')
+  .description('Run a language server over stdio that reports issues in open files')
+  .option('-p, --project <path>', 'Project to analyze (default: the first workspace folder)')
+  .option('-c, --config <file>', 'Config file (default: found as for an analysis)')
+  .option('--stdio', 'Communicate over stdin and stdout (the only transport)')
+  .action(async (options) => {
+    const { startLanguageServer } = await import('./lsp/server.js');
+    startLanguageServer({ projectPath: options.project, configPath: options.config });
+  });
+
 program.parse();
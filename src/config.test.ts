@@ -0,0 +1,121 @@
+import { mkdirSync, mkdtempSync, readdirSync, rmSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { ConfigError, loadConfig, loadRuleModules, validateConfig } from './config.js';
+
+describe('validateConfig', () => {
+  it('accepts a valid config', () => {
+    const config = {
+      include: ['src/**/*.ts'],
+      maxDepth: 20,
+      severity: { models: { AuditLog: 'off' }, methods: { count: 'warning' } },
+      methods: { read: ['findActive'], write: ['softDelete'] },
+      rules: { 'read-after-write': 'warning' },
+    };
+    expect(validateConfig(config, 'config.json')).toBe(config);
+  });
+
+  it('reports every invalid option at once', () => {
+    const config = {
+      maxDepth: 0,
+      exclude: 'dist',
+      severity: { models: { User: 'fatal' } },
+      methods: { read: ['upsertMany'], write: ['upsertMany'] },
+      colors: true,
+    };
+    let error: unknown;
+    try {
+      validateConfig(config, 'config.json');
+    } catch (caught) {
+      error = caught;
+    }
+
+    expect(error).toBeInstanceOf(ConfigError);
+    expect((error as ConfigError).problems).toEqual([
+      expect.stringContaining('unknown option "colors"'),
+      '"exclude" must be an array of non-empty strings',
+      '"maxDepth" must be a positive integer',
+      '"severity.models.User" must be error, warning or off, got "fatal"',
+      '"upsertMany" cannot be both a read and a write method',
+    ]);
+  });
+
+  it('rejects a config that is not an object', () => {
+    expect(() => validateConfig(['src'], 'config.json')).toThrow('the config must be an object');
+  });
+});
+
+describe('loadConfig', () => {
+  let projectPath: string;
+
+  beforeEach(() => {
+    projectPath = mkdtempSync(join(tmpdir(), 'prisma-raw-config-'));
+  });
+
+  afterEach(() => {
+    rmSync(projectPath, { recursive: true, force: true });
+  });
+
+  const write = (files: Record<string, string>): void => {
+    for (const [name, text] of Object.entries(files)) {
+      mkdirSync(join(projectPath, name, '..'), { recursive: true });
+      writeFileSync(join(projectPath, name), text);
+    }
+  };
+
+  it('reads the prismaRaw key of package.json', async () => {
+    write({ 'package.json': JSON.stringify({ name: 'app', prismaRaw: { maxDepth: 3 } }) });
+    expect(await loadConfig(projectPath)).toEqual({
+      path: join(projectPath, 'package.json'),
+      config: { maxDepth: 3 },
+    });
+  });
+
+  it('returns null without a config', async () => {
+    expect(await loadConfig(projectPath)).toBeNull();
+  });
+
+  it('imports a TypeScript config and the TypeScript files it imports', async () => {
+    write({
+      'prisma-raw.config.ts': `
+        import type { AnalyzerConfig } from 'prisma-read-after-write-analyzer';
+        import { ignoredModels } from './config/models';
+        import { depth } from './config/depth.js';
+        const config: AnalyzerConfig = { ignoreModels: ignoredModels, maxDepth: depth };
+        export default config;
+      `,
+      'config/models.ts': `export const ignoredModels: string[] = ['AuditLog'];`,
+      'config/depth.ts': `export const depth: number = 5;`,
+    });
+
+    const loaded = await loadConfig(projectPath);
+    expect(loaded?.config).toEqual({ ignoreModels: ['AuditLog'], maxDepth: 5 });
+    // Nothing is compiled into the project
+    expect(readdirSync(projectPath).sort()).toEqual(['config', 'prisma-raw.config.ts']);
+  });
+
+  it('names the config file when a TypeScript config fails to load', async () => {
+    write({ 'prisma-raw.config.ts': `throw new Error('broken');` });
+    await expect(loadConfig(projectPath)).rejects.toThrow(
+      `Could not load ${join(projectPath, 'prisma-raw.config.ts')}: broken`
+    );
+  });
+
+  it('loads the rules of a TypeScript rule module', async () => {
+    write({
+      'prisma-raw.config.json': JSON.stringify({ ruleModules: ['./rules/no-delete.ts'] }),
+      'rules/no-delete.ts': `
+        export default {
+          id: 'no-delete',
+          description: 'Deletes are not allowed',
+          severity: 'error' as const,
+          check: () => [],
+        };
+      `,
+    });
+
+    const rules = await loadRuleModules(await loadConfig(projectPath));
+    expect(rules.map((rule) => rule.id)).toEqual(['no-delete']);
+  });
+});
@@ -0,0 +1,445 @@
+import { mkdtempSync, readFileSync, rmSync, writeFileSync } from 'node:fs';
+import { createRequire, isBuiltin } from 'node:module';
+import { tmpdir } from 'node:os';
+import { basename, dirname, extname, isAbsolute, join, resolve } from 'node:path';
+import { pathToFileURL } from 'node:url';
+import { ts } from 'ts-morph';
+import type { Rule } from './rules/index.js';
+import type { AnalyzerConfig, AnalyzerOptions } from './types.js';
+import { isFile } from './utils/file-utils.js';
+
+/** Config files looked up next to the project's tsconfig.json, in order */
+export const CONFIG_FILE_NAMES = [
+  'prisma-raw.config.json',
+  'prisma-raw.config.ts',
+  'prisma-raw.config.mjs',
+];
+
+/** Key holding the config in package.json */
+const PACKAGE_JSON_KEY = 'prismaRaw';
+
+const TYPESCRIPT_EXTENSIONS = ['.ts', '.mts'];
+
+const CONFIG_KEYS = [
+  'include',
+  'exclude',
+  'maxDepth',
+  'severity',
+  'methods',
+  'primaryWrappers',
+  'ignoreModels',
+  'rules',
+  'ruleModules',
+];
+
+const SEVERITY_OVERRIDES: ReadonlySet<string> = new Set(['error', 'warning', 'off']);
+const RULE_SEVERITIES: ReadonlySet<string> = new Set(['error', 'warning']);
+
+export interface LoadedConfig {
+  /** File the config was read from */
+  path: string;
+  config: AnalyzerConfig;
+}
+
+/**
+ * Error for config files that cannot be read or do not validate
+ */
+export class ConfigError extends Error {
+  constructor(
+    message: string,
+    /** Each invalid option, e.g. `"maxDepth" must be a positive integer` */
+    readonly problems: string[] = []
+  ) {
+    super(
+      problems.length > 0
+        ? `${message}\n${problems.map((problem) => `  - ${problem}`).join('\n')}`
+        : message
+    );
+    this.name = 'ConfigError';
+  }
+}
+
+/**
+ * Load the project config. An explicit path must exist; otherwise the config
+ * files next to tsconfig.json are tried, then the "prismaRaw" key of
+ * package.json. Returns null when the project has no config.
+ */
+export const loadConfig = async (
+  projectPath: string,
+  configPath?: string
+): Promise<LoadedConfig | null> => {
+  if (configPath) {
+    const path = resolve(configPath);
+    if (!isFile(path)) {
+      throw new ConfigError(`Config file does not exist: ${configPath}`);
+    }
+    return { path, config: validateConfig(await readConfigFile(path), path) };
+  }
+
+  for (const name of CONFIG_FILE_NAMES) {
+    const path = join(projectPath, name);
+    if (isFile(path)) {
+      return { path, config: validateConfig(await readConfigFile(path), path) };
+    }
+  }
+
+  const packageJsonPath = join(projectPath, 'package.json');
+  if (isFile(packageJsonPath)) {
+    let packageJson: unknown;
+    try {
+      packageJson = JSON.parse(readFileSync(packageJsonPath, 'utf-8'));
+    } catch {
+      // Malformed package.json is not ours to report
+      return null;
+    }
+
+    const config = isObject(packageJson) ? packageJson[PACKAGE_JSON_KEY] : undefined;
+    if (config !== undefined) {
+      return { path: packageJsonPath, config: validateConfig(config, packageJsonPath) };
+    }
+  }
+
+  return null;
+};
+
+/**
+ * Merge a config into analyzer options. Options that were set explicitly,
+ * e.g. on the command line, take precedence.
+ */
+export const applyConfig = (options: AnalyzerOptions, config: AnalyzerConfig): AnalyzerOptions => {
+  return {
+    ...options,
+    includePatterns: options.includePatterns ?? config.include,
+    excludePatterns: options.excludePatterns ?? config.exclude,
+    maxDepth: options.maxDepth ?? config.maxDepth,
+  };
+};
+
+/**
+ * Import the rules of the config's rule modules. A path is relative to the
+ * config file; anything else is a package resolved from there.
+ */
+export const loadRuleModules = async (loadedConfig: LoadedConfig | null): Promise<Rule[]> => {
+  const rules: Rule[] = [];
+  if (!loadedConfig) {
+    return rules;
+  }
+
+  for (const specifier of loadedConfig.config.ruleModules ?? []) {
+    const path = resolveRuleModule(specifier, loadedConfig.path);
+    const exported = TYPESCRIPT_EXTENSIONS.includes(extname(path))
+      ? await importTypeScript(path)
+      : await importModule(path);
+
+    const candidates = Array.isArray(exported) ? exported : [exported];
+    const problems = candidates.flatMap((candidate, index) =>
+      checkRule(candidate, candidates.length > 1 ? `rule ${index}` : 'the default export')
+    );
+    if (problems.length > 0) {
+      throw new ConfigError(`Invalid rule module ${specifier}`, problems);
+    }
+    rules.push(...(candidates as Rule[]));
+  }
+  return rules;
+};
+
+const resolveRuleModule = (specifier: string, configPath: string): string => {
+  if (specifier.startsWith('.') || isAbsolute(specifier)) {
+    const path = resolve(dirname(configPath), specifier);
+    if (!isFile(path)) {
+      throw new ConfigError(`Rule module does not exist: ${specifier}`);
+    }
+    return path;
+  }
+
+  try {
+    return createRequire(configPath).resolve(specifier);
+  } catch {
+    throw new ConfigError(`Could not find rule module ${specifier} from ${dirname(configPath)}`);
+  }
+};
+
+/**
+ * Check the shape of a rule from a rule module, whose code is not typed
+ */
+const checkRule = (value: unknown, name: string): string[] => {
+  if (!isObject(value)) {
+    return [`${name} must be a rule object`];
+  }
+
+  const problems: string[] = [];
+  for (const key of ['id', 'description']) {
+    if (typeof value[key] !== 'string' || value[key] === '') {
+      problems.push(`"${key}" of ${name} must be a non-empty string`);
+    }
+  }
+  if (typeof value.severity !== 'string' || !RULE_SEVERITIES.has(value.severity)) {
+    problems.push(`"severity" of ${name} must be error or warning`);
+  }
+  if (typeof value.check !== 'function') {
+    problems.push(`"check" of ${name} must be a function`);
+  }
+  return problems;
+};
+
+/**
+ * Read the raw config value from a JSON, TypeScript or ES module file
+ */
+const readConfigFile = async (path: string): Promise<unknown> => {
+  const extension = extname(path);
+
+  if (extension === '.json') {
+    const json = parseJson(path);
+    return basename(path) === 'package.json' && isObject(json) ? json[PACKAGE_JSON_KEY] : json;
+  }
+
+  if (TYPESCRIPT_EXTENSIONS.includes(extension)) {
+    return await importTypeScript(path);
+  }
+
+  if (extension === '.mjs' || extension === '.js') {
+    return await importModule(path);
+  }
+
+  throw new ConfigError(`Unsupported config file type: ${path}`);
+};
+
+const parseJson = (path: string): unknown => {
+  try {
+    return JSON.parse(readFileSync(path, 'utf-8'));
+  } catch (error) {
+    const reason = error instanceof Error ? error.message : String(error);
+    throw new ConfigError(`Could not parse ${path}: ${reason}`);
+  }
+};
+
+/**
+ * Import a module's default export. The URL changes on every call so edits
+ * are picked up when the config is loaded again in the same process.
+ * Errors name `sourcePath`, the file the module was compiled from.
+ */
+const importModule = async (path: string, sourcePath = path): Promise<unknown> => {
+  try {
+    const url = pathToFileURL(path);
+    url.searchParams.set('t', String(Date.now()));
+    const module = await import(url.href);
+    return module.default ?? module;
+  } catch (error) {
+    const reason = error instanceof Error ? error.message : String(error);
+    throw new ConfigError(`Could not load ${sourcePath}: ${reason}`);
+  }
+};
+
+/**
+ * Transpile a TypeScript module, and the TypeScript files it imports, to ES
+ * modules in a temporary directory and import that. The project directory
+ * is left untouched.
+ */
+const importTypeScript = async (path: string): Promise<unknown> => {
+  const directory = mkdtempSync(join(tmpdir(), 'prisma-raw-'));
+  try {
+    return await importModule(transpileTypeScript(path, directory, new Map()), path);
+  } finally {
+    rmSync(directory, { recursive: true, force: true });
+  }
+};
+
+/**
+ * Write the ES module of a TypeScript file to a directory and return its
+ * path. Its relative imports of TypeScript files are transpiled too; other
+ * imports are rewritten to absolute URLs, as they would not resolve from
+ * the directory.
+ */
+const transpileTypeScript = (
+  path: string,
+  directory: string,
+  compiledPaths: Map<string, string>
+): string => {
+  const existing = compiledPaths.get(path);
+  if (existing) {
+    return existing;
+  }
+  const compiledPath = join(
+    directory,
+    `${compiledPaths.size}-${basename(path, extname(path))}.mjs`
+  );
+  compiledPaths.set(path, compiledPath);
+
+  const resolveSpecifier = (specifier: string): string => {
+    if (!specifier.startsWith('.')) {
+      return resolvePackageSpecifier(specifier, path);
+    }
+    const target = resolve(dirname(path), specifier);
+    const typeScriptPath = findTypeScriptFile(target);
+    return pathToFileURL(
+      typeScriptPath ? transpileTypeScript(typeScriptPath, directory, compiledPaths) : target
+    ).href;
+  };
+
+  const { outputText } = ts.transpileModule(readFileSync(path, 'utf-8'), {
+    compilerOptions: {
+      module: ts.ModuleKind.ESNext,
+      target: ts.ScriptTarget.ES2022,
+    },
+    fileName: path,
+    transformers: { before: [rewriteModuleSpecifiers(resolveSpecifier)] },
+  });
+  writeFileSync(compiledPath, outputText);
+  return compiledPath;
+};
+
+/**
+ * The TypeScript file a relative import points to: the file itself, the
+ * file with a TypeScript extension added, or the .ts file of a .js import
+ */
+const findTypeScriptFile = (target: string): string | null => {
+  const candidates = [
+    target,
+    ...TYPESCRIPT_EXTENSIONS.map((extension) => `${target}${extension}`),
+    target.replace(/\.js$/, '.ts'),
+    target.replace(/\.mjs$/, '.mts'),
+  ];
+  return (
+    candidates.find(
+      (candidate) => TYPESCRIPT_EXTENSIONS.includes(extname(candidate)) && isFile(candidate)
+    ) ?? null
+  );
+};
+
+/**
+ * Resolve a package from the importing file, leaving built-in modules and
+ * packages that cannot be found to the import itself
+ */
+const resolvePackageSpecifier = (specifier: string, importerPath: string): string => {
+  if (isBuiltin(specifier) || isAbsolute(specifier)) {
+    return specifier;
+  }
+  try {
+    return pathToFileURL(createRequire(importerPath).resolve(specifier)).href;
+  } catch {
+    return specifier;
+  }
+};
+
+/**
+ * Replace the module specifiers of static imports, re-exports and
+ * dynamic imports
+ */
+const rewriteModuleSpecifiers =
+  (rewrite: (specifier: string) => string): ts.TransformerFactory<ts.SourceFile> =>
+  (context) => {
+    const replaceSpecifier = (node: ts.Node): ts.Node =>
+      ts.isStringLiteral(node) ? context.factory.createStringLiteral(rewrite(node.text)) : node;
+
+    const visit = (node: ts.Node): ts.Node => {
+      if (
+        ((ts.isImportDeclaration(node) || ts.isExportDeclaration(node)) &&
+          node.moduleSpecifier) ||
+        (ts.isCallExpression(node) && node.expression.kind === ts.SyntaxKind.ImportKeyword)
+      ) {
+        return ts.visitEachChild(node, replaceSpecifier, context);
+      }
+      return ts.visitEachChild(node, visit, context);
+    };
+    return (sourceFile) => ts.visitNode(sourceFile, visit) as ts.SourceFile;
+  };
+
+/**
+ * Check a raw config value against the AnalyzerConfig shape, reporting
+ * every invalid option at once
+ */
+export const validateConfig = (value: unknown, source: string): AnalyzerConfig => {
+  if (!isObject(value)) {
+    throw new ConfigError(`Invalid config in ${source}`, ['the config must be an object']);
+  }
+
+  const problems: string[] = [];
+  checkKeys(value, CONFIG_KEYS, '', problems);
+
+  for (const key of ['include', 'exclude', 'primaryWrappers', 'ignoreModels', 'ruleModules']) {
+    checkStringArray(value[key], key, problems);
+  }
+
+  const { maxDepth } = value;
+  if (maxDepth !== undefined && !(Number.isInteger(maxDepth) && (maxDepth as number) > 0)) {
+    problems.push('"maxDepth" must be a positive integer');
+  }
+
+  const { severity } = value;
+  if (severity !== undefined) {
+    if (isObject(severity)) {
+      checkKeys(severity, ['models', 'methods'], 'severity.', problems);
+      checkSeverityMap(severity.models, 'severity.models', problems);
+      checkSeverityMap(severity.methods, 'severity.methods', problems);
+    } else {
+      problems.push('"severity" must be an object with "models" and/or "methods"');
+    }
+  }
+
+  // Rule IDs are checked once the rule modules are loaded
+  checkSeverityMap(value.rules, 'rules', problems);
+
+  const { methods } = value;
+  if (methods !== undefined) {
+    if (isObject(methods)) {
+      checkKeys(methods, ['read', 'write'], 'methods.', problems);
+      checkStringArray(methods.read, 'methods.read', problems);
+      checkStringArray(methods.write, 'methods.write', problems);
+
+      const reads = Array.isArray(methods.read) ? methods.read : [];
+      const writes = Array.isArray(methods.write) ? methods.write : [];
+      for (const method of reads.filter((read) => writes.includes(read))) {
+        problems.push(`"${method}" cannot be both a read and a write method`);
+      }
+    } else {
+      problems.push('"methods" must be an object with "read" and/or "write"');
+    }
+  }
+
+  if (problems.length > 0) {
+    throw new ConfigError(`Invalid config in ${source}`, problems);
+  }
+
+  return value as AnalyzerConfig;
+};
+
+const checkKeys = (
+  value: Record<string, unknown>,
+  known: string[],
+  prefix: string,
+  problems: string[]
+): void => {
+  for (const key of Object.keys(value)) {
+    if (!known.includes(key)) {
+      problems.push(`unknown option "${prefix}${key}" (expected one of ${known.join(', ')})`);
+    }
+  }
+};
+
+const checkStringArray = (value: unknown, name: string, problems: string[]): void => {
+  if (value === undefined) {
+    return;
+  }
+  if (!Array.isArray(value) || value.some((item) => typeof item !== 'string' || item === '')) {
+    problems.push(`"${name}" must be an array of non-empty strings`);
+  }
+};
+
+const checkSeverityMap = (value: unknown, name: string, problems: string[]): void => {
+  if (value === undefined) {
+    return;
+  }
+  if (!isObject(value)) {
+    problems.push(`"${name}" must map names to error, warning or off`);
+    return;
+  }
+  for (const [key, severity] of Object.entries(value)) {
+    if (typeof severity !== 'string' || !SEVERITY_OVERRIDES.has(severity)) {
+      problems.push(`"${name}.${key}" must be error, warning or off, got ${JSON.stringify(severity)}`);
+    }
+  }
+};
+
+const isObject = (value: unknown): value is Record<string, unknown> => {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+};
@@ -0,0 +1,28 @@
+import type { ESLint, Linter } from 'eslint';
+import { ANALYZER_VERSION } from '../version.js';
+import readAfterWrite from './read-after-write.js';
+
+const plugin = {
+  meta: {
+    name: 'eslint-plugin-prisma-raw',
+    version: ANALYZER_VERSION,
+  },
+  rules: {
+    'read-after-write': readAfterWrite,
+  },
+  configs: {} as Record<string, Linter.Config>,
+} satisfies ESLint.Plugin;
+
+/**
+ * Flat config that enables the rule. The files it applies to must be
+ * parsed by @typescript-eslint/parser with type information.
+ */
+plugin.configs.recommended = {
+  name: 'prisma-raw/recommended',
+  plugins: { 'prisma-raw': plugin },
+  rules: {
+    'prisma-raw/read-after-write': 'error',
+  },
+};
+
+export default plugin;
@@ -0,0 +1,99 @@
+import { mkdtempSync, realpathSync, rmSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import parser from '@typescript-eslint/parser';
+import { Linter } from 'eslint';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { CLIENT_SOURCE } from '../test-utils.js';
+import plugin from './index.js';
+
+const USERS = `import { prisma } from './client';
+
+export const findUsers = (email: string) => prisma.user.findMany({ where: { email } });
+`;
+
+describe('prisma-raw/read-after-write', () => {
+  let root: string;
+
+  beforeEach(() => {
+    // The parser reports file names with symlinks resolved
+    root = realpathSync(mkdtempSync(join(tmpdir(), 'prisma-raw-eslint-')));
+    writeFileSync(join(root, 'tsconfig.json'), JSON.stringify({ include: ['*.ts'] }));
+    writeFileSync(join(root, 'client.ts'), CLIENT_SOURCE);
+    writeFileSync(join(root, 'users.ts'), USERS);
+  });
+
+  afterEach(() => {
+    rmSync(root, { recursive: true, force: true });
+  });
+
+  /** Lint service.ts of the temp project with the recommended config */
+  const lint = (service: string, parserOptions: object = { project: './tsconfig.json' }) => {
+    const filename = join(root, 'service.ts');
+    writeFileSync(filename, service);
+    const config: Linter.Config = {
+      ...plugin.configs.recommended,
+      files: ['**/*.ts'],
+      languageOptions: { parser, parserOptions: { tsconfigRootDir: root, ...parserOptions } },
+    };
+    return new Linter({ cwd: root }).verify(service, config, { filename });
+  };
+
+  it('reports a read after a write with a suggestion to read from the primary', () => {
+    const service = `import { prisma } from './client';
+
+export async function signUp(email: string) {
+  await prisma.user.create({ data: { email } });
+  return prisma.user.findMany({ where: { email } });
+}
+`;
+    const [message, ...others] = lint(service);
+    expect(others).toEqual([]);
+    expect(message).toMatchObject({
+      ruleId: 'prisma-raw/read-after-write',
+      severity: 2,
+      line: 5,
+      column: 10,
+    });
+
+    const [suggestion] = message.suggestions ?? [];
+    expect(suggestion.desc).toBe('Read from the primary with $primary()');
+    const { range, text } = suggestion.fix;
+    expect(service.slice(0, range[0]) + text + service.slice(range[1])).toContain(
+      'return prisma.$primary().user.findMany({ where: { email } });'
+    );
+  });
+
+  it('reports a read in another file at the call that leads to it', () => {
+    const messages = lint(`import { prisma } from './client';
+import { findUsers } from './users';
+
+export async function signUp(email: string) {
+  await prisma.user.create({ data: { email } });
+  return findUsers(email);
+}
+`);
+    expect(messages).toHaveLength(1);
+    expect(messages[0]).toMatchObject({ line: 6, column: 3, endColumn: 27 });
+    expect(messages[0].message).toMatch(/The read happens in findUsers\(\) \(users\.ts:3\)\.$/);
+    expect(messages[0].suggestions).toBeUndefined();
+  });
+
+  it('honors suppression comments', () => {
+    const messages = lint(`import { prisma } from './client';
+
+export async function signUp(email: string) {
+  await prisma.user.create({ data: { email } });
+  // prisma-raw-ignore-next-line: replica lag is fine here
+  return prisma.user.findMany({ where: { email } });
+}
+`);
+    expect(messages).toEqual([]);
+  });
+
+  it('requires type information', () => {
+    expect(() => lint('export {};\n', {})).toThrow(
+      'prisma-raw/read-after-write requires type information'
+    );
+  });
+});
@@ -0,0 +1,259 @@
+import { dirname, relative } from 'node:path';
+import type { Rule } from 'eslint';
+import type { ts } from 'ts-morph';
+import { Project } from 'ts-morph';
+import { createDetectionContext } from '../analyzer/detection-context.js';
+import type { DetectionContext } from '../analyzer/issue-detector.js';
+import { detectIssuesInFile } from '../analyzer/issue-detector.js';
+import { detectPrismaClients } from '../analyzer/prisma-detector.js';
+import { loadSchema } from '../analyzer/schema-parser.js';
+import { applySuppressions, collectSuppressions } from '../analyzer/suppressions.js';
+import { validateConfig } from '../config.js';
+import { createPrimaryFix } from '../fixer.js';
+import { readAfterWrite } from '../rules/read-after-write.js';
+import { replicaReadAfterWrite } from '../rules/replica-read-after-write.js';
+import type { AnalyzerConfig, Issue, PrismaOperation } from '../types.js';
+
+/**
+ * The parts of the program from @typescript-eslint/parser that are used.
+ * The parser may ship a different TypeScript version than ts-morph.
+ */
+interface ParserProgram {
+  getCompilerOptions: () => ts.CompilerOptions;
+  getCurrentDirectory: () => string;
+  getRootFileNames: () => readonly string[];
+  getSourceFile: (fileName: string) => { text: string } | undefined;
+}
+
+interface ProjectAnalysis {
+  project: Project;
+  detectionContext: DetectionContext | null;
+}
+
+/**
+ * Analyses are shared by every file linted with the same program and
+ * options. The parser creates a new program when files change.
+ */
+const analyses = new WeakMap<ParserProgram, Map<string, ProjectAnalysis>>();
+
+const rule: Rule.RuleModule = {
+  meta: {
+    type: 'problem',
+    docs: {
+      description:
+        'Disallow reads that may hit a read replica right after a write in the same flow',
+      recommended: true,
+    },
+    hasSuggestions: true,
+    // Options are the analyzer config and are checked by validateConfig
+    schema: [{ type: 'object' }],
+    messages: {
+      readAfterWrite: '{{message}}',
+      readAfterWriteInCallee:
+        '{{message}} The read happens in {{functionName}}() ({{file}}:{{line}}).',
+      usePrimary: 'Read from the primary with $primary()',
+    },
+  },
+
+  create(context) {
+    const program = context.sourceCode.parserServices?.program as ParserProgram | undefined;
+    if (!program) {
+      throw new Error(
+        'prisma-raw/read-after-write requires type information. Configure ' +
+          '@typescript-eslint/parser with "parserOptions.projectService" or "parserOptions.project".'
+      );
+    }
+
+    const [options] = context.options as [unknown?];
+    const config = validateConfig(options ?? {}, 'the options of prisma-raw/read-after-write');
+
+    const { project, detectionContext } = getProjectAnalysis(program, config, context.cwd);
+    const sourceFile = project.getSourceFile(context.filename);
+    if (!detectionContext || !sourceFile) {
+      return {};
+    }
+
+    return {
+      'Program:exit'() {
+        const { issues } = applySuppressions(
+          detectIssuesInFile(sourceFile, detectionContext),
+          collectSuppressions(sourceFile)
+        );
+
+        // Several writes can precede the same read; it is reported once
+        const reported = new Set<string>();
+        for (const issue of issues) {
+          const read = issue.readOperation;
+          if (!read) {
+            continue;
+          }
+          const { location } = read;
+          const key = `${location.file}:${location.line}:${location.column}`;
+          if (reported.has(key)) {
+            continue;
+          }
+          reported.add(key);
+
+          if (location.file === sourceFile.getFilePath()) {
+            reportRead(context, issue, read, createPrimaryFix(sourceFile, issue));
+          } else {
+            reportCall(context, issue, sourceFile.getFilePath());
+          }
+        }
+      },
+    };
+  },
+};
+
+/**
+ * Report a read in the linted file, with a suggestion to route it through
+ * the primary when that is safe
+ */
+const reportRead = (
+  context: Rule.RuleContext,
+  issue: Issue,
+  read: PrismaOperation,
+  edit: ReturnType<typeof createPrimaryFix>
+): void => {
+  const { location, method } = read;
+  const node = findCallNode(context, location.line, location.column, method);
+
+  context.report({
+    ...(node
+      ? { node }
+      : { loc: { line: location.line, column: location.column - 1 } }),
+    messageId: 'readAfterWrite',
+    data: { message: issue.message },
+    suggest:
+      typeof edit === 'string'
+        ? []
+        : [
+            {
+              messageId: 'usePrimary',
+              fix: (fixer) => fixer.replaceTextRange([edit.start, edit.end], edit.text),
+            },
+          ],
+  });
+};
+
+/**
+ * Report a read in another file at the last call in the linted file that
+ * leads to it
+ */
+const reportCall = (context: Rule.RuleContext, issue: Issue, filePath: string): void => {
+  const frame = [...issue.callChain].reverse().find((entry) => entry.file === filePath);
+  const [readFrame] = issue.callChain.slice(-1);
+  if (!frame || !readFrame) {
+    return;
+  }
+
+  const lineText = context.sourceCode.lines[frame.line - 1] ?? '';
+  const indent = lineText.length - lineText.trimStart().length;
+  context.report({
+    loc: {
+      start: { line: frame.line, column: indent },
+      end: { line: frame.line, column: lineText.trimEnd().length },
+    },
+    messageId: 'readAfterWriteInCallee',
+    data: {
+      message: issue.message,
+      functionName: readFrame.functionName,
+      file: relative(context.cwd, readFrame.file),
+      line: String(readFrame.line),
+    },
+  });
+};
+
+/**
+ * Find the call of a method that starts at a 1-based line and column
+ */
+const findCallNode = (
+  context: Rule.RuleContext,
+  line: number,
+  column: number,
+  method: string
+): Rule.Node | undefined => {
+  const { sourceCode } = context;
+  let index: number;
+  try {
+    index = sourceCode.getIndexFromLoc({ line, column: column - 1 });
+  } catch {
+    return undefined;
+  }
+
+  let node = sourceCode.getNodeByRangeIndex(index) as Rule.Node | null;
+  while (node && node.range?.[0] === index) {
+    const callee =
+      node.type === 'CallExpression'
+        ? node.callee
+        : node.type === 'TaggedTemplateExpression'
+          ? node.tag
+          : undefined;
+    if (
+      callee?.type === 'MemberExpression' &&
+      callee.property.type === 'Identifier' &&
+      callee.property.name === method
+    ) {
+      return node;
+    }
+    node = node.parent;
+  }
+  return undefined;
+};
+
+/**
+ * Mirror the parser's program in a ts-morph project and set up detection.
+ * Source texts come from the program, so unsaved editor changes are seen.
+ */
+const getProjectAnalysis = (
+  program: ParserProgram,
+  config: AnalyzerConfig,
+  cwd: string
+): ProjectAnalysis => {
+  const key = JSON.stringify(config);
+  const byOptions = analyses.get(program) ?? new Map<string, ProjectAnalysis>();
+  analyses.set(program, byOptions);
+
+  const cached = byOptions.get(key);
+  if (cached) {
+    return cached;
+  }
+
+  const compilerOptions = program.getCompilerOptions();
+  const project = new Project({ compilerOptions });
+  for (const fileName of program.getRootFileNames()) {
+    const text = program.getSourceFile(fileName)?.text;
+    if (text !== undefined) {
+      project.createSourceFile(fileName, text, { overwrite: true });
+    }
+  }
+  project.resolveSourceFileDependencies();
+
+  const projectPath =
+    typeof compilerOptions.configFilePath === 'string'
+      ? dirname(compilerOptions.configFilePath)
+      : program.getCurrentDirectory() || cwd;
+
+  const prismaInstances = detectPrismaClients(project.getSourceFiles());
+  const analysis: ProjectAnalysis = {
+    project,
+    detectionContext:
+      prismaInstances.length > 0
+        ? createDetectionContext({
+            projectPath,
+            prismaInstances,
+            schema: loadSchema(projectPath),
+            // ESLint turns its rules on and off itself, and rule modules do not apply
+            config: { ...config, rules: undefined },
+            maxDepth: config.maxDepth,
+            // Explicit $replica() reads after a write have a rule of their own
+            rules: [readAfterWrite, replicaReadAfterWrite],
+          })
+        : null,
+  };
+
+  byOptions.set(key, analysis);
+  return analysis;
+};
+
+export default rule;
@@ -0,0 +1,112 @@
+import { describe, expect, it } from 'vitest';
+import { createPrimaryFix, fixIssues } from './fixer.js';
+import { analyzeSources, TEST_PROJECT_PATH } from './test-utils.js';
+
+const fix = (source: string) => {
+  const { project, issues } = analyzeSources({ 'service.ts': source });
+  const result = fixIssues(project, issues, { projectPath: TEST_PROJECT_PATH, write: false });
+  return {
+    ...result,
+    reasons: result.unfixable.map(({ reason }) => reason),
+    text: project.getSourceFileOrThrow(`${TEST_PROJECT_PATH}/service.ts`).getFullText(),
+  };
+};
+
+describe('fixIssues', () => {
+  it('routes a read through $primary()', () => {
+    const result = fix(`
+      import { prisma } from './client';
+      export async function rename(id: number) {
+        await prisma.user.update({ where: { id }, data: { email: 'a' } });
+        return prisma.user.findUnique({ where: { id } });
+      }
+    `);
+    expect(result.reasons).toEqual([]);
+    expect(result.diff).toContain(
+      '+        return prisma.$primary().user.findUnique({ where: { id } });'
+    );
+  });
+
+  it('replaces $replica() with $primary()', () => {
+    const result = fix(`
+      import { prisma } from './client';
+      export async function rename(id: number) {
+        await prisma.user.update({ where: { id }, data: { email: 'a' } });
+        return prisma.$replica().user.findUnique({ where: { id } });
+      }
+    `);
+    expect(result.fixed).toHaveLength(1);
+    expect(result.diff).toContain('prisma.$primary().user.findUnique');
+    expect(result.diff).not.toContain('+        return prisma.$replica()');
+  });
+
+  it('leaves the file alone in a dry run', () => {
+    const result = fix(`
+      import { prisma } from './client';
+      export async function rename(id: number) {
+        await prisma.user.update({ where: { id }, data: { email: 'a' } });
+        return prisma.user.findUnique({ where: { id } });
+      }
+    `);
+    expect(result.applied).toBe(false);
+    expect(result.text).not.toContain('$primary()');
+  });
+
+  it('refuses reads inside a transaction callback of a Prisma client', () => {
+    const result = fix(`
+      import { prisma } from './client';
+      export async function rename(id: number) {
+        return prisma.$transaction(async (tx) => {
+          await tx.user.update({ where: { id }, data: { email: 'a' } });
+          return prisma.user.findUnique({ where: { id } });
+        });
+      }
+    `);
+    expect(result.fixed).toEqual([]);
+    expect(result.reasons).toContain('the read is inside a transaction');
+  });
+
+  it('fixes reads in a $transaction callback of an object that is not a Prisma client', () => {
+    const result = fix(`
+      import { prisma } from './client';
+      const queue = { $transaction: async (run: () => Promise<unknown>) => run() };
+      export async function rename(id: number) {
+        return queue.$transaction(async () => {
+          await prisma.user.update({ where: { id }, data: { email: 'a' } });
+          return prisma.user.findUnique({ where: { id } });
+        });
+      }
+    `);
+    expect(result.reasons).toEqual([]);
+    expect(result.diff).toContain('prisma.$primary().user.findUnique');
+  });
+});
+
+describe('createPrimaryFix', () => {
+  it('refuses a read that is in another file than the one given', () => {
+    const { issues, getSourceFile } = analyzeSources({
+      'users.ts': `
+        import { prisma } from './client';
+        export async function getUser(id: number) {
+          return prisma.user.findUnique({ where: { id } });
+        }
+      `,
+      'service.ts': `
+        import { prisma } from './client';
+        import { getUser } from './users';
+        export async function rename(id: number) {
+          await prisma.user.update({ where: { id }, data: { email: 'a' } });
+          return getUser(id);
+        }
+      `,
+    });
+    const [issue] = issues;
+    expect(issue.readOperation?.location.file).toBe(`${TEST_PROJECT_PATH}/users.ts`);
+    expect(createPrimaryFix(getSourceFile('service.ts'), issue)).toBe(
+      'the read is in another file'
+    );
+    expect(createPrimaryFix(getSourceFile('users.ts'), issue)).toMatchObject({
+      text: '.$primary()',
+    });
+  });
+});
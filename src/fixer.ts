@@ -0,0 +1,179 @@
+import type { Node, Project, SourceFile } from 'ts-morph';
+import { SyntaxKind } from 'ts-morph';
+import { toProjectRelativePath } from './analyzer/fingerprint.js';
+import type { OperationNode } from './analyzer/operation-classifier.js';
+import type { FixResult, Issue, PrismaOperation, SourceLocation, UnfixableIssue } from './types.js';
+import { createUnifiedDiff } from './utils/diff.js';
+
+export interface TextEdit {
+  start: number;
+  end: number;
+  text: string;
+}
+
+/**
+ * Rewrite the read of each issue to go through the primary:
+ * `prisma.user.findMany()` becomes `prisma.$primary().user.findMany()` and
+ * `prisma.$replica().user.findMany()` becomes `prisma.$primary().user.findMany()`.
+ * Only the client expression is edited, so the surrounding formatting stays.
+ */
+export const fixIssues = (
+  project: Project,
+  issues: Issue[],
+  options: { projectPath: string; write: boolean }
+): FixResult => {
+  const editsByFile = new Map<SourceFile, Map<number, TextEdit>>();
+  const fixed: Issue[] = [];
+  const unfixable: UnfixableIssue[] = [];
+
+  for (const issue of issues) {
+    if (!issue.readOperation) {
+      unfixable.push({ issue, reason: 'the issue has no read to send to the primary' });
+      continue;
+    }
+
+    const sourceFile = project.getSourceFile(issue.readOperation.location.file);
+    if (!sourceFile) {
+      unfixable.push({ issue, reason: 'the read could not be found in the source' });
+      continue;
+    }
+
+    const edit = createPrimaryFix(sourceFile, issue);
+    if (typeof edit === 'string') {
+      unfixable.push({ issue, reason: edit });
+      continue;
+    }
+
+    // Several writes can flag the same read; it is only edited once
+    const edits = editsByFile.get(sourceFile) ?? new Map<number, TextEdit>();
+    edits.set(edit.start, edit);
+    editsByFile.set(sourceFile, edits);
+    fixed.push(issue);
+  }
+
+  const diffs: string[] = [];
+  const files: string[] = [];
+  for (const [sourceFile, edits] of editsByFile) {
+    const before = sourceFile.getFullText();
+    const after = applyEdits(before, [...edits.values()]);
+    const path = toProjectRelativePath(options.projectPath, sourceFile.getFilePath());
+
+    files.push(sourceFile.getFilePath());
+    diffs.push(createUnifiedDiff(path, before, after));
+
+    if (options.write) {
+      sourceFile.replaceWithText(after);
+      sourceFile.saveSync();
+    }
+  }
+
+  return { applied: options.write, fixed, unfixable, files, diff: diffs.join('') };
+};
+
+/**
+ * Build the edit that routes the read of an issue to the primary, or
+ * explain why it cannot be done safely
+ */
+export const createPrimaryFix = (sourceFile: SourceFile, issue: Issue): TextEdit | string => {
+  const read = issue.readOperation;
+  if (!read) {
+    return 'the issue has no read to send to the primary';
+  }
+
+  // The position of a read in another file means nothing in this one
+  if (read.location.file !== sourceFile.getFilePath()) {
+    return 'the read is in another file';
+  }
+
+  const node = findOperationNode(sourceFile, read.location, read.method);
+  if (!node) {
+    return 'the read could not be found in the source';
+  }
+  return createPrimaryEdit(read, node);
+};
+
+/**
+ * Find the call of a method that starts at a location. Calls in the client
+ * expression, such as prisma.$replica(), start at the same position.
+ */
+export const findOperationNode = (
+  sourceFile: SourceFile,
+  location: SourceLocation,
+  method: string
+): OperationNode | undefined => {
+  let position: number;
+  try {
+    position = sourceFile.compilerNode.getPositionOfLineAndCharacter(
+      location.line - 1,
+      location.column - 1
+    );
+  } catch {
+    return undefined;
+  }
+
+  let node: Node | undefined = sourceFile.getDescendantAtPos(position);
+  while (node && node.getStart() === position) {
+    const callee = node.isKind(SyntaxKind.CallExpression)
+      ? node.getExpression()
+      : node.isKind(SyntaxKind.TaggedTemplateExpression)
+        ? node.getTag()
+        : undefined;
+    if (callee?.isKind(SyntaxKind.PropertyAccessExpression) && callee.getName() === method) {
+      return node as OperationNode;
+    }
+    node = node.getParent();
+  }
+  return undefined;
+};
+
+const createPrimaryEdit = (read: PrismaOperation, node: OperationNode): TextEdit | string => {
+  if (read.declaredBy) {
+    return `the read is declared by the contract of ${read.declaredBy}; route it to the primary there`;
+  }
+  if (read.usesPrimary) {
+    return 'the read already uses the primary';
+  }
+  // Decided by the classifier, which only counts $transaction calls on a
+  // Prisma client and follows transaction clients into helpers
+  if (read.inTransaction || read.inTransactionCallback) {
+    return 'the read is inside a transaction';
+  }
+
+  const method = node.isKind(SyntaxKind.TaggedTemplateExpression)
+    ? node.getTag()
+    : node.getExpression();
+  if (!method.isKind(SyntaxKind.PropertyAccessExpression)) {
+    return 'the read is not a method call';
+  }
+
+  // Raw queries are called on the client itself: prisma.$queryRaw`...`
+  let client: Node = method.getExpression();
+  if (!method.getName().startsWith('$')) {
+    if (!client.isKind(SyntaxKind.PropertyAccessExpression)) {
+      return 'the model delegate is an alias; call $primary() where it is declared';
+    }
+    client = client.getExpression();
+  }
+
+  // prisma.$replica().user -> prisma.$primary().user
+  if (client.isKind(SyntaxKind.CallExpression)) {
+    const callee = client.getExpression();
+    if (callee.isKind(SyntaxKind.PropertyAccessExpression) && callee.getName() === '$replica') {
+      const name = callee.getNameNode();
+      return { start: name.getStart(), end: name.getEnd(), text: '$primary' };
+    }
+  }
+
+  return { start: client.getEnd(), end: client.getEnd(), text: '.$primary()' };
+};
+
+/**
+ * Apply non-overlapping edits from the end, so earlier offsets stay valid
+ */
+const applyEdits = (text: string, edits: TextEdit[]): string => {
+  let result = text;
+  for (const edit of [...edits].sort((a, b) => b.start - a.start)) {
+    result = result.slice(0, edit.start) + edit.text + result.slice(edit.end);
+  }
+  return result;
+};
@@ -0,0 +1,126 @@
+import { pathToFileURL } from 'node:url';
+import { DiagnosticSeverity } from 'vscode-languageserver';
+import { describe, expect, it } from 'vitest';
+import { analyzeSources } from '../test-utils.js';
+import { createDiagnostics, createHoverText, createPrimaryAction } from './diagnostics.js';
+
+const USERS = `
+  import { prisma } from './client';
+  export const findUsers = (email: string) => prisma.user.findMany({ where: { email } });
+`;
+
+const analyze = (service: string) => {
+  const { project, issues, getSourceFile } = analyzeSources({
+    'users.ts': USERS,
+    'service.ts': service,
+  });
+  const sourceFile = getSourceFile('service.ts');
+  const diagnostics = createDiagnostics(sourceFile, issues, (path) => project.getSourceFile(path));
+  return { sourceFile, issues, diagnostics };
+};
+
+describe('createDiagnostics', () => {
+  it('reports a read once, with every write before it as related information', () => {
+    const { diagnostics } = analyze(`
+      import { prisma } from './client';
+      export async function signUp(email: string) {
+        await prisma.user.create({ data: { email } });
+        await prisma.user.updateMany({ where: { email }, data: {} });
+        return prisma.user.findMany({ where: { email } });
+      }
+    `);
+
+    expect(diagnostics).toHaveLength(1);
+    const [diagnostic] = diagnostics;
+    expect(diagnostic).toMatchObject({
+      severity: DiagnosticSeverity.Error,
+      source: 'prisma-raw',
+      code: 'read-after-write',
+      // From the client to the method name
+      range: { start: { line: 5, character: 15 }, end: { line: 5, character: 35 } },
+    });
+    expect(diagnostic.relatedInformation).toEqual([
+      {
+        location: {
+          uri: pathToFileURL('/project/service.ts').href,
+          range: { start: { line: 3, character: 14 }, end: { line: 3, character: 32 } },
+        },
+        message: 'Write: user.create()',
+      },
+      expect.objectContaining({ message: 'Write: user.updateMany()' }),
+    ]);
+    expect((diagnostic.data as { fingerprints: string[] }).fingerprints).toHaveLength(2);
+  });
+
+  it('reports a read in another file at the line of the call leading to it', () => {
+    const { diagnostics } = analyze(`
+      import { prisma } from './client';
+      import { findUsers } from './users';
+      export async function signUp(email: string) {
+        await prisma.user.create({ data: { email } });
+        return findUsers(email);
+      }
+    `);
+
+    expect(diagnostics.map(({ range }) => range)).toEqual([
+      { start: { line: 5, character: 8 }, end: { line: 5, character: 32 } },
+    ]);
+  });
+});
+
+describe('createPrimaryAction', () => {
+  it('routes the read through $primary()', () => {
+    const { sourceFile, issues, diagnostics } = analyze(`
+      import { prisma } from './client';
+      export async function signUp(email: string) {
+        await prisma.user.create({ data: { email } });
+        return prisma.user.findMany({ where: { email } });
+      }
+    `);
+
+    const action = createPrimaryAction(
+      sourceFile,
+      'file:///project/service.ts',
+      diagnostics[0],
+      issues
+    );
+    expect(action).toMatchObject({ title: 'Use $primary()', isPreferred: true });
+    expect(action?.edit?.changes?.['file:///project/service.ts']).toEqual([
+      {
+        range: { start: { line: 4, character: 21 }, end: { line: 4, character: 21 } },
+        newText: '.$primary()',
+      },
+    ]);
+  });
+
+  it('has no fix for a read in another file', () => {
+    const { sourceFile, issues, diagnostics } = analyze(`
+      import { prisma } from './client';
+      import { findUsers } from './users';
+      export async function signUp(email: string) {
+        await prisma.user.create({ data: { email } });
+        return findUsers(email);
+      }
+    `);
+
+    expect(
+      createPrimaryAction(sourceFile, 'file:///project/service.ts', diagnostics[0], issues)
+    ).toBeNull();
+  });
+});
+
+describe('createHoverText', () => {
+  it('explains the stale read and lists the writes before it', () => {
+    const { issues } = analyze(`
+      import { prisma } from './client';
+      export async function signUp(email: string) {
+        await prisma.user.create({ data: { email } });
+        return prisma.user.findMany({ where: { email } });
+      }
+    `);
+
+    const text = createHoverText(issues, '/project');
+    expect(text).toMatch(/^\*\*Possible stale read of `user\.findMany\(\)`\*\*/);
+    expect(text).toContain('- `user.create()` at service.ts:4: ');
+  });
+});
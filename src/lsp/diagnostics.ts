@@ -0,0 +1,205 @@
+import { relative } from 'node:path';
+import { pathToFileURL } from 'node:url';
+import type { SourceFile } from 'ts-morph';
+import { SyntaxKind } from 'ts-morph';
+import type {
+  CodeAction,
+  Diagnostic,
+  DiagnosticRelatedInformation,
+  Range,
+} from 'vscode-languageserver';
+import { CodeActionKind, DiagnosticSeverity } from 'vscode-languageserver';
+import { createPrimaryFix, findOperationNode } from '../fixer.js';
+import { formatOperation } from '../reporters/utils.js';
+import { getIssueOperation } from '../rules/index.js';
+import type { Issue, PrismaOperation } from '../types.js';
+
+export const DIAGNOSTIC_SOURCE = 'prisma-raw';
+
+export interface DiagnosticData {
+  /** Fingerprints of the issues behind the diagnostic */
+  fingerprints: string[];
+}
+
+/**
+ * Create one diagnostic per rule and flagged operation, with every write
+ * that precedes a read as related information. An operation in a called
+ * function is reported at the call in this file that leads to it.
+ */
+export const createDiagnostics = (
+  sourceFile: SourceFile,
+  issues: Issue[],
+  getSourceFile: (filePath: string) => SourceFile | undefined
+): Diagnostic[] => {
+  const groups = new Map<string, { range: Range; issues: Issue[] }>();
+
+  for (const issue of issues) {
+    const range = getIssueRange(sourceFile, issue);
+    if (!range) {
+      continue;
+    }
+    const key = `${range.start.line}:${range.start.character}:${issue.ruleId}`;
+    const group = groups.get(key) ?? { range, issues: [] };
+    group.issues.push(issue);
+    groups.set(key, group);
+  }
+
+  return [...groups.values()].map(({ range, issues: group }) => {
+    // Errors first, so the message matches the severity
+    const sorted = [...group].sort(
+      (a, b) => Number(a.severity !== 'error') - Number(b.severity !== 'error')
+    );
+    const [first] = sorted;
+    const data: DiagnosticData = { fingerprints: sorted.map((issue) => issue.fingerprint) };
+
+    return {
+      range,
+      severity: first.severity === 'error' ? DiagnosticSeverity.Error : DiagnosticSeverity.Warning,
+      source: DIAGNOSTIC_SOURCE,
+      code: first.ruleId,
+      message: first.message,
+      relatedInformation: sorted.flatMap((issue) =>
+        issue.writeOperation && issue.readOperation
+          ? [createRelatedInformation(issue.writeOperation, getSourceFile)]
+          : []
+      ),
+      data,
+    };
+  });
+};
+
+/**
+ * Quick fix that routes the read of a diagnostic through $primary(), when
+ * that is safe. Every issue of a diagnostic has the same read, so one fix
+ * covers them.
+ */
+export const createPrimaryAction = (
+  sourceFile: SourceFile,
+  uri: string,
+  diagnostic: Diagnostic,
+  issues: Issue[]
+): CodeAction | null => {
+  const [issue] = issues;
+  const edit = issue ? createPrimaryFix(sourceFile, issue) : undefined;
+  if (!edit || typeof edit === 'string') {
+    return null;
+  }
+
+  return {
+    title: 'Use $primary()',
+    kind: CodeActionKind.QuickFix,
+    diagnostics: [diagnostic],
+    isPreferred: true,
+    edit: {
+      changes: {
+        [uri]: [{ range: toRange(sourceFile, edit.start, edit.end), newText: edit.text }],
+      },
+    },
+  };
+};
+
+/**
+ * Markdown explaining the issues of a diagnostic: why its read may be
+ * stale, or what its rule reports
+ */
+export const createHoverText = (issues: Issue[], projectPath: string): string => {
+  const [first] = issues;
+  const read = first.readOperation;
+  if (!read || !first.writeOperation) {
+    return [
+      `**${first.message}**`,
+      '',
+      ...issues.map((issue) => `- ${issue.reason.evidence}`),
+      '',
+      `Rule: \`${first.ruleId}\``,
+    ].join('\n');
+  }
+
+  const writes = issues.flatMap((issue) => {
+    if (!issue.writeOperation) {
+      return [];
+    }
+    const { location } = issue.writeOperation;
+    const file = relative(projectPath, location.file);
+    return [
+      `- \`${formatOperation(issue.writeOperation)}\` at ${file}:${location.line}: ${issue.reason.evidence}`,
+    ];
+  });
+
+  return [
+    `**Possible stale read of \`${formatOperation(read)}\`**`,
+    '',
+    'With read replicas, reads go to a replica by default. Replicas apply writes after a ' +
+      'delay (replication lag), so this read can miss data that was just written by:',
+    '',
+    ...writes,
+    '',
+    'Read from the primary with `$primary()`, or run the write and the read in a `$transaction`.',
+  ].join('\n');
+};
+
+/**
+ * The range of the reported operation in this file, from the client to the
+ * method name, or of the line with the call that leads to it
+ */
+const getIssueRange = (sourceFile: SourceFile, issue: Issue): Range | undefined => {
+  const operation = getIssueOperation(issue);
+  if (operation.location.file === sourceFile.getFilePath()) {
+    return getOperationRange(sourceFile, operation);
+  }
+
+  const frame = [...issue.callChain]
+    .reverse()
+    .find((entry) => entry.file === sourceFile.getFilePath());
+  return frame ? getLineRange(sourceFile, frame.line) : undefined;
+};
+
+const getOperationRange = (sourceFile: SourceFile, operation: PrismaOperation): Range => {
+  const { location, method } = operation;
+  const node = findOperationNode(sourceFile, location, method);
+  if (!node) {
+    const start = { line: location.line - 1, character: location.column - 1 };
+    return { start, end: start };
+  }
+
+  const callee = node.isKind(SyntaxKind.TaggedTemplateExpression)
+    ? node.getTag()
+    : node.getExpression();
+  return toRange(sourceFile, node.getStart(), callee.getEnd());
+};
+
+const getLineRange = (sourceFile: SourceFile, line: number): Range => {
+  const text = sourceFile.getFullText().split('\n')[line - 1] ?? '';
+  return {
+    start: { line: line - 1, character: text.length - text.trimStart().length },
+    end: { line: line - 1, character: text.trimEnd().length },
+  };
+};
+
+/**
+ * Point at the write that precedes a read
+ */
+const createRelatedInformation = (
+  operation: PrismaOperation,
+  getSourceFile: (filePath: string) => SourceFile | undefined
+): DiagnosticRelatedInformation => {
+  const { location } = operation;
+  const sourceFile = getSourceFile(location.file);
+  const start = { line: location.line - 1, character: location.column - 1 };
+
+  return {
+    location: {
+      uri: pathToFileURL(location.file).href,
+      range: sourceFile ? getOperationRange(sourceFile, operation) : { start, end: start },
+    },
+    message: `Write: ${formatOperation(operation)}`,
+  };
+};
+
+/**
+ * Convert file offsets to an LSP range. Both count UTF-16 code units.
+ */
+export const toRange = (sourceFile: SourceFile, start: number, end: number): Range => ({
+  start: sourceFile.compilerNode.getLineAndCharacterOfPosition(start),
+  end: sourceFile.compilerNode.getLineAndCharacterOfPosition(end),
+});
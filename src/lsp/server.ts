@@ -0,0 +1,218 @@
+import { resolve } from 'node:path';
+import { fileURLToPath } from 'node:url';
+import type { CodeAction, Diagnostic, Position, Range } from 'vscode-languageserver/node.js';
+import {
+  CodeActionKind,
+  createConnection,
+  MarkupKind,
+  ProposedFeatures,
+  TextDocuments,
+  TextDocumentSyncKind,
+} from 'vscode-languageserver/node.js';
+import { TextDocument } from 'vscode-languageserver-textdocument';
+import { loadConfig, loadRuleModules } from '../config.js';
+import { BUILT_IN_RULES, resolveRules } from '../rules/index.js';
+import type { Issue } from '../types.js';
+import { ANALYZER_VERSION } from '../version.js';
+import type { DiagnosticData } from './diagnostics.js';
+import { createDiagnostics, createHoverText, createPrimaryAction } from './diagnostics.js';
+import type { Workspace } from './workspace.js';
+import { createWorkspace } from './workspace.js';
+
+/** Wait for typing to pause before analyzing */
+const ANALYSIS_DELAY_MS = 200;
+
+export interface LanguageServerOptions {
+  /** Defaults to the first workspace folder of the client */
+  projectPath?: string;
+  configPath?: string;
+}
+
+interface AnalyzedDocument {
+  /** Version of the document the diagnostics were computed for */
+  version: number;
+  diagnostics: Diagnostic[];
+  issues: Map<string, Issue>;
+}
+
+/**
+ * Run a language server over stdio that publishes read-after-write
+ * diagnostics for open documents, with a quick fix and hover text
+ */
+export const startLanguageServer = (options: LanguageServerOptions): void => {
+  const connection = createConnection(ProposedFeatures.all, process.stdin, process.stdout);
+  const documents = new TextDocuments(TextDocument);
+  const analyzed = new Map<string, AnalyzedDocument>();
+  const changed = new Set<string>();
+  let workspace: Workspace | null = null;
+  let timer: NodeJS.Timeout | undefined;
+
+  const toFilePath = (uri: string): string | null => {
+    return uri.startsWith('file:') ? fileURLToPath(uri) : null;
+  };
+
+  const analyzeOpenDocuments = (): void => {
+    if (!workspace) {
+      return;
+    }
+
+    // Editor contents go into the project just before they are analyzed,
+    // so bursts of changes are parsed once
+    for (const uri of changed) {
+      const document = documents.get(uri);
+      const filePath = toFilePath(uri);
+      if (document && filePath) {
+        workspace.updateFile(filePath, document.getText());
+      }
+    }
+    changed.clear();
+
+    // A change can affect the issues of every file that calls into it
+    for (const document of documents.all()) {
+      const filePath = toFilePath(document.uri);
+      const sourceFile = filePath ? workspace.getSourceFile(filePath) : undefined;
+      if (!filePath || !sourceFile) {
+        continue;
+      }
+
+      const issues = workspace.analyzeFile(filePath);
+      const diagnostics = createDiagnostics(sourceFile, issues, workspace.getSourceFile);
+      analyzed.set(document.uri, {
+        version: document.version,
+        diagnostics,
+        issues: new Map(issues.map((issue) => [issue.fingerprint, issue])),
+      });
+      void connection.sendDiagnostics({
+        uri: document.uri,
+        version: document.version,
+        diagnostics,
+      });
+    }
+  };
+
+  const scheduleAnalysis = (): void => {
+    clearTimeout(timer);
+    timer = setTimeout(() => {
+      try {
+        analyzeOpenDocuments();
+      } catch (error) {
+        const message = error instanceof Error ? error.message : String(error);
+        connection.console.error(`Analysis failed: ${message}`);
+      }
+    }, ANALYSIS_DELAY_MS);
+  };
+
+  /**
+   * The stored diagnostics of a document, if they still match its text
+   */
+  const getCurrentDiagnostics = (uri: string): AnalyzedDocument | undefined => {
+    const state = analyzed.get(uri);
+    return state && documents.get(uri)?.version === state.version ? state : undefined;
+  };
+
+  const getIssues = (state: AnalyzedDocument, diagnostic: Diagnostic): Issue[] => {
+    const { fingerprints } = diagnostic.data as DiagnosticData;
+    return fingerprints.flatMap((fingerprint) => state.issues.get(fingerprint) ?? []);
+  };
+
+  connection.onInitialize(async (params) => {
+    const root =
+      options.projectPath ??
+      (params.workspaceFolders?.[0]?.uri ?? params.rootUri ?? undefined);
+    const projectPath = resolve(
+      root && root.startsWith('file:') ? fileURLToPath(root) : (root ?? process.cwd())
+    );
+
+    const loadedConfig = await loadConfig(projectPath, options.configPath);
+    const config = loadedConfig?.config ?? {};
+    const rules = [...BUILT_IN_RULES, ...(await loadRuleModules(loadedConfig))];
+    // Fail the initialization on unknown rule IDs rather than on every analysis
+    resolveRules(rules, config.rules);
+    workspace = createWorkspace(projectPath, config, rules);
+
+    return {
+      capabilities: {
+        textDocumentSync: TextDocumentSyncKind.Incremental,
+        codeActionProvider: { codeActionKinds: [CodeActionKind.QuickFix] },
+        hoverProvider: true,
+      },
+      serverInfo: { name: 'prisma-raw-analyzer', version: ANALYZER_VERSION },
+    };
+  });
+
+  documents.onDidChangeContent(({ document }) => {
+    changed.add(document.uri);
+    scheduleAnalysis();
+  });
+
+  documents.onDidClose(({ document }) => {
+    const filePath = toFilePath(document.uri);
+    if (workspace && filePath) {
+      workspace.closeFile(filePath);
+    }
+    changed.delete(document.uri);
+    analyzed.delete(document.uri);
+    void connection.sendDiagnostics({ uri: document.uri, diagnostics: [] });
+    scheduleAnalysis();
+  });
+
+  connection.onCodeAction((params) => {
+    const state = getCurrentDiagnostics(params.textDocument.uri);
+    const filePath = toFilePath(params.textDocument.uri);
+    const sourceFile = filePath ? workspace?.getSourceFile(filePath) : undefined;
+    if (!state || !sourceFile) {
+      return [];
+    }
+
+    const actions: CodeAction[] = [];
+    for (const diagnostic of state.diagnostics) {
+      if (!rangesOverlap(diagnostic.range, params.range)) {
+        continue;
+      }
+
+      const action = createPrimaryAction(
+        sourceFile,
+        params.textDocument.uri,
+        diagnostic,
+        getIssues(state, diagnostic)
+      );
+      if (action) {
+        actions.push(action);
+      }
+    }
+    return actions;
+  });
+
+  connection.onHover((params) => {
+    const state = getCurrentDiagnostics(params.textDocument.uri);
+    const diagnostic = state?.diagnostics.find((candidate) =>
+      containsPosition(candidate.range, params.position)
+    );
+    if (!state || !diagnostic || !workspace) {
+      return null;
+    }
+
+    return {
+      contents: {
+        kind: MarkupKind.Markdown,
+        value: createHoverText(getIssues(state, diagnostic), workspace.projectPath),
+      },
+      range: diagnostic.range,
+    };
+  });
+
+  documents.listen(connection);
+  connection.listen();
+};
+
+const comparePositions = (a: Position, b: Position): number => {
+  return a.line - b.line || a.character - b.character;
+};
+
+const containsPosition = (range: Range, position: Position): boolean => {
+  return comparePositions(range.start, position) <= 0 && comparePositions(position, range.end) <= 0;
+};
+
+const rangesOverlap = (a: Range, b: Range): boolean => {
+  return comparePositions(a.start, b.end) <= 0 && comparePositions(b.start, a.end) <= 0;
+};
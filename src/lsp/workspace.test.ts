@@ -0,0 +1,62 @@
+import { mkdtempSync, realpathSync, rmSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { BUILT_IN_RULES } from '../rules/index.js';
+import { CLIENT_SOURCE } from '../test-utils.js';
+import { createWorkspace } from './workspace.js';
+
+const SERVICE = `
+  import { prisma } from './client';
+  export async function signUp(email: string) {
+    await prisma.user.create({ data: { email } });
+    return prisma.user.findMany({ where: { email } });
+  }
+`;
+
+describe('createWorkspace', () => {
+  let root: string;
+
+  beforeEach(() => {
+    root = realpathSync(mkdtempSync(join(tmpdir(), 'prisma-raw-lsp-')));
+    writeFileSync(join(root, 'tsconfig.json'), JSON.stringify({ include: ['*.ts'] }));
+    writeFileSync(join(root, 'client.ts'), CLIENT_SOURCE);
+    writeFileSync(join(root, 'service.ts'), SERVICE);
+  });
+
+  afterEach(() => {
+    rmSync(root, { recursive: true, force: true });
+  });
+
+  it('analyzes the unsaved text of an editor until it is closed', () => {
+    const workspace = createWorkspace(root, {}, BUILT_IN_RULES);
+    const servicePath = join(root, 'service.ts');
+    expect(workspace.analyzeFile(servicePath)).toHaveLength(1);
+
+    workspace.updateFile(
+      servicePath,
+      SERVICE.replace('prisma.user.findMany', 'prisma.$primary().user.findMany')
+    );
+    expect(workspace.analyzeFile(servicePath)).toEqual([]);
+
+    workspace.closeFile(servicePath);
+    expect(workspace.analyzeFile(servicePath)).toHaveLength(1);
+  });
+
+  it('analyzes files that only exist in an editor', () => {
+    const workspace = createWorkspace(root, {}, BUILT_IN_RULES);
+    const draftPath = join(root, 'draft.ts');
+    workspace.updateFile(draftPath, SERVICE);
+    expect(workspace.analyzeFile(draftPath)).toHaveLength(1);
+
+    workspace.closeFile(draftPath);
+    expect(workspace.getSourceFile(draftPath)).toBeUndefined();
+    expect(workspace.analyzeFile(draftPath)).toEqual([]);
+  });
+
+  it('leaves out suppressed issues', () => {
+    writeFileSync(join(root, 'service.ts'), `// prisma-raw-ignore-file\n${SERVICE}`);
+    const workspace = createWorkspace(root, {}, BUILT_IN_RULES);
+    expect(workspace.analyzeFile(join(root, 'service.ts'))).toEqual([]);
+  });
+});
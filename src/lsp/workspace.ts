@@ -0,0 +1,101 @@
+import type { SourceFile } from 'ts-morph';
+import { createDetectionContext } from '../analyzer/detection-context.js';
+import type { DetectionContext } from '../analyzer/issue-detector.js';
+import { detectIssuesInFile } from '../analyzer/issue-detector.js';
+import { detectPrismaClients } from '../analyzer/prisma-detector.js';
+import { loadSchema } from '../analyzer/schema-parser.js';
+import { applySuppressions, collectSuppressions } from '../analyzer/suppressions.js';
+import { findTsConfigs, loadProject } from '../projects.js';
+import type { Rule } from '../rules/index.js';
+import type { AnalyzerConfig, Issue } from '../types.js';
+
+export interface Workspace {
+  projectPath: string;
+  /** Replace a file with the text of an open editor, adding it if needed */
+  updateFile: (filePath: string, text: string) => void;
+  /** Go back to the file on disk once its editor is closed */
+  closeFile: (filePath: string) => void;
+  getSourceFile: (filePath: string) => SourceFile | undefined;
+  /** Issues in the functions of a file that are not suppressed */
+  analyzeFile: (filePath: string) => Issue[];
+}
+
+/**
+ * Keep a project in memory for an editor session. Files are updated in
+ * place, and the detection context is rebuilt lazily after a change since
+ * call graph summaries and client instances refer to the old nodes.
+ */
+export const createWorkspace = (
+  projectPath: string,
+  config: AnalyzerConfig,
+  rules: Rule[]
+): Workspace => {
+  const { project } = loadProject(projectPath, findTsConfigs(projectPath));
+
+  let detectionContext: DetectionContext | null | undefined;
+
+  const getDetectionContext = (): DetectionContext | null => {
+    if (detectionContext === undefined) {
+      const prismaInstances = detectPrismaClients(project.getSourceFiles());
+      detectionContext =
+        prismaInstances.length > 0
+          ? createDetectionContext({
+              projectPath,
+              prismaInstances,
+              schema: loadSchema(projectPath),
+              config,
+              maxDepth: config.maxDepth,
+              rules,
+            })
+          : null;
+    }
+    return detectionContext;
+  };
+
+  const updateFile = (filePath: string, text: string): void => {
+    const sourceFile = project.getSourceFile(filePath);
+    if (sourceFile?.getFullText() === text) {
+      return;
+    }
+
+    if (sourceFile) {
+      sourceFile.replaceWithText(text);
+    } else {
+      project.createSourceFile(filePath, text);
+    }
+    detectionContext = undefined;
+  };
+
+  const closeFile = (filePath: string): void => {
+    const sourceFile = project.getSourceFile(filePath);
+    if (!sourceFile) {
+      return;
+    }
+
+    // Files that only existed in the editor are dropped from the project
+    sourceFile.refreshFromFileSystemSync();
+    detectionContext = undefined;
+  };
+
+  const analyzeFile = (filePath: string): Issue[] => {
+    const sourceFile = project.getSourceFile(filePath);
+    const context = getDetectionContext();
+    if (!sourceFile || !context) {
+      return [];
+    }
+
+    const { issues } = applySuppressions(
+      detectIssuesInFile(sourceFile, context),
+      collectSuppressions(sourceFile)
+    );
+    return issues;
+  };
+
+  return {
+    projectPath,
+    updateFile,
+    closeFile,
+    getSourceFile: (filePath) => project.getSourceFile(filePath),
+    analyzeFile,
+  };
+};
@@ -0,0 +1,131 @@
+import { mkdirSync, mkdtempSync, rmSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { basename, join } from 'node:path';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { analyze } from './index.js';
+import { CLIENT_SOURCE, SCHEMA_SOURCE } from './test-utils.js';
+
+/** A read pinned to the primary with no write before it, and its callers */
+const createReads = (prefix: string, callCounts: number[]): string => `
+  import { prisma } from './client';
+  ${callCounts
+    .map(
+      (count, i) => `
+        export async function ${prefix}Read${i}() {
+          return prisma.$primary().user.findMany();
+        }
+        export async function ${prefix}Caller${i}() {
+          ${`await ${prefix}Read${i}();`.repeat(count)}
+        }
+      `
+    )
+    .join('\n')}
+`;
+
+describe('analyzeProject', () => {
+  let projectPath: string;
+
+  beforeEach(() => {
+    projectPath = mkdtempSync(join(tmpdir(), 'prisma-raw-pipeline-'));
+    mkdirSync(join(projectPath, 'src'));
+    const files = {
+      'tsconfig.json': JSON.stringify({ compilerOptions: { strict: true }, include: ['src'] }),
+      'prisma-raw.config.json': JSON.stringify({ rules: { 'unnecessary-primary': 'warning' } }),
+      'src/client.ts': CLIENT_SOURCE,
+      'src/a.ts': createReads('a', [1, 3]),
+      'src/b.ts': createReads('b', [5, 2]),
+    };
+    for (const [name, text] of Object.entries(files)) {
+      writeFileSync(join(projectPath, name), text);
+    }
+  });
+
+  afterEach(() => {
+    rmSync(projectPath, { recursive: true, force: true });
+  });
+
+  it('ranks the issues of each file without moving them to another file', async () => {
+    const { issues } = await analyze({ projectPath, cache: false });
+    expect(issues.map((issue) => [basename(issue.callChain[0].file), issue.priority])).toEqual([
+      ['a.ts', 3],
+      ['a.ts', 1],
+      ['b.ts', 5],
+      ['b.ts', 2],
+    ]);
+  });
+
+  describe('with writes shared by several reads', () => {
+    const USERS = `
+      import { prisma } from './client';
+      export async function createUser(email: string) {
+        await prisma.user.create({ data: { email } });
+      }
+    `;
+
+    const SERVICE = `
+      import { prisma } from './client';
+      import { createUser } from './users';
+      export async function signUp(email: string) {
+        await createUser(email);
+        await prisma.user.findFirst({ where: { email } });
+        return prisma.post.findMany();
+      }
+      export async function invite(email: string) {
+        await createUser(email);
+        await prisma.$primary().user.findFirst({ where: { email } });
+        return prisma.$replica().user.count();
+      }
+      export async function archive(id: number) {
+        await prisma.post.deleteMany({ where: { authorId: id } });
+        return prisma.post.findMany({ where: { authorId: id } });
+      }
+    `;
+
+    const write = (files: Record<string, string>): void => {
+      for (const [name, text] of Object.entries(files)) {
+        writeFileSync(join(projectPath, name), text);
+      }
+    };
+
+    beforeEach(() => {
+      mkdirSync(join(projectPath, 'prisma'));
+      write({
+        'prisma/schema.prisma': SCHEMA_SOURCE,
+        'prisma-raw.config.json': '{}',
+        'src/users.ts': USERS,
+        'src/service.ts': SERVICE,
+      });
+    });
+
+    it('groups the issues of each write, across the functions that reach it', async () => {
+      const { issues, groups } = await analyze({ projectPath, cache: false });
+      expect(
+        groups.map((group) => [
+          `${group.write.model}.${group.write.method}`,
+          group.reads.map((read) => `${read.model}.${read.method}`),
+          group.severity,
+        ])
+      ).toEqual([
+        ['user.create', ['user.findFirst', 'user.count'], 'error'],
+        ['post.deleteMany', ['post.findMany'], 'error'],
+      ]);
+      expect(groups.flatMap((group) => group.issues)).toEqual(issues.map((issue) => issue.id));
+    });
+
+    it('counts issues per file and per model, most first', async () => {
+      const { summary } = await analyze({ projectPath, cache: false });
+      expect(summary.byFile).toEqual([{ name: 'src/service.ts', issues: 3 }]);
+      expect(summary.byModel).toEqual([
+        { name: 'user', issues: 2 },
+        { name: 'post', issues: 1 },
+      ]);
+    });
+
+    it('keeps issue IDs when code moves', async () => {
+      const before = await analyze({ projectPath, cache: false });
+      write({ 'src/service.ts': `// Moved down\n\n${SERVICE}` });
+      const after = await analyze({ projectPath, cache: false });
+      expect(after.issues.map((issue) => issue.id)).toEqual(before.issues.map((issue) => issue.id));
+    });
+  });
+});
@@ -0,0 +1,429 @@
+import type { SourceFile } from 'ts-morph';
+import type {
+  AnalyzerConfig,
+  AnalyzerOptions,
+  AnalysisResult,
+  BaselineComparison,
+  BaselineEntry,
+  FixResult,
+  Issue,
+  IssueCount,
+  IssueGroup,
+  PackageSummary,
+} from './types.js';
+import { logger } from './utils/logger.js';
+import { pathExists, isDirectory } from './utils/file-utils.js';
+import type { CallGraph } from './analyzer/call-graph.js';
+import { checkContracts } from './analyzer/contracts.js';
+import { toProjectRelativePath } from './analyzer/fingerprint.js';
+import { detectPrismaClients } from './analyzer/prisma-detector.js';
+import { detectIssuesInFile } from './analyzer/issue-detector.js';
+import { createDetectionContext } from './analyzer/detection-context.js';
+import { loadSchema } from './analyzer/schema-parser.js';
+import { applySuppressions, collectSuppressions } from './analyzer/suppressions.js';
+import { compareWithBaseline, readBaseline } from './baseline.js';
+import { openAnalysisCache } from './cache.js';
+import { isIssueInChanges, readChangedLines } from './changes.js';
+import { applyConfig, loadConfig, loadRuleModules } from './config.js';
+import { fixIssues } from './fixer.js';
+import type { LoadedProject, ProjectPackage } from './projects.js';
+import { filterSourceFiles, findTsConfigs, loadProject } from './projects.js';
+import type { Rule } from './rules/index.js';
+import { BUILT_IN_RULES, describeRule, getIssueOperation, resolveRules } from './rules/index.js';
+
+export interface AnalysisSetup {
+  /** Explicit options merged with the config */
+  options: AnalyzerOptions;
+  config: AnalyzerConfig;
+  /** The config file that was loaded, if any */
+  configPath: string | null;
+  baselineEntries: BaselineEntry[] | null;
+  /** Built-in rules, rules passed in the options and rules of the config's rule modules */
+  rules: Rule[];
+}
+
+/**
+ * Validate the options and load the config, rules and baseline they point to
+ */
+export const prepareAnalysis = async (explicitOptions: AnalyzerOptions): Promise<AnalysisSetup> => {
+  // Validate project path
+  if (!pathExists(explicitOptions.projectPath)) {
+    throw new Error(`Project path does not exist: ${explicitOptions.projectPath}`);
+  }
+
+  if (!isDirectory(explicitOptions.projectPath)) {
+    throw new Error(`Project path is not a directory: ${explicitOptions.projectPath}`);
+  }
+
+  // Load the project config; explicit options take precedence over it
+  const loadedConfig = await loadConfig(explicitOptions.projectPath, explicitOptions.configPath);
+  const config = loadedConfig?.config ?? {};
+  if (loadedConfig) {
+    logger.info(`Loaded config from ${loadedConfig.path}`);
+  }
+  const options = applyConfig(explicitOptions, config);
+
+  // Check rule IDs up front so a typo fails before the analysis runs
+  const rules = [
+    ...BUILT_IN_RULES,
+    ...(options.rules ?? []),
+    ...(await loadRuleModules(loadedConfig)),
+  ];
+  resolveRules(rules, config.rules);
+
+  // Read the baseline up front so a bad path fails before the analysis runs
+  const baselineEntries = options.baselinePath ? readBaseline(options.baselinePath) : null;
+
+  return { options, config, configPath: loadedConfig?.path ?? null, baselineEntries, rules };
+};
+
+/**
+ * Load the TypeScript project to analyze, with every tsconfig it is made of
+ */
+export const createProject = (options: AnalyzerOptions): LoadedProject => {
+  logger.info('Initializing TypeScript project...');
+
+  const tsconfigPaths = findTsConfigs(options.projectPath, options.tsconfigPaths);
+  if (tsconfigPaths.length > 1) {
+    logger.info(`Using ${tsconfigPaths.length} TypeScript configs`);
+  }
+  return loadProject(options.projectPath, tsconfigPaths);
+};
+
+/**
+ * Analyze a loaded project. Watch mode runs it again on the same project
+ * after refreshing the files that changed.
+ */
+export const analyzeProject = (loaded: LoadedProject, setup: AnalysisSetup): AnalysisResult => {
+  const { project } = loaded;
+  const { options, config, baselineEntries, rules } = setup;
+
+  // Read the changes first, so a bad ref fails before the analysis runs
+  const changes = options.changedSince
+    ? readChangedLines(options.projectPath, options.changedSince)
+    : null;
+
+  // Every file is parsed so calls and clients resolve, but only the files
+  // matching the globs are analyzed
+  const projectFiles = project.getSourceFiles();
+  const sourceFiles = filterSourceFiles(
+    projectFiles,
+    options.projectPath,
+    options.includePatterns,
+    options.excludePatterns
+  );
+  logger.info(`Found ${sourceFiles.length} source files`);
+
+  // Step 1: Detect PrismaClient instances
+  logger.info('Detecting PrismaClient instances...');
+  const prismaInstances = detectPrismaClients(projectFiles);
+  logger.info(`Found ${prismaInstances.length} PrismaClient instance(s)`);
+
+  if (prismaInstances.length === 0) {
+    logger.warning('No PrismaClient instances found. Analysis complete.');
+    return {
+      summary: {
+        totalIssues: 0,
+        suppressedIssues: 0,
+        filesAnalyzed: sourceFiles.length,
+        executionTime: '0s',
+        byFile: [],
+        byModel: [],
+      },
+      rules: resolveRules(rules, config.rules).map(describeRule),
+      issues: [],
+      groups: [],
+      suppressed: [],
+      unusedSuppressions: [],
+      contractWarnings: [],
+      baseline:
+        options.baselinePath && baselineEntries
+          ? { path: options.baselinePath, known: [], fixed: baselineEntries }
+          : undefined,
+    };
+  }
+
+  // Check if any instance has read replica extension
+  const hasReadReplica = prismaInstances.some((instance) => instance.hasReadReplicaExtension);
+  if (!hasReadReplica) {
+    logger.warning('No read replica extension detected. Analysis may not be applicable.');
+  }
+
+  // Step 2: Load the Prisma schema to resolve relations between models
+  const schema = loadSchema(options.projectPath);
+  if (schema) {
+    logger.info(`Loaded Prisma schema from ${schema.path} (${schema.models.size} models)`);
+  } else {
+    logger.warning('No Prisma schema found. Operations on different models will be reported as warnings.');
+  }
+
+  // Files whose code, imports and importers did not change keep their
+  // issues and function summaries. Rules that look at callers also depend
+  // on the files calling into a file, which the call graph knows.
+  const activeRules = resolveRules(rules, config.rules);
+  const usesCallers = activeRules.some(({ rule }) => rule.usesCallers);
+  const cache =
+    options.cache === false
+      ? null
+      : openAnalysisCache(
+          options.projectPath,
+          sourceFiles,
+          {
+            config,
+            maxDepth: options.maxDepth,
+            schema,
+            // A rule's code is its part of the key
+            rules: activeRules.map(({ rule, severity }) => [
+              rule.id,
+              severity,
+              rule.check.toString(),
+            ]),
+          },
+          {
+            projectFiles,
+            getCallerFiles: usesCallers
+              ? (sourceFile) => findCallerFiles(detectionContext.callGraph, sourceFile)
+              : undefined,
+          }
+        );
+
+  // Step 3: Build the call graph so operations in called functions are visible
+  const detectionContext = createDetectionContext({
+    projectPath: options.projectPath,
+    prismaInstances,
+    schema,
+    config,
+    maxDepth: options.maxDepth,
+    rules,
+    summaryStore: cache?.summaries,
+  });
+
+  // Step 4: Run the rules on each file
+  const ruleIds = detectionContext.rules.map(({ rule }) => rule.id);
+  logger.info(`Analyzing files with ${ruleIds.length} rule(s): ${ruleIds.join(', ')}`);
+  const allIssues: Issue[] = [];
+
+  for (const sourceFile of sourceFiles) {
+    const cached = cache?.get(sourceFile);
+    if (cached) {
+      allIssues.push(...cached);
+      continue;
+    }
+
+    const issues = detectIssuesInFile(sourceFile, detectionContext);
+    cache?.set(sourceFile, issues);
+    allIssues.push(...issues);
+  }
+
+  if (cache) {
+    const { hits, misses } = cache.getStats();
+    logger.info(`Cache: ${hits} file(s) reused, ${misses} analyzed`);
+    try {
+      cache.save();
+    } catch (error) {
+      const reason = error instanceof Error ? error.message : String(error);
+      logger.warning(`Could not write the cache: ${reason}`);
+    }
+  }
+
+  // Contracts are checked on every run, from the cached summaries
+  const contractWarnings = sourceFiles.flatMap((sourceFile) =>
+    checkContracts(sourceFile, detectionContext.callGraph, schema)
+  );
+  if (contractWarnings.length > 0) {
+    logger.info(`${contractWarnings.length} contract warning(s)`);
+  }
+
+  // Step 5: Apply suppression comments
+  const { issues, suppressed, unused } = applySuppressions(
+    rankIssues(allIssues),
+    sourceFiles.flatMap(collectSuppressions)
+  );
+
+  if (suppressed.length > 0) {
+    logger.info(`${suppressed.length} issue(s) suppressed by comments`);
+  }
+
+  // Step 6: Only report issues that are not in the baseline
+  let reportedIssues = issues;
+  let baseline: BaselineComparison | undefined;
+  if (options.baselinePath && baselineEntries) {
+    const { newIssues, known, fixed } = compareWithBaseline(issues, baselineEntries);
+    reportedIssues = newIssues;
+    baseline = { path: options.baselinePath, known, fixed };
+    logger.info(`${known.length} known issue(s) from the baseline`);
+    if (fixed.length > 0) {
+      logger.info(`${fixed.length} baseline entries are fixed and can be removed`);
+    }
+  }
+
+  // Step 7: Only report issues that the changes since a git ref touch
+  let scope: AnalysisResult['summary']['scope'];
+  if (options.changedSince && changes) {
+    const totalIssues = reportedIssues.length;
+    reportedIssues = reportedIssues.filter((issue) => isIssueInChanges(issue, changes));
+    scope = { changedSince: options.changedSince, changedFiles: changes.size, totalIssues };
+    logger.info(
+      `${reportedIssues.length} of ${totalIssues} issue(s) touch the ${changes.size} file(s) changed since ${options.changedSince}`
+    );
+  }
+
+  logger.info(`Analysis complete. Found ${reportedIssues.length} issue(s)`);
+
+  // Step 8: Rewrite flagged reads to use $primary()
+  let fixes: FixResult | undefined;
+  if (options.fix) {
+    fixes = fixIssues(project, reportedIssues, {
+      projectPath: options.projectPath,
+      write: options.fix === 'write',
+    });
+    const verb = fixes.applied ? 'Fixed' : 'Would fix';
+    logger.info(`${verb} ${fixes.fixed.length} issue(s) in ${fixes.files.length} file(s)`);
+  }
+
+  const result: AnalysisResult = {
+    summary: {
+      totalIssues: reportedIssues.length,
+      suppressedIssues: suppressed.length,
+      filesAnalyzed: sourceFiles.length,
+      executionTime: '0s', // Will be set by CLI
+      cache: cache?.getStats(),
+      scope,
+      packages: summarizePackages(loaded, sourceFiles, reportedIssues, options.projectPath),
+      byFile: countIssues(reportedIssues, (issue) =>
+        toProjectRelativePath(options.projectPath, issue.callChain[0].file)
+      ),
+      byModel: countIssues(reportedIssues, (issue) => getIssueOperation(issue).model),
+    },
+    rules: detectionContext.rules.map(describeRule),
+    issues: reportedIssues,
+    groups: groupByWrite(reportedIssues),
+    suppressed,
+    unusedSuppressions: unused,
+    contractWarnings,
+    baseline,
+    fixes,
+  };
+
+  return result;
+};
+
+/**
+ * Find the files with calls to the functions of a file
+ */
+const findCallerFiles = (callGraph: CallGraph, sourceFile: SourceFile): SourceFile[] => {
+  const callers = callGraph
+    .getFunctionsInFile(sourceFile)
+    .flatMap((summary) => callGraph.getCallers(summary))
+    .map(({ caller }) => caller.node.getSourceFile());
+  return [...new Set(callers)];
+};
+
+/**
+ * Order the issues of rules that rank them, highest priority first, within
+ * each rule's issues of a file. They only swap positions with each other, so
+ * issues of other rules and files do not move.
+ */
+const rankIssues = (issues: Issue[]): Issue[] => {
+  const getGroup = (issue: Issue): string => `${issue.ruleId}\0${issue.callChain[0].file}`;
+  const groups = new Map<string, Issue[]>();
+  for (const issue of issues) {
+    if (issue.priority !== undefined) {
+      const group = getGroup(issue);
+      groups.set(group, [...(groups.get(group) ?? []), issue]);
+    }
+  }
+
+  for (const ranked of groups.values()) {
+    ranked.sort((a, b) => b.priority! - a.priority!);
+  }
+  return issues.map((issue) =>
+    issue.priority === undefined ? issue : groups.get(getGroup(issue))!.shift()!
+  );
+};
+
+/**
+ * Count issues by a key, most first
+ */
+const countIssues = (issues: Issue[], getKey: (issue: Issue) => string): IssueCount[] => {
+  const counts = new Map<string, number>();
+  for (const issue of issues) {
+    const key = getKey(issue);
+    counts.set(key, (counts.get(key) ?? 0) + 1);
+  }
+  return [...counts]
+    .map(([name, count]) => ({ name, issues: count }))
+    .sort((a, b) => b.issues - a.issues);
+};
+
+/**
+ * Gather the issues of each write, so one write followed by several reads
+ * is listed once. Writes are told apart by location: a write in a helper
+ * groups the reads of every caller.
+ */
+const groupByWrite = (issues: Issue[]): IssueGroup[] => {
+  const groups = new Map<string, IssueGroup>();
+  for (const issue of issues) {
+    const write = issue.writeOperation;
+    if (!write) {
+      continue;
+    }
+
+    const { file, line, column } = write.location;
+    const key = `${file}:${line}:${column}`;
+    const group = groups.get(key) ?? { write, reads: [], issues: [], severity: 'warning' };
+    if (issue.readOperation) {
+      group.reads.push(issue.readOperation);
+    }
+    group.issues.push(issue.id);
+    if (issue.severity === 'error') {
+      group.severity = 'error';
+    }
+    groups.set(key, group);
+  }
+  return [...groups.values()];
+};
+
+/**
+ * Files and issues per package, when the project has several. An issue
+ * belongs to the package of the function it is reported in.
+ */
+const summarizePackages = (
+  loaded: LoadedProject,
+  sourceFiles: SourceFile[],
+  issues: Issue[],
+  projectPath: string
+): PackageSummary[] | undefined => {
+  if (loaded.packages.length < 2) {
+    return undefined;
+  }
+
+  const summaries = new Map<ProjectPackage, PackageSummary>(
+    loaded.packages.map((projectPackage) => [
+      projectPackage,
+      {
+        name: projectPackage.name,
+        tsconfig: toProjectRelativePath(projectPath, projectPackage.tsconfigPath),
+        filesAnalyzed: 0,
+        totalIssues: 0,
+      },
+    ])
+  );
+
+  for (const sourceFile of sourceFiles) {
+    const projectPackage = loaded.packageByFile.get(sourceFile.getFilePath());
+    const summary = projectPackage && summaries.get(projectPackage);
+    if (summary) {
+      summary.filesAnalyzed++;
+    }
+  }
+  for (const issue of issues) {
+    const projectPackage = loaded.packageByFile.get(issue.callChain[0].file);
+    const summary = projectPackage && summaries.get(projectPackage);
+    if (summary) {
+      summary.totalIssues++;
+    }
+  }
+
+  return [...summaries.values()];
+};
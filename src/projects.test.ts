@@ -0,0 +1,71 @@
+import { relative } from 'node:path';
+import { fileURLToPath } from 'node:url';
+import { describe, expect, it } from 'vitest';
+import { filterSourceFiles, findTsConfigs, loadProject } from './projects.js';
+
+const MONOREPO = fileURLToPath(new URL('../tests/fixtures/monorepo', import.meta.url));
+
+const toRelative = (path: string): string => relative(MONOREPO, path).split('\\').join('/');
+
+describe('findTsConfigs', () => {
+  it('finds the tsconfig of every workspace package', () => {
+    expect(findTsConfigs(MONOREPO).map(toRelative).sort()).toEqual([
+      'packages/api/tsconfig.json',
+      'packages/db/tsconfig.json',
+      'packages/worker/tsconfig.build.json',
+    ]);
+  });
+
+  it('fails on an explicit tsconfig that does not exist', () => {
+    expect(() => findTsConfigs(MONOREPO, [`${MONOREPO}/missing.json`])).toThrow(
+      'TypeScript config does not exist'
+    );
+  });
+});
+
+describe('loadProject', () => {
+  it('assigns each file to the package of its tsconfig', () => {
+    const loaded = loadProject(MONOREPO, findTsConfigs(MONOREPO));
+    const packages = Object.fromEntries(
+      [...loaded.packageByFile].map(([file, projectPackage]) => [
+        toRelative(file),
+        projectPackage.name,
+      ])
+    );
+    expect(packages).toMatchObject({
+      'packages/api/src/signup.ts': '@fixture/api',
+      'packages/db/src/users.ts': '@fixture/db',
+      'packages/worker/src/cleanup.ts': '@fixture/worker',
+    });
+  });
+
+  it('resolves imports with the paths of the package they are in', () => {
+    // Only the worker's tsconfig maps @db/* to the db package
+    const { project } = loadProject(MONOREPO, findTsConfigs(MONOREPO));
+    const cleanUp = project.getSourceFileOrThrow(`${MONOREPO}/packages/worker/src/cleanup.ts`);
+    const client = cleanUp.getImportDeclarations()[0].getModuleSpecifierSourceFile();
+    expect(client && toRelative(client.getFilePath())).toBe('packages/db/src/client.ts');
+  });
+});
+
+describe('filterSourceFiles', () => {
+  const { project } = loadProject(MONOREPO, findTsConfigs(MONOREPO));
+  const filter = (include?: string[], exclude?: string[]): string[] =>
+    filterSourceFiles(project.getSourceFiles(), MONOREPO, include, exclude)
+      .map((sourceFile) => toRelative(sourceFile.getFilePath()))
+      .sort();
+
+  it('drops files matching an exclude pattern', () => {
+    expect(filter(undefined, ['**/*.test.ts'])).not.toContain(
+      'packages/worker/src/cleanup.test.ts'
+    );
+    expect(filter()).toContain('packages/worker/src/cleanup.test.ts');
+  });
+
+  it('keeps only files matching an include pattern', () => {
+    expect(filter(['packages/db/**'])).toEqual([
+      'packages/db/src/client.ts',
+      'packages/db/src/users.ts',
+    ]);
+  });
+});
@@ -0,0 +1,319 @@
+import { readdirSync, readFileSync } from 'node:fs';
+import { basename, dirname, join, relative, resolve, sep } from 'node:path';
+import picomatch from 'picomatch';
+import type { SourceFile } from 'ts-morph';
+import { Project, ts } from 'ts-morph';
+import { toProjectRelativePath } from './analyzer/fingerprint.js';
+import { isDirectory, isFile } from './utils/file-utils.js';
+
+/** Tried in order in a directory without an explicit tsconfig */
+export const TSCONFIG_FILE_NAMES = ['tsconfig.json', 'tsconfig.build.json', 'jsconfig.json'];
+
+/** Applied when no exclude patterns are given */
+export const DEFAULT_EXCLUDE_PATTERNS = ['**/node_modules/**', '**/dist/**', '**/build/**'];
+
+const SKIPPED_DIRECTORIES = new Set(['node_modules', '.git']);
+
+export interface ProjectPackage {
+  /** The "name" of the package.json next to the tsconfig, or its directory */
+  name: string;
+  tsconfigPath: string;
+}
+
+/** How the imports of the files under a tsconfig's directory resolve */
+interface ModuleResolution {
+  directory: string;
+  compilerOptions: ts.CompilerOptions;
+  cache: ts.ModuleResolutionCache;
+}
+
+export interface LoadedProject {
+  project: Project;
+  /** One per tsconfig, in the order they were found */
+  packages: ProjectPackage[];
+  /** The package each source file belongs to, by file path */
+  packageByFile: Map<string, ProjectPackage>;
+  /** Files whose changes can add or remove source files */
+  settingFiles: string[];
+}
+
+/**
+ * Find the tsconfigs of a project: the explicit ones, or the root config
+ * with its project references and the configs of workspace packages
+ */
+export const findTsConfigs = (projectPath: string, explicitPaths: string[] = []): string[] => {
+  const found: string[] = [];
+  const visit = (path: string): void => {
+    if (found.includes(path)) {
+      return;
+    }
+    found.push(path);
+    for (const reference of readReferences(path)) {
+      visit(reference);
+    }
+  };
+
+  if (explicitPaths.length > 0) {
+    for (const explicitPath of explicitPaths) {
+      const path = resolve(explicitPath);
+      const tsconfigPath = isDirectory(path) ? findTsConfigInDirectory(path) : path;
+      if (!tsconfigPath || !isFile(tsconfigPath)) {
+        throw new Error(`TypeScript config does not exist: ${explicitPath}`);
+      }
+      visit(tsconfigPath);
+    }
+    return found;
+  }
+
+  const root = findTsConfigInDirectory(resolve(projectPath));
+  if (root) {
+    visit(root);
+  }
+  for (const directory of findWorkspaceDirectories(resolve(projectPath))) {
+    const tsconfigPath = findTsConfigInDirectory(directory);
+    if (tsconfigPath) {
+      visit(tsconfigPath);
+    }
+  }
+
+  if (found.length === 0) {
+    throw new Error(
+      `No ${TSCONFIG_FILE_NAMES.join(', ')} found in ${projectPath} or its workspace packages. ` +
+        'Pass one with --project.'
+    );
+  }
+  return found;
+};
+
+/**
+ * Load the files of every tsconfig into one project, so calls between
+ * packages are followed. Imports resolve with the compiler options of the
+ * closest tsconfig, so each package's paths and baseUrl apply; the rest of
+ * the compiler options come from the first tsconfig.
+ */
+export const loadProject = (projectPath: string, tsconfigPaths: string[]): LoadedProject => {
+  const resolutions = tsconfigPaths
+    .map((tsconfigPath): ModuleResolution => {
+      const directory = toPosixPath(dirname(resolve(tsconfigPath)));
+      const compilerOptions = readCompilerOptions(tsconfigPath);
+      const cache = ts.createModuleResolutionCache(directory, (name) => name, compilerOptions);
+      return { directory, compilerOptions, cache };
+    })
+    .sort((a, b) => b.directory.length - a.directory.length);
+
+  const project = new Project({
+    tsConfigFilePath: tsconfigPaths[0],
+    skipAddingFilesFromTsConfig: true,
+    resolutionHost: (moduleResolutionHost, getCompilerOptions) => ({
+      resolveModuleNames: (moduleNames, containingFile) => {
+        const resolution = resolutions.find(({ directory }) =>
+          containingFile.startsWith(`${directory}/`)
+        );
+        return moduleNames.map(
+          (moduleName) =>
+            ts.resolveModuleName(
+              moduleName,
+              containingFile,
+              resolution?.compilerOptions ?? getCompilerOptions(),
+              moduleResolutionHost,
+              resolution?.cache
+            ).resolvedModule
+        );
+      },
+    }),
+  });
+
+  const packages = tsconfigPaths.map((tsconfigPath) => ({
+    name: getPackageName(projectPath, dirname(tsconfigPath)),
+    tsconfigPath,
+  }));
+
+  // A file in several tsconfigs belongs to the one closest to it
+  const packageByFile = new Map<string, ProjectPackage>();
+  for (const projectPackage of packages) {
+    const directory = dirname(projectPackage.tsconfigPath);
+    for (const sourceFile of project.addSourceFilesFromTsConfig(projectPackage.tsconfigPath)) {
+      const filePath = sourceFile.getFilePath();
+      const current = packageByFile.get(filePath);
+      if (!current || dirname(current.tsconfigPath).length < directory.length) {
+        packageByFile.set(filePath, projectPackage);
+      }
+    }
+  }
+  project.resolveSourceFileDependencies();
+
+  const settingFiles = [
+    ...tsconfigPaths,
+    join(projectPath, 'package.json'),
+    join(projectPath, 'pnpm-workspace.yaml'),
+  ].map((path) => resolve(path));
+
+  return { project, packages, packageByFile, settingFiles };
+};
+
+/**
+ * Keep the source files that match the include patterns, when there are
+ * any, and none of the exclude patterns. Patterns are relative to the
+ * project path. Declaration files never contain operations.
+ */
+export const filterSourceFiles = (
+  sourceFiles: SourceFile[],
+  projectPath: string,
+  includePatterns?: string[],
+  excludePatterns: string[] = DEFAULT_EXCLUDE_PATTERNS
+): SourceFile[] => {
+  const isIncluded =
+    includePatterns && includePatterns.length > 0 ? picomatch(includePatterns, { dot: true }) : null;
+  const isExcluded = excludePatterns.length > 0 ? picomatch(excludePatterns, { dot: true }) : null;
+
+  return sourceFiles.filter((sourceFile) => {
+    if (sourceFile.isDeclarationFile()) {
+      return false;
+    }
+    const path = toProjectRelativePath(projectPath, sourceFile.getFilePath());
+    return (!isIncluded || isIncluded(path)) && !isExcluded?.(path);
+  });
+};
+
+/**
+ * Read the compiler options of a tsconfig, following "extends". A broken
+ * tsconfig resolves with the defaults.
+ */
+const readCompilerOptions = (tsconfigPath: string): ts.CompilerOptions => {
+  const parsed = ts.getParsedCommandLineOfConfigFile(tsconfigPath, undefined, {
+    ...ts.sys,
+    onUnRecoverableConfigFileDiagnostic: () => undefined,
+  });
+  return parsed?.options ?? {};
+};
+
+const toPosixPath = (path: string): string => path.split(sep).join('/');
+
+const findTsConfigInDirectory = (directory: string): string | null => {
+  const name = TSCONFIG_FILE_NAMES.find((candidate) => isFile(join(directory, candidate)));
+  return name ? join(directory, name) : null;
+};
+
+/**
+ * Resolve the project references of a tsconfig; a reference to a directory
+ * means the tsconfig.json in it
+ */
+const readReferences = (tsconfigPath: string): string[] => {
+  const { config } = ts.readConfigFile(tsconfigPath, ts.sys.readFile);
+  const references: unknown = config?.references;
+  if (!Array.isArray(references)) {
+    return [];
+  }
+
+  return references.flatMap((reference: { path?: unknown }) => {
+    if (typeof reference?.path !== 'string') {
+      return [];
+    }
+    const path = resolve(dirname(tsconfigPath), reference.path);
+    const target = isDirectory(path) ? join(path, 'tsconfig.json') : path;
+    return isFile(target) ? [target] : [];
+  });
+};
+
+/**
+ * Directories of the workspace packages declared in package.json
+ * ("workspaces") or pnpm-workspace.yaml ("packages")
+ */
+const findWorkspaceDirectories = (projectPath: string): string[] => {
+  const patterns = [...readPackageJsonWorkspaces(projectPath), ...readPnpmWorkspaces(projectPath)];
+  const include = patterns.filter((pattern) => !pattern.startsWith('!'));
+  if (include.length === 0) {
+    return [];
+  }
+
+  const isIncluded = picomatch(include.map(normalizeWorkspacePattern));
+  const exclude = patterns.filter((pattern) => pattern.startsWith('!'));
+  const isExcluded =
+    exclude.length > 0
+      ? picomatch(exclude.map((pattern) => normalizeWorkspacePattern(pattern.slice(1))))
+      : () => false;
+
+  const directories: string[] = [];
+  const walk = (directory: string): void => {
+    for (const entry of readdirSync(directory, { withFileTypes: true })) {
+      if (!entry.isDirectory() || SKIPPED_DIRECTORIES.has(entry.name)) {
+        continue;
+      }
+      const path = join(directory, entry.name);
+      const relativePath = toProjectRelativePath(projectPath, path);
+      if (isIncluded(relativePath) && !isExcluded(relativePath)) {
+        directories.push(path);
+      }
+      walk(path);
+    }
+  };
+  walk(projectPath);
+
+  return directories.sort();
+};
+
+const readPackageJsonWorkspaces = (projectPath: string): string[] => {
+  const path = join(projectPath, 'package.json');
+  if (!isFile(path)) {
+    return [];
+  }
+
+  try {
+    const { workspaces } = JSON.parse(readFileSync(path, 'utf-8')) ?? {};
+    const patterns: unknown = Array.isArray(workspaces) ? workspaces : workspaces?.packages;
+    return Array.isArray(patterns)
+      ? patterns.filter((pattern): pattern is string => typeof pattern === 'string')
+      : [];
+  } catch {
+    // Malformed package.json is not ours to report
+    return [];
+  }
+};
+
+/**
+ * Read the "packages" list of pnpm-workspace.yaml. Only the block list
+ * form that pnpm documents is supported.
+ */
+const readPnpmWorkspaces = (projectPath: string): string[] => {
+  const path = join(projectPath, 'pnpm-workspace.yaml');
+  if (!isFile(path)) {
+    return [];
+  }
+
+  const patterns: string[] = [];
+  let inPackages = false;
+  for (const line of readFileSync(path, 'utf-8').split(/\r?\n/)) {
+    if (/^packages\s*:/.test(line)) {
+      inPackages = true;
+      continue;
+    }
+    const item = /^\s+-\s*['"]?([^'"#]+?)['"]?\s*(?:#.*)?$/.exec(line);
+    if (inPackages && item) {
+      patterns.push(item[1]);
+    } else if (/^\S/.test(line)) {
+      inPackages = false;
+    }
+  }
+  return patterns;
+};
+
+const normalizeWorkspacePattern = (pattern: string): string => {
+  return pattern.replace(/^\.\//, '').replace(/\/$/, '');
+};
+
+const getPackageName = (projectPath: string, directory: string): string => {
+  const packageJsonPath = join(directory, 'package.json');
+  if (isFile(packageJsonPath)) {
+    try {
+      const { name } = JSON.parse(readFileSync(packageJsonPath, 'utf-8')) ?? {};
+      if (typeof name === 'string') {
+        return name;
+      }
+    } catch {
+      // Fall back to the directory
+    }
+  }
+
+  const relativePath = relative(resolve(projectPath), directory);
+  return relativePath === '' ? basename(resolve(projectPath)) : toPosixPath(relativePath);
+};
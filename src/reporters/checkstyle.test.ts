@@ -0,0 +1,17 @@
+import { beforeAll, describe, expect, it } from 'vitest';
+import { analyzeReporterFixture, REPORTER_FIXTURE_PATH } from '../test-utils.js';
+import type { AnalysisResult } from '../types.js';
+import { reportCheckstyle } from './checkstyle.js';
+
+describe('reportCheckstyle', () => {
+  let result: AnalysisResult;
+
+  beforeAll(async () => {
+    result = await analyzeReporterFixture();
+  });
+
+  it('reports one error per issue, grouped by file', () => {
+    const report = reportCheckstyle(result, { projectPath: REPORTER_FIXTURE_PATH });
+    expect(report.split(REPORTER_FIXTURE_PATH).join('<project>')).toMatchSnapshot();
+  });
+});
@@ -0,0 +1,28 @@
+import { getIssueOperation } from '../rules/index.js';
+import type { Reporter } from './index.js';
+import { describeIssue, escapeXml, groupIssues } from './utils.js';
+
+/**
+ * Report issues in the Checkstyle XML format, one error per issue at the
+ * read, or at the one operation of issues about a single operation
+ */
+export const reportCheckstyle: Reporter = (result) => {
+  const lines = ['<?xml version="1.0" encoding="UTF-8"?>', '<checkstyle version="4.3">'];
+
+  const groups = groupIssues(result.issues, (issue) => getIssueOperation(issue).location.file);
+  for (const [file, issues] of groups) {
+    lines.push(`  <file name="${escapeXml(file)}">`);
+    for (const issue of issues) {
+      const { line, column } = getIssueOperation(issue).location;
+      const message = `${describeIssue(issue)}: ${issue.reason.evidence}`;
+      lines.push(
+        `    <error line="${line}" column="${column}" severity="${issue.severity}" ` +
+          `message="${escapeXml(message)}" source="prisma-raw-analyzer.${issue.ruleId}"/>`
+      );
+    }
+    lines.push('  </file>');
+  }
+
+  lines.push('</checkstyle>');
+  return lines.join('\n');
+};
@@ -0,0 +1,39 @@
+import type { ChalkInstance } from 'chalk';
+
+/**
+ * Render the lines around a location with a gutter of line numbers, marking
+ * the line with `>` and the column with `^`
+ */
+export const createCodeFrame = (
+  lines: string[],
+  line: number,
+  column: number | undefined,
+  paint: ChalkInstance,
+  contextLines = 2
+): string => {
+  const start = Math.max(1, line - contextLines);
+  const end = Math.min(lines.length, line + contextLines);
+  const gutterWidth = String(end).length;
+
+  const frame: string[] = [];
+  for (let current = start; current <= end; current++) {
+    const gutter = String(current).padStart(gutterWidth);
+    const code = lines[current - 1].replace(/\t/g, '  ');
+    const text = code ? ` ${code}` : '';
+    if (current === line) {
+      frame.push(`${paint.red('>')} ${paint.gray(`${gutter} |`)}${text}`);
+      if (column !== undefined) {
+        // Keep tabs as wide as in the line above so the caret lines up
+        const indent = lines[current - 1]
+          .slice(0, column - 1)
+          .replace(/[^\t]/g, ' ')
+          .replace(/\t/g, '  ');
+        frame.push(`  ${paint.gray(`${' '.repeat(gutterWidth)} |`)} ${indent}${paint.red('^')}`);
+      }
+    } else {
+      frame.push(`  ${paint.gray(`${gutter} |`)}${text}`);
+    }
+  }
+
+  return frame.join('\n');
+};
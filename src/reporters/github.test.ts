@@ -0,0 +1,32 @@
+import { afterEach, beforeAll, describe, expect, it, vi } from 'vitest';
+import { analyzeReporterFixture, REPORTER_FIXTURE_PATH } from '../test-utils.js';
+import type { AnalysisResult } from '../types.js';
+import { reportGithub } from './github.js';
+
+describe('reportGithub', () => {
+  let result: AnalysisResult;
+
+  beforeAll(async () => {
+    result = await analyzeReporterFixture();
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('prints one workflow command per issue, relative to the working directory', () => {
+    vi.spyOn(process, 'cwd').mockReturnValue(REPORTER_FIXTURE_PATH);
+    expect(reportGithub(result, { projectPath: REPORTER_FIXTURE_PATH })).toMatchSnapshot();
+  });
+
+  it('escapes the characters that end a property or a message', () => {
+    vi.spyOn(process, 'cwd').mockReturnValue(REPORTER_FIXTURE_PATH);
+    const [issue] = result.issues;
+    const report = reportGithub(
+      { ...result, issues: [{ ...issue, reason: { ...issue.reason, evidence: '100%\nsure' } }] },
+      { projectPath: REPORTER_FIXTURE_PATH }
+    );
+    expect(report).toContain('title=read-after-write (shares-write-input)::');
+    expect(report).toContain('100%25%0Asure');
+  });
+});
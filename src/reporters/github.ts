@@ -0,0 +1,48 @@
+import { relative, sep } from 'node:path';
+import { getIssueOperation } from '../rules/index.js';
+import type { Reporter } from './index.js';
+import { formatOperation } from './utils.js';
+
+/**
+ * Report issues as GitHub Actions workflow commands, which show up as
+ * annotations on the read, or on the one operation of an issue. Paths are
+ * relative to the working directory, which is the repository root in a
+ * workflow.
+ */
+export const reportGithub: Reporter = (result) => {
+  return result.issues
+    .map((issue) => {
+      const { file, line, column } = getIssueOperation(issue).location;
+      const properties = [
+        `file=${escapeProperty(relative(process.cwd(), file).split(sep).join('/'))}`,
+        `line=${line}`,
+        `col=${column}`,
+        `title=${escapeProperty(`${issue.ruleId} (${issue.reason.code})`)}`,
+      ].join(',');
+
+      const { writeOperation, readOperation } = issue;
+      const message =
+        writeOperation && readOperation
+          ? `${formatOperation(readOperation)} may read from a replica after ` +
+            `${formatOperation(writeOperation)} (line ${writeOperation.location.line}). ` +
+            `${issue.reason.evidence}. Use $primary() for the read.`
+          : `${issue.message}: ${issue.reason.evidence}.`;
+
+      return `::${issue.severity} ${properties}::${escapeData(message)}`;
+    })
+    .join('\n');
+};
+
+/**
+ * Escape a workflow command message
+ */
+const escapeData = (text: string): string => {
+  return text.replace(/%/g, '%25').replace(/\r/g, '%0D').replace(/\n/g, '%0A');
+};
+
+/**
+ * Escape a workflow command property, which also ends at `,` and `:`
+ */
+const escapeProperty = (text: string): string => {
+  return escapeData(text).replace(/:/g, '%3A').replace(/,/g, '%2C');
+};
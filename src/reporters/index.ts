@@ -0,0 +1,34 @@
+import type { AnalysisResult } from '../types.js';
+import { reportCheckstyle } from './checkstyle.js';
+import { reportGithub } from './github.js';
+import { reportJson } from './json.js';
+import { reportJunit } from './junit.js';
+import { reportPretty } from './pretty.js';
+import { reportSarif } from './sarif.js';
+
+export interface ReporterContext {
+  /** Root that reported file paths are relative to */
+  projectPath: string;
+  /** Whether human-readable formats may use terminal colors */
+  color?: boolean;
+  /** Whether the pretty format lists each write once with the reads it affects */
+  groupByWrite?: boolean;
+}
+
+/**
+ * Render an analysis result in one output format
+ */
+export type Reporter = (result: AnalysisResult, context: ReporterContext) => string;
+
+export const REPORTERS = {
+  json: reportJson,
+  pretty: reportPretty,
+  sarif: reportSarif,
+  github: reportGithub,
+  checkstyle: reportCheckstyle,
+  junit: reportJunit,
+} satisfies Record<string, Reporter>;
+
+export type OutputFormat = keyof typeof REPORTERS;
+
+export const OUTPUT_FORMATS = Object.keys(REPORTERS) as OutputFormat[];
@@ -0,0 +1,31 @@
+import { beforeAll, describe, expect, it } from 'vitest';
+import { analyzeReporterFixture, REPORTER_FIXTURE_PATH } from '../test-utils.js';
+import type { AnalysisResult } from '../types.js';
+import { reportJson } from './json.js';
+
+describe('reportJson', () => {
+  let result: AnalysisResult;
+
+  beforeAll(async () => {
+    result = await analyzeReporterFixture();
+  });
+
+  it('serializes the whole result', () => {
+    const report = JSON.parse(reportJson(result, { projectPath: REPORTER_FIXTURE_PATH }));
+    expect(report).toEqual(JSON.parse(JSON.stringify(result)));
+    expect(report.summary).toMatchObject({ totalIssues: 3, suppressedIssues: 1 });
+    expect(Object.keys(report.issues[0])).toEqual(
+      expect.arrayContaining([
+        'id',
+        'ruleId',
+        'severity',
+        'writeOperation',
+        'readOperation',
+        'callChain',
+        'reason',
+        'message',
+        'fingerprint',
+      ])
+    );
+  });
+});
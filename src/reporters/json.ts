@@ -0,0 +1,8 @@
+import type { Reporter } from './index.js';
+
+/**
+ * Report the full analysis result as JSON
+ */
+export const reportJson: Reporter = (result) => {
+  return JSON.stringify(result, null, 2);
+};
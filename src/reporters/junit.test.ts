@@ -0,0 +1,16 @@
+import { beforeAll, describe, expect, it } from 'vitest';
+import { analyzeReporterFixture, REPORTER_FIXTURE_PATH } from '../test-utils.js';
+import type { AnalysisResult } from '../types.js';
+import { reportJunit } from './junit.js';
+
+describe('reportJunit', () => {
+  let result: AnalysisResult;
+
+  beforeAll(async () => {
+    result = await analyzeReporterFixture();
+  });
+
+  it('reports one failed test case per issue, in a suite per file', () => {
+    expect(reportJunit(result, { projectPath: REPORTER_FIXTURE_PATH })).toMatchSnapshot();
+  });
+});
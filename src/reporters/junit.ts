@@ -0,0 +1,46 @@
+import { toProjectRelativePath } from '../analyzer/fingerprint.js';
+import type { Reporter } from './index.js';
+import { describeIssue, escapeXml, formatIssueOperations, groupIssues } from './utils.js';
+
+/**
+ * Report issues as JUnit XML for CI test report views: one test suite per
+ * file of the enclosing function and one failed test case per issue
+ */
+export const reportJunit: Reporter = (result, context) => {
+  const total = result.issues.length;
+  const lines = [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    `<testsuites name="prisma-raw-analyzer" tests="${total}" failures="${total}">`,
+  ];
+
+  const groups = groupIssues(result.issues, (issue) => issue.callChain[0].file);
+  for (const [file, issues] of groups) {
+    const path = escapeXml(toProjectRelativePath(context.projectPath, file));
+    lines.push(`  <testsuite name="${path}" tests="${issues.length}" failures="${issues.length}">`);
+
+    for (const issue of issues) {
+      const name = `${issue.callChain[0].functionName}: ${formatIssueOperations(issue)} (${issue.ruleId})`;
+      const details = [
+        issue.message,
+        `Rule: ${issue.ruleId}`,
+        `Reason: ${issue.reason.code}: ${issue.reason.evidence}`,
+        ...issue.callChain.map((frame) => {
+          const location = `${toProjectRelativePath(context.projectPath, frame.file)}:${frame.line}`;
+          return `  at ${frame.functionName} (${location})`;
+        }),
+      ].join('\n');
+
+      lines.push(
+        `    <testcase name="${escapeXml(name)}" classname="${path}">`,
+        `      <failure message="${escapeXml(describeIssue(issue))}" ` +
+          `type="${issue.severity}">${escapeXml(details)}</failure>`,
+        '    </testcase>'
+      );
+    }
+
+    lines.push('  </testsuite>');
+  }
+
+  lines.push('</testsuites>');
+  return lines.join('\n');
+};
@@ -0,0 +1,26 @@
+import { beforeAll, describe, expect, it } from 'vitest';
+import { analyzeReporterFixture, REPORTER_FIXTURE_PATH } from '../test-utils.js';
+import type { AnalysisResult } from '../types.js';
+import { reportPretty } from './pretty.js';
+
+describe('reportPretty', () => {
+  let result: AnalysisResult;
+
+  beforeAll(async () => {
+    result = await analyzeReporterFixture();
+  });
+
+  it('lists issues by file with code frames', () => {
+    expect(reportPretty(result, { projectPath: REPORTER_FIXTURE_PATH })).toMatchSnapshot();
+  });
+
+  it('lists each write once with the reads it affects', () => {
+    const report = reportPretty(result, { projectPath: REPORTER_FIXTURE_PATH, groupByWrite: true });
+    expect(report).toMatchSnapshot();
+  });
+
+  it('does not paint without colors', () => {
+    const report = reportPretty(result, { projectPath: REPORTER_FIXTURE_PATH });
+    expect(report).not.toContain('\u001b[');
+  });
+});
@@ -0,0 +1,180 @@
+import { readFileSync } from 'node:fs';
+import chalk, { Chalk } from 'chalk';
+import type { ChalkInstance } from 'chalk';
+import { toProjectRelativePath } from '../analyzer/fingerprint.js';
+import type { Issue, IssueGroup, SourceLocation } from '../types.js';
+import { createCodeFrame } from './code-frame.js';
+import type { Reporter, ReporterContext } from './index.js';
+import { formatOperation } from './utils.js';
+
+/**
+ * Report issues for people reading a terminal: grouped by the file of the
+ * enclosing function, with a code frame around the write and the read.
+ * With `groupByWrite`, each write is listed once with the reads it affects.
+ */
+export const reportPretty: Reporter = (result, context) => {
+  const paint = new Chalk({ level: context.color ? chalk.level : 0 });
+  const sources = new Map<string, string[] | null>();
+
+  const getLines = (file: string): string[] | null => {
+    if (!sources.has(file)) {
+      try {
+        sources.set(file, readFileSync(file, 'utf-8').split(/\r?\n/));
+      } catch {
+        sources.set(file, null);
+      }
+    }
+    return sources.get(file) ?? null;
+  };
+
+  // Entries by file, in the order of their first issue
+  const entries = new Map<string, string[]>();
+  const addEntry = (file: string, entry: string): void => {
+    entries.set(file, [...(entries.get(file) ?? []), entry]);
+  };
+
+  if (context.groupByWrite) {
+    const groupsById = new Map(
+      result.groups.flatMap((group) => group.issues.map((id) => [id, group]))
+    );
+    const listed = new Set<IssueGroup>();
+    for (const issue of result.issues) {
+      const group = groupsById.get(issue.id);
+      if (!group) {
+        addEntry(issue.callChain[0].file, formatIssue(issue, context, paint, getLines));
+      } else if (!listed.has(group)) {
+        listed.add(group);
+        const entry = formatGroup(group, result.issues, context, paint, getLines);
+        addEntry(group.write.location.file, entry);
+      }
+    }
+  } else {
+    for (const issue of result.issues) {
+      addEntry(issue.callChain[0].file, formatIssue(issue, context, paint, getLines));
+    }
+  }
+
+  const output: string[] = [];
+  for (const [file, fileEntries] of entries) {
+    output.push(paint.underline(toProjectRelativePath(context.projectPath, file)), '');
+    for (const entry of fileEntries) {
+      output.push(entry, '');
+    }
+  }
+
+  const errors = result.issues.filter((issue) => issue.severity === 'error').length;
+  const warnings = result.issues.length - errors;
+  const counts = `${result.issues.length} issue(s) (${errors} error(s), ${warnings} warning(s))`;
+  output.push(
+    result.issues.length > 0 ? paint.red.bold(`✖ ${counts}`) : paint.green.bold('✔ No issues')
+  );
+
+  const notes: string[] = [];
+  if (result.suppressed.length > 0) {
+    notes.push(`${result.suppressed.length} suppressed`);
+  }
+  if (result.baseline) {
+    notes.push(`${result.baseline.known.length} known from the baseline`);
+  }
+  if (result.summary.scope) {
+    const { changedSince, totalIssues } = result.summary.scope;
+    notes.push(`${totalIssues - result.issues.length} outside the changes since ${changedSince}`);
+  }
+  if (notes.length > 0) {
+    output.push(paint.gray(`  ${notes.join(', ')}`));
+  }
+
+  return output.join('\n');
+};
+
+const formatIssue = (
+  issue: Issue,
+  context: ReporterContext,
+  paint: ChalkInstance,
+  getLines: (file: string) => string[] | null
+): string => {
+  const label = formatSeverity(issue.severity, paint);
+  const { writeOperation, readOperation } = issue;
+  const formatLocation = (title: string, location: SourceLocation): string[] =>
+    formatFramedLocation(title, location, context, paint, getLines);
+
+  const chain = issue.callChain
+    .map((frame) => `${frame.functionName}:${frame.line}`)
+    .join(paint.gray(' → '));
+
+  const summary =
+    writeOperation && readOperation
+      ? `${paint.bold(formatOperation(readOperation))} may read from a replica after ${paint.bold(formatOperation(writeOperation))}`
+      : issue.message;
+
+  return [
+    `  ${label} ${summary}  ${paint.gray(`${issue.ruleId} ${issue.id}`)}`,
+    `    ${paint.gray(`${issue.reason.code}: ${issue.reason.evidence}`)}`,
+    ...(writeOperation ? formatLocation('write', writeOperation.location) : []),
+    ...(readOperation ? formatLocation('read ', readOperation.location) : []),
+    `    ${paint.gray('via')} ${chain}`,
+  ].join('\n');
+};
+
+/**
+ * A write with a code frame, then one line per issue it is part of
+ */
+const formatGroup = (
+  group: IssueGroup,
+  issues: Issue[],
+  context: ReporterContext,
+  paint: ChalkInstance,
+  getLines: (file: string) => string[] | null
+): string => {
+  const ids = new Set(group.issues);
+  const label = formatSeverity(group.severity, paint);
+  const write = paint.bold(formatOperation(group.write));
+  const summary =
+    group.reads.length > 0
+      ? `${write} is followed by ${group.reads.length} read(s) that may hit a replica`
+      : write;
+
+  const lines = issues
+    .filter((issue) => ids.has(issue.id))
+    .map((issue) => {
+      const tag = paint.gray(`${issue.ruleId} ${issue.id}`);
+      const read = issue.readOperation;
+      if (!read) {
+        return `    ${issue.message}  ${tag}`;
+      }
+      const path = toProjectRelativePath(context.projectPath, read.location.file);
+      const location = paint.cyan(`${path}:${read.location.line}:${read.location.column}`);
+      const reason = paint.gray(issue.reason.code);
+      return `    read  ${formatOperation(read)} ${location}  ${reason}  ${tag}`;
+    });
+
+  return [
+    `  ${label} ${summary}`,
+    ...formatFramedLocation('write', group.write.location, context, paint, getLines),
+    ...lines,
+  ].join('\n');
+};
+
+const formatSeverity = (severity: Issue['severity'], paint: ChalkInstance): string => {
+  return severity === 'error' ? paint.red('error') : paint.yellow('warning');
+};
+
+/**
+ * A location with a code frame around it, when the file can be read
+ */
+const formatFramedLocation = (
+  title: string,
+  location: SourceLocation,
+  context: ReporterContext,
+  paint: ChalkInstance,
+  getLines: (file: string) => string[] | null
+): string[] => {
+  const path = toProjectRelativePath(context.projectPath, location.file);
+  const lines = [`    ${title} ${paint.cyan(`${path}:${location.line}:${location.column}`)}`];
+  const source = getLines(location.file);
+  if (source && location.line <= source.length) {
+    const frame = createCodeFrame(source, location.line, location.column, paint);
+    lines.push(frame.replace(/^/gm, '    '));
+  }
+  return lines;
+};
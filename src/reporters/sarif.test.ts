@@ -0,0 +1,80 @@
+import { pathToFileURL } from 'node:url';
+import { beforeAll, describe, expect, it } from 'vitest';
+import { analyzeReporterFixture, REPORTER_FIXTURE_PATH } from '../test-utils.js';
+import type { AnalysisResult } from '../types.js';
+import { ANALYZER_VERSION } from '../version.js';
+import { reportSarif } from './sarif.js';
+
+describe('reportSarif', () => {
+  let result: AnalysisResult;
+
+  beforeAll(async () => {
+    result = await analyzeReporterFixture();
+  });
+
+  const getRun = (analysis: AnalysisResult) =>
+    JSON.parse(reportSarif(analysis, { projectPath: REPORTER_FIXTURE_PATH })).runs[0];
+
+  it('describes the tool and the rules that ran', () => {
+    const { tool, originalUriBaseIds } = getRun(result);
+    expect(tool.driver).toMatchObject({ name: 'prisma-raw-analyzer', version: ANALYZER_VERSION });
+    expect(tool.driver.rules.map((rule: { id: string }) => rule.id)).toEqual(
+      result.rules.map((rule) => rule.id)
+    );
+    expect(tool.driver.rules[0]).toMatchObject({
+      id: 'read-after-write',
+      name: 'ReadAfterWrite',
+      defaultConfiguration: { level: 'error' },
+    });
+    expect(originalUriBaseIds['%SRCROOT%'].uri).toBe(
+      `${pathToFileURL(REPORTER_FIXTURE_PATH).href}/`
+    );
+  });
+
+  it('reports the read with the write as a related location and the call chain as a flow', () => {
+    const [first] = getRun(result).results;
+    expect(first).toMatchObject({
+      ruleId: 'read-after-write',
+      ruleIndex: 0,
+      level: 'error',
+      locations: [
+        {
+          physicalLocation: {
+            artifactLocation: { uri: 'src/users.ts', uriBaseId: '%SRCROOT%' },
+            region: { startLine: 6, startColumn: 22 },
+          },
+        },
+      ],
+      relatedLocations: [{ id: 1, message: { text: 'Write: user.create()' } }],
+      partialFingerprints: { 'prismaRawFingerprint/v1': result.issues[0].fingerprint },
+    });
+    expect(first.message.text).toContain('[user.create()](1)');
+    expect(first.codeFlows[0].threadFlows[0].locations).toHaveLength(2);
+  });
+
+  it('includes suppressed issues with their justification', () => {
+    const suppressed = getRun(result).results.filter(
+      (entry: { suppressions?: unknown }) => entry.suppressions
+    );
+    expect(suppressed).toEqual([
+      expect.objectContaining({
+        suppressions: [{ kind: 'inSource', justification: 'the report tolerates replica lag' }],
+      }),
+    ]);
+  });
+
+  it('marks the baseline state of each result', () => {
+    const [known, ...newIssues] = result.issues;
+    const run = getRun({
+      ...result,
+      issues: newIssues,
+      baseline: { path: 'baseline.json', known: [known], fixed: [] },
+    });
+    expect(run.results.map((entry: { baselineState?: string }) => entry.baselineState)).toEqual([
+      'new',
+      'new',
+      'unchanged',
+      undefined,
+    ]);
+  });
+});
@@ -0,0 +1,159 @@
+import { resolve } from 'node:path';
+import { pathToFileURL } from 'node:url';
+import { toProjectRelativePath } from '../analyzer/fingerprint.js';
+import { getIssueOperation } from '../rules/index.js';
+import type {
+  CallChainEntry,
+  Issue,
+  RuleDescription,
+  SourceLocation,
+  SuppressedIssue,
+} from '../types.js';
+import { ANALYZER_VERSION } from '../version.js';
+import type { Reporter, ReporterContext } from './index.js';
+import { formatOperation } from './utils.js';
+
+const SARIF_SCHEMA = 'https://json.schemastore.org/sarif-2.1.0.json';
+const SOURCE_ROOT = '%SRCROOT%';
+const FINGERPRINT_KEY = 'prismaRawFingerprint/v1';
+
+const RULE_TAGS = ['prisma', 'read-replicas', 'correctness'];
+
+/**
+ * Report issues as SARIF 2.1.0 for code scanning tools, with a reporting
+ * descriptor per rule that ran. The read is the primary location, the
+ * write a related location and the call chain a code flow. Suppressed
+ * issues are included with their justification, and with a baseline each
+ * result carries its baseline state.
+ */
+export const reportSarif: Reporter = (result, context) => {
+  const ruleIndexes = new Map(result.rules.map((rule, index) => [rule.id, index]));
+  const toResult = (issue: Issue | SuppressedIssue, baselineState?: 'new' | 'unchanged') =>
+    toSarifResult(issue, context, ruleIndexes.get(issue.ruleId), baselineState);
+
+  const results = [
+    ...result.issues.map((issue) => toResult(issue, result.baseline ? 'new' : undefined)),
+    ...(result.baseline?.known ?? []).map((issue) => toResult(issue, 'unchanged')),
+    ...result.suppressed.map((issue) => toResult(issue)),
+  ];
+
+  const log = {
+    $schema: SARIF_SCHEMA,
+    version: '2.1.0',
+    runs: [
+      {
+        tool: {
+          driver: {
+            name: 'prisma-raw-analyzer',
+            version: ANALYZER_VERSION,
+            rules: result.rules.map(toReportingDescriptor),
+          },
+        },
+        originalUriBaseIds: {
+          [SOURCE_ROOT]: {
+            // Base URIs must end with a slash
+            uri: `${pathToFileURL(resolve(context.projectPath)).href}/`,
+          },
+        },
+        results,
+      },
+    ],
+  };
+
+  return JSON.stringify(log, null, 2);
+};
+
+const toReportingDescriptor = (rule: RuleDescription) => ({
+  id: rule.id,
+  // ReadAfterWrite for read-after-write
+  name: rule.id.replace(/(^|[-_/])(\w)/g, (_match, _separator, letter: string) =>
+    letter.toUpperCase()
+  ),
+  shortDescription: { text: rule.description },
+  ...(rule.help ? { help: { text: rule.help, markdown: rule.help } } : {}),
+  defaultConfiguration: { level: rule.severity },
+  properties: { tags: RULE_TAGS },
+});
+
+const toSarifResult = (
+  issue: Issue | SuppressedIssue,
+  context: ReporterContext,
+  ruleIndex: number | undefined,
+  baselineState: 'new' | 'unchanged' | undefined
+) => {
+  const { writeOperation, readOperation } = issue;
+  const isPair = writeOperation !== undefined && readOperation !== undefined;
+
+  return {
+    ruleId: issue.ruleId,
+    ...(ruleIndex !== undefined ? { ruleIndex } : {}),
+    level: issue.severity,
+    message: {
+      // [text](id) links to the related location with that id
+      text: isPair
+        ? `${formatOperation(readOperation)} may read from a replica right after the write in ` +
+          `[${formatOperation(writeOperation)}](1). ${issue.reason.evidence}. Use $primary() for the read.`
+        : `${issue.message}: ${issue.reason.evidence}.`,
+    },
+    locations: [toLocation(getIssueOperation(issue).location, context)],
+    relatedLocations: isPair
+      ? [
+          {
+            id: 1,
+            ...toLocation(writeOperation.location, context),
+            message: { text: `Write: ${formatOperation(writeOperation)}` },
+          },
+        ]
+      : [],
+    codeFlows: [
+      {
+        threadFlows: [
+          {
+            locations: issue.callChain.map((frame) => ({
+              location: {
+                ...toLocation(frame, context),
+                message: { text: frame.functionName },
+              },
+            })),
+          },
+        ],
+      },
+    ],
+    partialFingerprints: {
+      [FINGERPRINT_KEY]: issue.fingerprint,
+    },
+    ...(baselineState ? { baselineState } : {}),
+    ...('suppression' in issue
+      ? {
+          suppressions: [
+            {
+              kind: 'inSource',
+              ...(issue.suppression.reason ? { justification: issue.suppression.reason } : {}),
+            },
+          ],
+        }
+      : {}),
+    properties: {
+      reason: issue.reason.code,
+    },
+  };
+};
+
+/**
+ * Build a location from an operation, or from a call chain frame, which has
+ * no column
+ */
+const toLocation = (location: SourceLocation | CallChainEntry, context: ReporterContext) => {
+  return {
+    physicalLocation: {
+      artifactLocation: {
+        uri: encodeURI(toProjectRelativePath(context.projectPath, location.file)),
+        uriBaseId: SOURCE_ROOT,
+      },
+      region: {
+        startLine: location.line,
+        ...('column' in location ? { startColumn: location.column } : {}),
+      },
+    },
+  };
+};
@@ -0,0 +1,55 @@
+import type { Issue, PrismaOperation } from '../types.js';
+
+/**
+ * Describe an operation the way it appears in code, e.g. user.findMany()
+ */
+export const formatOperation = (operation: PrismaOperation): string => {
+  return `${operation.model}.${operation.method}()`;
+};
+
+/**
+ * List the operations of an issue in order, e.g. user.create() -> user.findMany()
+ */
+export const formatIssueOperations = (issue: Issue): string => {
+  return [issue.writeOperation, issue.readOperation]
+    .flatMap((operation) => (operation ? [formatOperation(operation)] : []))
+    .join(' -> ');
+};
+
+/**
+ * Describe an issue in one line: a pair by its read and write, other
+ * issues by the message of their rule
+ */
+export const describeIssue = (issue: Issue): string => {
+  const { writeOperation, readOperation } = issue;
+  if (writeOperation && readOperation) {
+    return `${formatOperation(readOperation)} may read from a replica after ${formatOperation(writeOperation)}`;
+  }
+  return issue.message;
+};
+
+/**
+ * Group issues by a key, keeping the order in which keys first appear
+ */
+export const groupIssues = <T extends Issue>(
+  issues: T[],
+  getKey: (issue: T) => string
+): Map<string, T[]> => {
+  const groups = new Map<string, T[]>();
+  for (const issue of issues) {
+    const key = getKey(issue);
+    const group = groups.get(key) ?? [];
+    group.push(issue);
+    groups.set(key, group);
+  }
+  return groups;
+};
+
+export const escapeXml = (text: string): string => {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+};
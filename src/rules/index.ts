@@ -0,0 +1,158 @@
+import type { CallGraph, FunctionSummary, ReachableOperation } from '../analyzer/call-graph.js';
+import type { ControlFlowGraph } from '../analyzer/control-flow.js';
+import type { SchemaModelGraph } from '../analyzer/schema-parser.js';
+import { ConfigError } from '../config.js';
+import type {
+  Issue,
+  IssueReason,
+  PrismaOperation,
+  RuleDescription,
+  SeverityOverride,
+} from '../types.js';
+import { readAfterWrite } from './read-after-write.js';
+import { replicaInTransaction } from './replica-in-transaction.js';
+import { replicaReadAfterWrite } from './replica-read-after-write.js';
+import { replicaWrite } from './replica-write.js';
+import { unnecessaryPrimary } from './unnecessary-primary.js';
+
+/**
+ * A function to check, with the work shared by every rule: its operations,
+ * classified once, and its control flow
+ */
+export interface RuleScope {
+  summary: FunctionSummary;
+  /** Operations of the function and of the functions it calls, in source order */
+  operations: ReachableOperation[];
+  /**
+   * Operations written in the function itself, including its inline
+   * callbacks, and not in the functions it calls. Each operation belongs to
+   * exactly one scope, so a rule about single operations reports it once.
+   */
+  ownOperations: ReachableOperation[];
+  /** Built on first use */
+  readonly controlFlow: ControlFlowGraph;
+  /** Whether some execution path of the function runs `later` after `earlier` */
+  canRunAfter: (earlier: ReachableOperation, later: ReachableOperation) => boolean;
+}
+
+export interface RuleContext {
+  /** Root that reported paths are relative to */
+  projectPath: string;
+  schema: SchemaModelGraph | null;
+  callGraph: CallGraph;
+  /** The scope of any function, e.g. of a caller; shared with the rules that check it */
+  getScope: (summary: FunctionSummary) => RuleScope;
+}
+
+/**
+ * What a rule reports; the analyzer adds the call chain, fingerprint and
+ * configured severity
+ */
+export interface RuleReport {
+  /** Defaults to the severity of the rule */
+  severity?: Issue['severity'];
+  /** A pair is reported at the read; one operation at that operation */
+  write?: ReachableOperation;
+  read?: ReachableOperation;
+  reason: IssueReason;
+  message: string;
+  /** Orders the issues of the rule, highest first, e.g. how often the function runs */
+  priority?: number;
+}
+
+export interface Rule {
+  /** Used in the config and in every report, e.g. "read-after-write" */
+  id: string;
+  /** One line, e.g. "Read may hit a lagging replica right after a write" */
+  description: string;
+  /** How to fix what the rule reports, in Markdown */
+  help?: string;
+  /** Severity of the issues that do not set their own */
+  severity: Issue['severity'];
+  /** Rules that only run once the config gives them a severity */
+  optIn?: boolean;
+  /**
+   * Rules that look at the callers of a function, which can be in files it
+   * does not import. While one runs, a file's cache entry also depends on the
+   * files that call into it.
+   */
+  usesCallers?: boolean;
+  /** Report the issues of one function; called for every function in the analyzed files */
+  check: (scope: RuleScope, context: RuleContext) => RuleReport[];
+}
+
+/**
+ * A rule with the severity the config gives it
+ */
+export interface ActiveRule {
+  rule: Rule;
+  /**
+   * The severity of reports that do not set their own; "warning" also
+   * lowers the errors the rule reports
+   */
+  severity?: Issue['severity'];
+}
+
+export const BUILT_IN_RULES: Rule[] = [
+  readAfterWrite,
+  replicaReadAfterWrite,
+  replicaWrite,
+  replicaInTransaction,
+  unnecessaryPrimary,
+];
+
+/**
+ * Type a rule in a rule module without importing the Rule type
+ */
+export const defineRule = (rule: Rule): Rule => rule;
+
+/**
+ * Pick the rules that run: all but opt-in ones, unless the config turns
+ * them on or off by ID. Unknown and duplicate IDs are config errors.
+ */
+export const resolveRules = (
+  rules: Rule[],
+  severities: Record<string, SeverityOverride> = {}
+): ActiveRule[] => {
+  const problems: string[] = [];
+  const ids = new Set<string>();
+  for (const { id } of rules) {
+    if (ids.has(id)) {
+      problems.push(`rule "${id}" is defined more than once`);
+    }
+    ids.add(id);
+  }
+  for (const id of Object.keys(severities).filter((key) => !ids.has(key))) {
+    problems.push(`unknown rule "${id}" in "rules" (expected one of ${[...ids].join(', ')})`);
+  }
+  if (problems.length > 0) {
+    throw new ConfigError('Invalid rules', problems);
+  }
+
+  return rules.flatMap((rule): ActiveRule[] => {
+    const severity = severities[rule.id];
+    if (severity === 'off' || (severity === undefined && rule.optIn)) {
+      return [];
+    }
+    return [{ rule, severity }];
+  });
+};
+
+export const describeRule = ({ rule, severity }: ActiveRule): RuleDescription => ({
+  id: rule.id,
+  description: rule.description,
+  help: rule.help,
+  severity: severity ?? rule.severity,
+});
+
+/**
+ * The operation an issue is reported at: the read of a pair, or the one
+ * operation it is about
+ */
+export const getIssueOperation = (issue: Issue): PrismaOperation => {
+  const operation = issue.readOperation ?? issue.writeOperation;
+  if (!operation) {
+    throw new Error(`Issue ${issue.fingerprint} of rule "${issue.ruleId}" has no operation`);
+  }
+  return operation;
+};
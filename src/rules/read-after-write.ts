@@ -0,0 +1,108 @@
+import { analyzeDependency } from '../analyzer/data-flow.js';
+import type { ReachableOperation } from '../analyzer/call-graph.js';
+import type { IssueReason, PrismaOperation } from '../types.js';
+import type { Rule, RuleContext, RuleScope } from './index.js';
+
+const ERROR_REASONS: ReadonlySet<string> = new Set(['uses-write-result', 'shares-write-input']);
+
+/**
+ * Reads that may go to a replica after a write in the same function or in
+ * the functions it calls
+ */
+export const readAfterWrite: Rule = {
+  id: 'read-after-write',
+  description: 'Read may hit a lagging replica right after a write',
+  help: [
+    'With the Prisma read replicas extension, reads go to a replica by default. ' +
+      'A read that runs after a write in the same request can miss the write while ' +
+      'the replica catches up.',
+    '',
+    'Send the read to the primary with `$primary()`:',
+    '',
+    '```ts',
+    'await prisma.user.create({ data });',
+    'const users = await prisma.$primary().user.findMany({ where });',
+    '```',
+    '',
+    'Alternatively, run the write and the read in the same `$transaction`, ' +
+      'or use the record returned by the write instead of reading it again.',
+  ].join('\n'),
+  severity: 'error',
+
+  check: (scope, context) =>
+    findReadsAfterWrites(scope, context, isDefaultRoutedRead).map(({ write, read, reason }) => ({
+      severity: ERROR_REASONS.has(reason.code) ? 'error' : 'warning',
+      write,
+      read,
+      reason,
+      message: `Read operation on ${read.operation.model}.${read.operation.method}() may use replica immediately after write operation on ${write.operation.model}.${write.operation.method}(), potentially reading stale data. Consider using $primary() for the read operation.`,
+    })),
+};
+
+export interface ReadAfterWrite {
+  write: ReachableOperation;
+  read: ReachableOperation;
+  reason: IssueReason;
+}
+
+/**
+ * Pair each write with the reads that can run after it in the same
+ * function. Reads in a transaction (which uses the primary) are never
+ * paired; the rest are paired when `isCandidate` accepts them.
+ */
+export const findReadsAfterWrites = (
+  scope: RuleScope,
+  context: RuleContext,
+  isCandidate: (read: PrismaOperation) => boolean
+): ReadAfterWrite[] => {
+  const pairs: ReadAfterWrite[] = [];
+
+  for (const write of scope.operations) {
+    const writeOp = write.operation;
+    if (writeOp.type !== 'write') {
+      continue;
+    }
+
+    // Look for read operations that can run after this write in the same function
+    for (const read of scope.operations) {
+      const readOp = read.operation;
+      if (readOp.type !== 'read') {
+        continue;
+      }
+
+      // Skip if in transaction (always uses primary). Writes made in a
+      // transaction still reach replicas late once it commits.
+      if (readOp.inTransaction || !isCandidate(readOp)) {
+        continue;
+      }
+
+      // Only report pairs where some execution path runs the write first
+      if (!scope.canRunAfter(write, read)) {
+        continue;
+      }
+
+      // With a schema, models are known precisely and unrelated pairs are safe
+      if (context.schema && !sharesModel(writeOp, readOp)) {
+        continue;
+      }
+
+      // Data flowing from the write into the read makes a stale read an error;
+      // a shared model alone only warns
+      pairs.push({ write, read, reason: analyzeDependency(write, read) });
+    }
+  }
+
+  return pairs;
+};
+
+/**
+ * Reads that go to a replica because nothing routes them elsewhere.
+ * Explicit $replica() reads are left to replica-read-after-write.
+ */
+const isDefaultRoutedRead = (read: PrismaOperation): boolean => {
+  return !read.usesPrimary && !read.usesReplica;
+};
+
+export const sharesModel = (writeOp: PrismaOperation, readOp: PrismaOperation): boolean => {
+  return writeOp.models.some((model) => readOp.models.includes(model));
+};
@@ -0,0 +1,45 @@
+import { describe, expect, it } from 'vitest';
+import { analyzeSources } from '../test-utils.js';
+
+/** [ruleId, method of the read] of each issue */
+const analyze = (body: string) =>
+  analyzeSources({
+    'service.ts': `
+      import { prisma } from './client';
+      export async function run(id: number) {
+        ${body}
+      }
+    `,
+  }).issues.map((issue) => [issue.ruleId, issue.readOperation?.method]);
+
+describe('replica-in-transaction', () => {
+  it('reports $replica() reads inside a transaction callback', () => {
+    expect(
+      analyze(`
+        return prisma.$transaction(async (tx) => {
+          await tx.user.update({ where: { id }, data: {} });
+          return prisma.$replica().user.findUnique({ where: { id } });
+        });
+      `)
+    ).toEqual([['replica-in-transaction', 'findUnique']]);
+  });
+
+  it('reports $replica() reads in a batch transaction', () => {
+    expect(
+      analyze(`
+        return prisma.$transaction([
+          prisma.user.update({ where: { id }, data: {} }),
+          prisma.$replica().user.findMany(),
+        ]);
+      `)
+    ).toEqual([['replica-in-transaction', 'findMany']]);
+  });
+
+  it('leaves $replica() reads outside a transaction to the other rules', () => {
+    expect(
+      analyze(`
+        return prisma.$replica().user.findMany();
+      `)
+    ).toEqual([]);
+  });
+});
@@ -0,0 +1,44 @@
+import { getInvokedText } from '../utils/ast-utils.js';
+import type { Rule } from './index.js';
+
+/**
+ * Reads through $replica() inside a transaction, which leave it and may not
+ * see its writes
+ */
+export const replicaInTransaction: Rule = {
+  id: 'replica-in-transaction',
+  description: '$replica() read inside a transaction does not see its writes',
+  help: [
+    'A read through `$replica()` inside `prisma.$transaction(...)` does not take part ' +
+      'in the transaction. It runs on a replica, outside the transaction, and cannot see ' +
+      'the writes the transaction has not committed yet.',
+    '',
+    'Read through the transaction client instead:',
+    '',
+    '```ts',
+    'await prisma.$transaction(async (tx) => {',
+    '  await tx.user.update({ where, data });',
+    '  return tx.user.findUnique({ where });',
+    '});',
+    '```',
+  ].join('\n'),
+  severity: 'error',
+
+  // Writes through $replica() fail anyway and are left to replica-write
+  check: (scope) =>
+    scope.ownOperations
+      .filter(
+        ({ operation }) =>
+          operation.type === 'read' &&
+          operation.usesReplica &&
+          (operation.inTransaction || operation.inTransactionCallback)
+      )
+      .map((read) => ({
+        read,
+        reason: {
+          code: 'replica-in-transaction',
+          evidence: `${getInvokedText(read.node)} runs on a replica, outside the transaction`,
+        },
+        message: `Read operation ${read.operation.model}.${read.operation.method}() uses $replica() inside a transaction and does not see the transaction's writes`,
+      })),
+};
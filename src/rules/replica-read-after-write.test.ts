@@ -0,0 +1,49 @@
+import { describe, expect, it } from 'vitest';
+import { analyzeSources } from '../test-utils.js';
+
+/** [ruleId, write method, read method] of each issue */
+const analyze = (body: string) =>
+  analyzeSources({
+    'service.ts': `
+      import { prisma } from './client';
+      export async function run(id: number) {
+        ${body}
+      }
+    `,
+  }).issues.map((issue) => [
+    issue.ruleId,
+    issue.writeOperation?.method,
+    issue.readOperation?.method,
+  ]);
+
+describe('replica-read-after-write', () => {
+  it('reports $replica() reads after a write', () => {
+    expect(
+      analyze(`
+        await prisma.user.update({ where: { id }, data: {} });
+        return prisma.$replica().user.findUnique({ where: { id } });
+      `)
+    ).toEqual([['replica-read-after-write', 'update', 'findUnique']]);
+  });
+
+  it('does not report $replica() reads before any write', () => {
+    expect(
+      analyze(`
+        const user = await prisma.$replica().user.findUnique({ where: { id } });
+        await prisma.user.update({ where: { id }, data: {} });
+        return user;
+      `)
+    ).toEqual([]);
+  });
+
+  it('leaves $replica() reads in a transaction callback to replica-in-transaction', () => {
+    expect(
+      analyze(`
+        return prisma.$transaction(async (tx) => {
+          await tx.user.update({ where: { id }, data: {} });
+          return prisma.$replica().user.findUnique({ where: { id } });
+        });
+      `).map(([ruleId]) => ruleId)
+    ).toEqual(['replica-in-transaction']);
+  });
+});
@@ -0,0 +1,38 @@
+import type { Rule } from './index.js';
+import { findReadsAfterWrites } from './read-after-write.js';
+
+/**
+ * Reads explicitly sent to a replica after a write in the same function
+ */
+export const replicaReadAfterWrite: Rule = {
+  id: 'replica-read-after-write',
+  description: '$replica() read right after a write may miss the write',
+  help: [
+    'A read made through `$replica()` after a write in the same request asks for a ' +
+      'replica explicitly, so it can miss the write while the replica catches up.',
+    '',
+    'Drop `$replica()` and read from the primary with `$primary()`, or use the record ' +
+      'returned by the write:',
+    '',
+    '```ts',
+    'await prisma.user.update({ where, data });',
+    'const user = await prisma.$primary().user.findUnique({ where });',
+    '```',
+  ].join('\n'),
+  severity: 'error',
+
+  // Replica reads in a transaction callback are left to replica-in-transaction
+  check: (scope, context) =>
+    findReadsAfterWrites(
+      scope,
+      context,
+      (read) => read.usesReplica && !read.inTransactionCallback
+    ).map(
+      ({ write, read, reason }) => ({
+        write,
+        read,
+        reason,
+        message: `Read operation on ${read.operation.model}.${read.operation.method}() is sent through $replica() after write operation on ${write.operation.model}.${write.operation.method}(), potentially reading stale data. Use $primary() for the read operation.`,
+      })
+    ),
+};
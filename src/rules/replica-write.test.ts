@@ -0,0 +1,41 @@
+import { describe, expect, it } from 'vitest';
+import { analyzeSources } from '../test-utils.js';
+
+/** [ruleId, method] of each issue */
+const analyze = (body: string) =>
+  analyzeSources({
+    'service.ts': `
+      import { prisma } from './client';
+      export async function run(id: number) {
+        ${body}
+      }
+    `,
+  }).issues.map((issue) => [issue.ruleId, (issue.writeOperation ?? issue.readOperation)?.method]);
+
+describe('replica-write', () => {
+  it('reports writes sent through $replica()', () => {
+    expect(
+      analyze(`
+        await prisma.$replica().user.update({ where: { id }, data: {} });
+      `)
+    ).toEqual([['replica-write', 'update']]);
+  });
+
+  it('follows a replica client through an alias', () => {
+    expect(
+      analyze(`
+        const replica = prisma.$replica();
+        await replica.user.deleteMany({ where: { id } });
+      `)
+    ).toEqual([['replica-write', 'deleteMany']]);
+  });
+
+  it('leaves writes through the client or $primary() alone', () => {
+    expect(
+      analyze(`
+        await prisma.user.update({ where: { id }, data: {} });
+        await prisma.$primary().user.delete({ where: { id } });
+      `)
+    ).toEqual([]);
+  });
+});
@@ -0,0 +1,33 @@
+import { getInvokedText } from '../utils/ast-utils.js';
+import type { Rule } from './index.js';
+
+/**
+ * Writes sent through $replica(), which the read replicas extension rejects
+ */
+export const replicaWrite: Rule = {
+  id: 'replica-write',
+  description: 'Write is sent through $replica() and fails at runtime',
+  help: [
+    'The read replicas extension throws when a write is made through `$replica()`, ' +
+      'because replicas only accept reads. The call fails every time it runs.',
+    '',
+    'Make the write through the client itself, or through `$primary()`:',
+    '',
+    '```ts',
+    'await prisma.user.update({ where, data });',
+    '```',
+  ].join('\n'),
+  severity: 'error',
+
+  check: (scope) =>
+    scope.ownOperations
+      .filter(({ operation }) => operation.type === 'write' && operation.usesReplica)
+      .map((write) => ({
+        write,
+        reason: {
+          code: 'write-through-replica',
+          evidence: `${getInvokedText(write.node)} runs on a read replica`,
+        },
+        message: `Write operation ${write.operation.model}.${write.operation.method}() is sent through $replica() and will be rejected at runtime`,
+      })),
+};
@@ -0,0 +1,80 @@
+import { describe, expect, it } from 'vitest';
+import { analyzeSources } from '../test-utils.js';
+
+const CONFIG = { rules: { 'unnecessary-primary': 'warning' as const } };
+
+/** [function, priority] of each unnecessary-primary issue */
+const analyze = (service: string, options: { schema?: null; enabled?: boolean } = {}) =>
+  analyzeSources(
+    { 'service.ts': service },
+    { config: options.enabled === false ? {} : CONFIG, schema: options.schema }
+  )
+    .issues.filter((issue) => issue.ruleId === 'unnecessary-primary')
+    .map((issue) => [issue.callChain[0].functionName, issue.priority]);
+
+const LIST_USERS = `
+  import { prisma } from './client';
+  export async function listUsers() {
+    return prisma.$primary().user.findMany();
+  }
+`;
+
+describe('unnecessary-primary', () => {
+  it('reports a $primary() read no write precedes, by the call sites reaching it', () => {
+    expect(
+      analyze(`
+        ${LIST_USERS}
+        export async function index() {
+          await listUsers();
+          await listUsers();
+        }
+        export async function admin() {
+          return listUsers();
+        }
+      `)
+    ).toEqual([['listUsers', 3]]);
+  });
+
+  it('is off unless enabled', () => {
+    expect(analyze(LIST_USERS, { enabled: false })).toEqual([]);
+  });
+
+  it('does not report a read after a write in its function', () => {
+    expect(
+      analyze(`
+        import { prisma } from './client';
+        export async function signUp(email: string) {
+          await prisma.user.create({ data: { email } });
+          return prisma.$primary().user.findMany({ where: { email } });
+        }
+      `)
+    ).toEqual([]);
+  });
+
+  it('does not report a read a caller writes before, however distant', () => {
+    expect(
+      analyze(`
+        ${LIST_USERS}
+        async function viaHelper() {
+          return listUsers();
+        }
+        export async function signUp(email: string) {
+          await prisma.user.create({ data: { email } });
+          return viaHelper();
+        }
+      `)
+    ).toEqual([]);
+  });
+
+  it('counts only writes of a related model when the schema is known', () => {
+    const service = `
+      import { prisma } from './client';
+      export async function audit() {
+        await prisma.auditLog.create({ data: {} });
+        return prisma.$primary().user.findMany();
+      }
+    `;
+    expect(analyze(service)).toEqual([['audit', 0]]);
+    expect(analyze(service, { schema: null })).toEqual([]);
+  });
+});
@@ -0,0 +1,130 @@
+import type { FunctionSummary, ReachableOperation } from '../analyzer/call-graph.js';
+import type { OperationNode } from '../analyzer/operation-classifier.js';
+import type { Rule, RuleContext, RuleScope } from './index.js';
+import { sharesModel } from './read-after-write.js';
+
+/**
+ * Reads sent to the primary with no write before them, in their function or
+ * in any function that reaches them
+ */
+export const unnecessaryPrimary: Rule = {
+  id: 'unnecessary-primary',
+  description: '$primary() read has no write before it and could use a replica',
+  help: [
+    'Read replicas take load off the primary. A read through `$primary()` that no ' +
+      'write can precede, neither in its function nor in the functions that call it, ' +
+      'does not need the primary.',
+    '',
+    'Drop `$primary()` so the read goes to a replica:',
+    '',
+    '```ts',
+    'const users = await prisma.user.findMany({ where });',
+    '```',
+    '',
+    'Issues are ranked by how many call sites reach the read, so the hottest read ' +
+      'paths come first. Callers the call graph cannot see, such as framework ' +
+      'handlers, are not checked; make sure none of them writes first.',
+  ].join('\n'),
+  severity: 'warning',
+  optIn: true,
+  usesCallers: true,
+
+  check: (scope, context) =>
+    scope.ownOperations
+      // Reads declared by a contract are routed where the contract is
+      .filter(
+        ({ operation }) =>
+          operation.type === 'read' && operation.usesPrimary && !operation.declaredBy
+      )
+      .flatMap((read) => {
+        const reach = findWriteFreeReach(scope, read.node, context);
+        if (!reach) {
+          return [];
+        }
+
+        const { model, method } = read.operation;
+        const callers =
+          reach.callSites === 0
+            ? 'nowhere in the project'
+            : `${reach.callSites} call site(s) in ${reach.functions - 1} function(s), ` +
+              'none writing first';
+        return [
+          {
+            read,
+            priority: reach.callSites,
+            reason: {
+              code: 'no-write-before',
+              evidence: `no write runs before it; called from ${callers}`,
+            },
+            message: `Read operation ${model}.${method}() uses $primary() although no write can run before it, so a replica can serve it`,
+          },
+        ];
+      }),
+};
+
+interface Reach {
+  /** Calls that lead to the read */
+  callSites: number;
+  /** Functions that reach the read, including its own */
+  functions: number;
+}
+
+/**
+ * Walk up from the function of a read through the functions that call it,
+ * directly or not. Returns null as soon as one of them can run a write
+ * before the read.
+ */
+const findWriteFreeReach = (
+  scope: RuleScope,
+  node: OperationNode,
+  context: RuleContext
+): Reach | null => {
+  const visited = new Set<FunctionSummary>([scope.summary]);
+  const queue = [scope.summary];
+  let callSites = 0;
+  let functions = 0;
+
+  while (queue.length > 0) {
+    const summary = queue.shift()!;
+    const functionScope = context.getScope(summary);
+
+    // The depth limit can hide the read from distant callers
+    const reads = functionScope.operations.filter((operation) => operation.node === node);
+    if (reads.length === 0) {
+      continue;
+    }
+    if (reads.some((read) => hasWriteBefore(functionScope, read, context))) {
+      return null;
+    }
+    functions++;
+
+    const callers = context.callGraph.getCallers(summary);
+    callSites += callers.length;
+
+    for (const { caller } of callers) {
+      if (!visited.has(caller)) {
+        visited.add(caller);
+        queue.push(caller);
+      }
+    }
+  }
+
+  return { callSites, functions };
+};
+
+/**
+ * Whether a write that read-after-write would pair with the read, were it
+ * sent to a replica, can run before it
+ */
+const hasWriteBefore = (
+  scope: RuleScope,
+  read: ReachableOperation,
+  context: RuleContext
+): boolean => {
+  return scope.operations.some(
+    (write) =>
+      write.operation.type === 'write' &&
+      (!context.schema || sharesModel(write.operation, read.operation)) &&
+      scope.canRunAfter(write, read)
+  );
+};
@@ -0,0 +1,97 @@
+import { fileURLToPath } from 'node:url';
+import { Project } from 'ts-morph';
+import type { SourceFile } from 'ts-morph';
+import { createDetectionContext } from './analyzer/detection-context.js';
+import type { DetectionContext } from './analyzer/issue-detector.js';
+import { detectIssuesInFile } from './analyzer/issue-detector.js';
+import { detectPrismaClients } from './analyzer/prisma-detector.js';
+import { parseSchema } from './analyzer/schema-parser.js';
+import { analyze } from './index.js';
+import type { Rule } from './rules/index.js';
+import type { AnalysisResult, AnalyzerConfig, Issue } from './types.js';
+
+/** Root of the in-memory projects built by the tests */
+export const TEST_PROJECT_PATH = '/project';
+
+/** A client with the read replica extension, importable as './client' */
+export const CLIENT_SOURCE = `
+import { PrismaClient } from '@prisma/client';
+import { readReplicas } from '@prisma/extension-read-replicas';
+
+export const prisma = new PrismaClient().$extends(readReplicas({ url: 'postgresql://replica' }));
+`;
+
+export const SCHEMA_SOURCE = `
+model User {
+  id    Int    @id
+  email String
+  posts Post[]
+}
+
+model Post {
+  id       Int  @id
+  authorId Int
+  author   User @relation(fields: [authorId], references: [id], onDelete: Cascade)
+}
+
+model AuditLog {
+  id Int @id
+}
+`;
+
+export interface TestAnalysis {
+  project: Project;
+  context: DetectionContext;
+  /** Issues of every file, in the order the files were given */
+  issues: Issue[];
+  getSourceFile: (name: string) => SourceFile;
+}
+
+/**
+ * Analyze source files in an in-memory project, like the pipeline does
+ * without the cache, suppressions and baseline. File names are relative
+ * to TEST_PROJECT_PATH; client.ts holds CLIENT_SOURCE unless given.
+ */
+export const analyzeSources = (
+  files: Record<string, string>,
+  options: { config?: AnalyzerConfig; schema?: string | null; rules?: Rule[] } = {}
+): TestAnalysis => {
+  const project = new Project({
+    useInMemoryFileSystem: true,
+    compilerOptions: { strict: true, target: 99, module: 99 },
+  });
+  const sourceFiles = Object.entries({ 'client.ts': CLIENT_SOURCE, ...files }).map(
+    ([name, text]) => project.createSourceFile(`${TEST_PROJECT_PATH}/${name}`, text)
+  );
+
+  const schema = options.schema === null ? null : parseSchema(options.schema ?? SCHEMA_SOURCE);
+  const context = createDetectionContext({
+    projectPath: TEST_PROJECT_PATH,
+    prismaInstances: detectPrismaClients(sourceFiles),
+    schema,
+    config: options.config ?? {},
+    maxDepth: options.config?.maxDepth,
+    rules: options.rules,
+  });
+
+  return {
+    project,
+    context,
+    issues: sourceFiles.flatMap((sourceFile) => detectIssuesInFile(sourceFile, context)),
+    getSourceFile: (name) => project.getSourceFileOrThrow(`${TEST_PROJECT_PATH}/${name}`),
+  };
+};
+
+/** A small project on disk whose result the reporter specs render */
+export const REPORTER_FIXTURE_PATH = fileURLToPath(
+  new URL('../tests/fixtures/reporters', import.meta.url)
+);
+
+/**
+ * Analyze the reporter fixture without the cache. The execution time is
+ * fixed so reports can be compared.
+ */
+export const analyzeReporterFixture = async (): Promise<AnalysisResult> => {
+  const result = await analyze({ projectPath: REPORTER_FIXTURE_PATH, cache: false });
+  return { ...result, summary: { ...result.summary, executionTime: '0.01s' } };
+};
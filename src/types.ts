@@ -2,6 +2,8 @@
  * Type definitions for the Prisma read-after-write analyzer
  */
 
+import type { Rule } from './rules/index.js';
+
 export type PrismaOperationType = 'read' | 'write';
 
 export type PrismaReadMethod =
@@ -12,7 +14,12 @@ export type PrismaReadMethod =
   | 'findUniqueOrThrow'
   | 'count'
   | 'aggregate'
-  | 'groupBy';
+  | 'groupBy'
+  | 'findRaw'
+  | 'aggregateRaw'
+  | '$queryRaw'
+  | '$queryRawUnsafe'
+  | '$queryRawTyped';
 
 export type PrismaWriteMethod =
   | 'create'
@@ -21,7 +28,11 @@ export type PrismaWriteMethod =
   | 'updateMany'
   | 'upsert'
   | 'delete'
-  | 'deleteMany';
+  | 'deleteMany'
+  | 'createManyAndReturn'
+  | 'updateManyAndReturn'
+  | '$executeRaw'
+  | '$executeRawUnsafe';
 
 export type PrismaMethod = PrismaReadMethod | PrismaWriteMethod;
 
@@ -29,16 +40,26 @@ export interface SourceLocation {
   file: string;
   line: number;
   column: number;
+  /** Last line of an operation whose call spans several lines */
+  endLine?: number;
 }
 
 export interface PrismaOperation {
   type: PrismaOperationType;
+  /** Custom methods declared in the config are reported by their own name */
   method: PrismaMethod;
   model: string;
+  /** Every model written (writes) or observed (reads), including relations */
+  models: string[];
   location: SourceLocation;
   usesReplica: boolean;
   usesPrimary: boolean;
+  /** Runs in a transaction: through its client, or as part of a batch */
   inTransaction: boolean;
+  /** Written inside a $transaction callback, whichever client it goes through */
+  inTransactionCallback: boolean;
+  /** Set for operations declared by the contract of the called function, to its name */
+  declaredBy?: string;
 }
 
 export interface CallChainEntry {
@@ -47,27 +68,242 @@ export interface CallChainEntry {
   line: number;
 }
 
+export type IssueReasonCode =
+  | 'uses-write-result'
+  | 'shares-write-input'
+  | 'same-model'
+  | 'related-model'
+  | 'unrelated-model';
+
+export interface IssueReason {
+  /** One of IssueReasonCode for the read-after-write rule; other rules have their own */
+  code: string;
+  /** Human-readable description of what links the read to the write */
+  evidence: string;
+}
+
 export interface Issue {
-  type: 'read-after-write';
+  /**
+   * Stable ID: the start of the fingerprint, with -2, -3... appended for
+   * issues of the same file that share it
+   */
+  id: string;
+  /** The rule that reported the issue, e.g. "read-after-write" */
+  ruleId: string;
+  /**
+   * Same as ruleId, kept for consumers of 0.1 output
+   * @deprecated Use ruleId
+   */
+  type: string;
   severity: 'error' | 'warning';
-  writeOperation: PrismaOperation;
-  readOperation: PrismaOperation;
-  callChain: string[];
+  /**
+   * The operations the issue is about. Issues about a pair have both, and
+   * are reported at the read; issues about one operation have only that one.
+   */
+  writeOperation?: PrismaOperation;
+  readOperation?: PrismaOperation;
+  /** Frames from the enclosing function to the write, then to the read */
+  callChain: CallChainEntry[];
+  reason: IssueReason;
   message: string;
+  /** Set by rules that rank their issues; higher ones are listed first */
+  priority?: number;
+  /** Stable across line shifts: project-relative file, function, models, methods and code */
+  fingerprint: string;
+}
+
+export interface Suppression {
+  /** `next-line` silences issues on the following line, `file` the whole file */
+  kind: 'next-line' | 'file';
+  /** Location of the comment */
+  location: SourceLocation;
+  /** Justification written after the directive, if any */
+  reason?: string;
+}
+
+export interface SuppressedIssue extends Issue {
+  suppression: Suppression;
+}
+
+export interface BaselineEntry {
+  fingerprint: string;
+  /** The fields below only help readers of the baseline file */
+  ruleId?: string;
+  file: string;
+  functionName: string;
+  write?: string;
+  read?: string;
+}
+
+export interface BaselineComparison {
+  /** Baseline file the issues were compared with */
+  path: string;
+  /** Issues already in the baseline, which do not fail the analysis */
+  known: Issue[];
+  /** Baseline entries that no longer match an issue and can be removed */
+  fixed: BaselineEntry[];
+}
+
+export interface ContractWarning {
+  functionName: string;
+  /** Location of the contract's first tag */
+  location: SourceLocation;
+  message: string;
+}
+
+export interface UnfixableIssue {
+  issue: Issue;
+  /** Why the read could not be rewritten to use $primary() */
+  reason: string;
+}
+
+export interface FixResult {
+  /** False for a dry run */
+  applied: boolean;
+  /** Issues whose read now goes through $primary() */
+  fixed: Issue[];
+  unfixable: UnfixableIssue[];
+  /** Files that were (or, in a dry run, would be) changed */
+  files: string[];
+  /** Unified diff of the changes */
+  diff: string;
 }
 
 export interface AnalysisResult {
   summary: {
+    /** Issues that were not suppressed */
     totalIssues: number;
+    suppressedIssues: number;
     filesAnalyzed: number;
     executionTime: string;
+    /** Files whose issues were reused from the cache, and files analyzed again */
+    cache?: CacheStats;
+    /** Set when issues are limited to the lines changed since a git ref */
+    scope?: {
+      changedSince: string;
+      changedFiles: number;
+      /** Issues in the whole project, before limiting them to the changes */
+      totalIssues: number;
+    };
+    /** Breakdown for projects made of several tsconfigs */
+    packages?: PackageSummary[];
+    /** Issues per file of the function they are reported in, most first */
+    byFile: IssueCount[];
+    /** Issues per model of the operation they are reported at, most first */
+    byModel: IssueCount[];
   };
+  /** The rules that ran */
+  rules: RuleDescription[];
   issues: Issue[];
+  /** The issues that share a write, e.g. one write followed by several reads */
+  groups: IssueGroup[];
+  suppressed: SuppressedIssue[];
+  /** Suppression comments that no longer match any issue */
+  unusedSuppressions: Suppression[];
+  /** Contracts that disagree with the body of their function */
+  contractWarnings: ContractWarning[];
+  /** Present when a baseline was given; `issues` then only holds new issues */
+  baseline?: BaselineComparison;
+  /** Present when fixes were requested */
+  fixes?: FixResult;
+}
+
+export interface RuleDescription {
+  id: string;
+  description: string;
+  /** How to fix what the rule reports, in Markdown */
+  help?: string;
+  /** Set in the config, or the rule's own */
+  severity: Issue['severity'];
+}
+
+export interface PackageSummary {
+  name: string;
+  /** Relative to the project path */
+  tsconfig: string;
+  filesAnalyzed: number;
+  totalIssues: number;
+}
+
+export interface IssueCount {
+  /** Project-relative path of a file, or a model */
+  name: string;
+  issues: number;
+}
+
+export interface IssueGroup {
+  write: PrismaOperation;
+  /** The reads the write affects, in the order of their issues */
+  reads: PrismaOperation[];
+  /** IDs of the issues of the write */
+  issues: string[];
+  /** The most severe severity of its issues */
+  severity: Issue['severity'];
+}
+
+export interface CacheStats {
+  hits: number;
+  misses: number;
 }
 
 export interface AnalyzerOptions {
   projectPath: string;
+  /** TypeScript configs to analyze; otherwise found in the project and its workspaces */
+  tsconfigPaths?: string[];
+  /** Explicit config file; otherwise one is looked up next to tsconfig.json */
+  configPath?: string;
+  /** Baseline of known issues, written with --write-baseline */
+  baselinePath?: string;
+  /** Rewrite flagged reads to use $primary(), or only compute the diff */
+  fix?: 'write' | 'dry-run';
+  /** Only report issues whose write, read or call chain is on a line changed since this git ref */
+  changedSince?: string;
+  /** Reuse the issues of unchanged files from .prisma-raw-cache/ (default: true) */
+  cache?: boolean;
+  /** Rules to run next to the built-in ones and those of the config's rule modules */
+  rules?: Rule[];
+  /** Options set here take precedence over the config file */
   includePatterns?: string[];
   excludePatterns?: string[];
   maxDepth?: number;
 }
+
+export type SeverityOverride = Issue['severity'] | 'off';
+
+/**
+ * Project configuration, loaded from prisma-raw.config.{json,ts,mjs} or the
+ * "prismaRaw" key of package.json
+ */
+export interface AnalyzerConfig {
+  include?: string[];
+  exclude?: string[];
+  maxDepth?: number;
+  /**
+   * Severity overrides of write/read pairs, keyed by model (e.g. "User")
+   * or method name. "off" drops matching pairs.
+   */
+  severity?: {
+    models?: Record<string, SeverityOverride>;
+    methods?: Record<string, SeverityOverride>;
+  };
+  /** Additional model methods, e.g. helpers added with $extends */
+  methods?: {
+    read?: string[];
+    write?: string[];
+  };
+  /** Functions whose callbacks and returned clients always use the primary */
+  primaryWrappers?: string[];
+  /** Models whose operations are left out of the analysis */
+  ignoreModels?: string[];
+  /**
+   * Severity by rule ID, e.g. { "read-after-write": "warning" }. A severity
+   * turns on opt-in rules and applies to issues the rule does not grade;
+   * "warning" also lowers its errors. "off" turns a rule off.
+   */
+  rules?: Record<string, SeverityOverride>;
+  /**
+   * Modules whose default export is a rule or an array of rules, as paths
+   * relative to the config file or package names
+   */
+  ruleModules?: string[];
+}
@@ -0,0 +1,42 @@
+import type { CallExpression, Node, TaggedTemplateExpression } from 'ts-morph';
+import { SyntaxKind } from 'ts-morph';
+
+/**
+ * Strip syntax that does not change the value, e.g. (await prisma) as any
+ */
+export const unwrapExpression = (node: Node): Node => {
+  let current = node;
+  while (
+    current.isKind(SyntaxKind.ParenthesizedExpression) ||
+    current.isKind(SyntaxKind.AwaitExpression) ||
+    current.isKind(SyntaxKind.AsExpression) ||
+    current.isKind(SyntaxKind.NonNullExpression) ||
+    current.isKind(SyntaxKind.SatisfiesExpression)
+  ) {
+    current = current.getExpression();
+  }
+  return current;
+};
+
+/**
+ * Get the declarations a reference points to, following import aliases
+ */
+export const getTargetDeclarations = (node: Node): Node[] => {
+  const symbol = node.getSymbol();
+  if (!symbol) {
+    return [];
+  }
+  const target = symbol.isAlias() ? (symbol.getAliasedSymbol() ?? symbol) : symbol;
+  return target.getDeclarations();
+};
+
+/**
+ * Source text of what a call or tagged template invokes, on one line,
+ * e.g. prisma.$replica().user.create
+ */
+export const getInvokedText = (node: CallExpression | TaggedTemplateExpression): string => {
+  const invoked = node.isKind(SyntaxKind.TaggedTemplateExpression)
+    ? node.getTag()
+    : node.getExpression();
+  return invoked.getText().replace(/\s+/g, '');
+};
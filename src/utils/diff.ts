@@ -0,0 +1,145 @@
+interface LineEdit {
+  type: 'equal' | 'delete' | 'insert';
+  line: string;
+}
+
+/** Lines of unchanged context around each hunk */
+const CONTEXT_LINES = 3;
+
+/**
+ * Create a unified diff between two versions of a file. Returns an empty
+ * string when they are identical.
+ */
+export const createUnifiedDiff = (path: string, before: string, after: string): string => {
+  if (before === after) {
+    return '';
+  }
+
+  const edits = diffLines(before.split('\n'), after.split('\n'));
+  const hunks: string[] = [];
+
+  let index = 0;
+  while (index < edits.length) {
+    // Find the next change and take the context before it
+    while (index < edits.length && edits[index].type === 'equal') {
+      index++;
+    }
+    if (index >= edits.length) {
+      break;
+    }
+
+    const start = Math.max(0, index - CONTEXT_LINES);
+    let end = index;
+
+    // Extend the hunk while changes are close enough to share context
+    let lastChange = index;
+    while (end < edits.length) {
+      if (edits[end].type !== 'equal') {
+        lastChange = end;
+      } else if (end - lastChange > CONTEXT_LINES * 2) {
+        break;
+      }
+      end++;
+    }
+    end = Math.min(edits.length, lastChange + CONTEXT_LINES + 1);
+
+    hunks.push(formatHunk(edits, start, end));
+    index = end;
+  }
+
+  return [`--- a/${path}`, `+++ b/${path}`, ...hunks].join('\n') + '\n';
+};
+
+const formatHunk = (edits: LineEdit[], start: number, end: number): string => {
+  // Line numbers before the hunk, counted per side
+  let oldStart = 1;
+  let newStart = 1;
+  for (const edit of edits.slice(0, start)) {
+    if (edit.type !== 'insert') {
+      oldStart++;
+    }
+    if (edit.type !== 'delete') {
+      newStart++;
+    }
+  }
+
+  const lines: string[] = [];
+  let oldCount = 0;
+  let newCount = 0;
+  for (const edit of edits.slice(start, end)) {
+    if (edit.type === 'equal') {
+      lines.push(` ${edit.line}`);
+      oldCount++;
+      newCount++;
+    } else if (edit.type === 'delete') {
+      lines.push(`-${edit.line}`);
+      oldCount++;
+    } else {
+      lines.push(`+${edit.line}`);
+      newCount++;
+    }
+  }
+
+  // Empty ranges start at the line before them
+  const oldRange = `${oldCount === 0 ? oldStart - 1 : oldStart},${oldCount}`;
+  const newRange = `${newCount === 0 ? newStart - 1 : newStart},${newCount}`;
+  return [`@@ -${oldRange} +${newRange} @@`, ...lines].join('\n');
+};
+
+/**
+ * Shortest line edit script between two texts (Myers' algorithm)
+ */
+const diffLines = (a: string[], b: string[]): LineEdit[] => {
+  const max = a.length + b.length;
+  const offset = max + 1;
+  const v = new Int32Array(2 * max + 3);
+  const trace: Int32Array[] = [];
+
+  let found = false;
+  for (let d = 0; d <= max && !found; d++) {
+    trace.push(v.slice());
+    for (let k = -d; k <= d; k += 2) {
+      let x =
+        k === -d || (k !== d && v[offset + k - 1] < v[offset + k + 1])
+          ? v[offset + k + 1]
+          : v[offset + k - 1] + 1;
+      let y = x - k;
+      while (x < a.length && y < b.length && a[x] === b[y]) {
+        x++;
+        y++;
+      }
+      v[offset + k] = x;
+      if (x >= a.length && y >= b.length) {
+        found = true;
+        break;
+      }
+    }
+  }
+
+  // Walk the trace back from the end to recover the edits
+  const edits: LineEdit[] = [];
+  let x = a.length;
+  let y = b.length;
+  for (let d = trace.length - 1; d >= 0; d--) {
+    const previous = trace[d];
+    const k = x - y;
+    const previousK =
+      k === -d || (k !== d && previous[offset + k - 1] < previous[offset + k + 1]) ? k + 1 : k - 1;
+    const previousX = previous[offset + previousK];
+    const previousY = previousX - previousK;
+
+    while (x > previousX && y > previousY) {
+      edits.push({ type: 'equal', line: a[--x] });
+      y--;
+    }
+    if (d > 0) {
+      if (x === previousX) {
+        edits.push({ type: 'insert', line: b[--y] });
+      } else {
+        edits.push({ type: 'delete', line: a[--x] });
+      }
+    }
+  }
+
+  return edits.reverse();
+};
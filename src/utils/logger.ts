@@ -1,12 +1,15 @@
 import chalk from 'chalk';
 
+/**
+ * Logs go to stderr so reports written to stdout stay machine-readable
+ */
 export const logger = {
   info: (message: string): void => {
-    console.log(chalk.blue('ℹ'), message);
+    console.error(chalk.blue('ℹ'), message);
   },
 
   success: (message: string): void => {
-    console.log(chalk.green('✓'), message);
+    console.error(chalk.green('✓'), message);
   },
 
   error: (message: string): void => {
@@ -14,12 +17,12 @@ export const logger = {
   },
 
   warning: (message: string): void => {
-    console.warn(chalk.yellow('⚠'), message);
+    console.error(chalk.yellow('⚠'), message);
   },
 
   debug: (message: string): void => {
     if (process.env.DEBUG) {
-      console.log(chalk.gray('🔍'), message);
+      console.error(chalk.gray('🔍'), message);
     }
   },
 };
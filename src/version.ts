@@ -0,0 +1,2 @@
+/** Version of the analyzer, reported by the CLI and in generated reports */
+export const ANALYZER_VERSION = '0.2.0';
@@ -0,0 +1,53 @@
+import { describe, expect, it } from 'vitest';
+import { analyzeSources } from './test-utils.js';
+import type { Issue } from './types.js';
+import { diffIssues } from './watch.js';
+
+const SERVICE = `
+  import { prisma } from './client';
+  export async function signUp(email: string) {
+    await prisma.user.create({ data: { email } });
+    return prisma.user.findMany({ where: { email } });
+  }
+  export async function rename(id: number, email: string) {
+    await prisma.user.update({ where: { id }, data: { email } });
+    return prisma.user.findFirst({ where: { email } });
+  }
+`;
+
+const analyze = (source: string): Issue[] => analyzeSources({ 'service.ts': source }).issues;
+
+const names = (issues: Issue[]): string[] => issues.map((issue) => issue.callChain[0].functionName);
+
+describe('diffIssues', () => {
+  it('reports every issue of the first pass as added', () => {
+    expect(diffIssues([], analyze(SERVICE))).toEqual({
+      added: analyze(SERVICE),
+      resolved: [],
+    });
+  });
+
+  it('keeps issues whose code only moved', () => {
+    const moved = analyze(`\n\n// Added above\n${SERVICE}`);
+    expect(moved[0].readOperation?.location.line).not.toBe(
+      analyze(SERVICE)[0].readOperation?.location.line
+    );
+    expect(diffIssues(analyze(SERVICE), moved)).toEqual({ added: [], resolved: [] });
+  });
+
+  it('lists fixed and new issues by their function', () => {
+    const changed = SERVICE.replace('function rename', 'function changeEmail').replace(
+      'return prisma.user.findMany',
+      'return prisma.$primary().user.findMany'
+    );
+    const { added, resolved } = diffIssues(analyze(SERVICE), analyze(changed));
+    expect([names(added), names(resolved)]).toEqual([['changeEmail'], ['signUp', 'rename']]);
+  });
+
+  it('matches issues with the same fingerprint one to one', () => {
+    const [issue] = analyze(SERVICE);
+    const { added, resolved } = diffIssues([issue], [issue, { ...issue }]);
+    expect([added.length, resolved.length]).toEqual([1, 0]);
+    expect(diffIssues([issue, { ...issue }], [issue]).resolved).toHaveLength(1);
+  });
+});
@@ -0,0 +1,231 @@
+import type { Dirent, FSWatcher } from 'node:fs';
+import { readdirSync, watch } from 'node:fs';
+import { extname, join, resolve, sep } from 'node:path';
+import type { Project } from 'ts-morph';
+import { FileSystemRefreshResult } from 'ts-morph';
+import { toProjectRelativePath } from './analyzer/fingerprint.js';
+import { findSchemaPath } from './analyzer/schema-parser.js';
+import { CACHE_DIRECTORY } from './cache.js';
+import { CONFIG_FILE_NAMES } from './config.js';
+import type { AnalysisSetup } from './pipeline.js';
+import { analyzeProject, createProject, prepareAnalysis } from './pipeline.js';
+import type { LoadedProject } from './projects.js';
+import { TSCONFIG_FILE_NAMES } from './projects.js';
+import type { AnalysisResult, AnalyzerOptions, Issue } from './types.js';
+import { isDirectory, pathExists } from './utils/file-utils.js';
+import { logger } from './utils/logger.js';
+
+/** Wait for saves to settle before analyzing again */
+const WATCH_DELAY_MS = 200;
+
+const SOURCE_EXTENSIONS = new Set(['.ts', '.tsx', '.mts', '.cts', '.js', '.jsx', '.mjs', '.cjs']);
+const IGNORED_DIRECTORIES = new Set(['node_modules', '.git', CACHE_DIRECTORY]);
+
+export interface IssueChanges {
+  /** Issues that were not reported by the previous pass */
+  added: Issue[];
+  /** Issues of the previous pass that are gone */
+  resolved: Issue[];
+}
+
+export interface WatchHandlers {
+  /** Called after every pass; the first pass reports every issue as added */
+  onResult: (result: AnalysisResult, changes: IssueChanges) => void;
+  onError: (error: unknown) => void;
+}
+
+export interface ProjectWatcher {
+  close: () => void;
+}
+
+/**
+ * Analyze a project, then again whenever its files change. Changed source
+ * files are refreshed in the same project; a change to a tsconfig, the
+ * config, the workspace or the schema, or a new source file, reloads it.
+ */
+export const watchProject = async (
+  explicitOptions: AnalyzerOptions,
+  handlers: WatchHandlers
+): Promise<ProjectWatcher> => {
+  const projectPath = resolve(explicitOptions.projectPath);
+  let setup = await prepareAnalysis(explicitOptions);
+  let loaded = createProject(setup.options);
+  let previousIssues: Issue[] = [];
+  // Sources that tsconfig.json leaves out, so saving them does not reload
+  const outsideProject = new Set<string>();
+
+  const runPass = (): void => {
+    const result = analyzeProject(loaded, setup);
+    const changes = diffIssues(previousIssues, result.issues);
+    previousIssues = result.issues;
+    handlers.onResult(result, changes);
+  };
+
+  const processChanges = async (paths: string[]): Promise<void> => {
+    const reloadReason =
+      paths.find((path) => isProjectSetting(path, projectPath, setup, loaded)) ??
+      paths.find((path) => !outsideProject.has(path) && isNewSourceFile(path, loaded.project));
+
+    if (reloadReason) {
+      const changedFile = toProjectRelativePath(projectPath, reloadReason);
+      logger.info(`Reloading the project: ${changedFile} changed`);
+      setup = await prepareAnalysis(explicitOptions);
+      loaded = createProject(setup.options);
+
+      outsideProject.clear();
+      for (const path of paths) {
+        if (!loaded.project.getSourceFile(path)) {
+          outsideProject.add(path);
+        }
+      }
+      runPass();
+      return;
+    }
+
+    let changed = false;
+    for (const path of paths) {
+      const sourceFile = loaded.project.getSourceFile(path);
+      if (sourceFile && sourceFile.refreshFromFileSystemSync() !== FileSystemRefreshResult.NoChange) {
+        changed = true;
+      }
+    }
+    if (changed) {
+      runPass();
+    }
+  };
+
+  runPass();
+
+  // Passes run one at a time; changes during a pass wait for the next one
+  const pending = new Set<string>();
+  let queue = Promise.resolve();
+  let timer: NodeJS.Timeout | undefined;
+
+  const flush = (): void => {
+    const paths = [...pending];
+    pending.clear();
+    queue = queue.then(() => processChanges(paths)).catch(handlers.onError);
+  };
+
+  const closeWatchers = watchDirectories(projectPath, (path) => {
+    pending.add(path);
+    clearTimeout(timer);
+    timer = setTimeout(flush, WATCH_DELAY_MS);
+  });
+
+  return {
+    close: () => {
+      clearTimeout(timer);
+      closeWatchers();
+    },
+  };
+};
+
+/**
+ * Watch every directory of a tree except the ignored ones, which are never
+ * walked, so node_modules costs no watchers. Directories created later are
+ * watched as they appear, and the files already in them count as changed.
+ * Returns a function closing every watcher.
+ */
+const watchDirectories = (root: string, onChange: (path: string) => void): (() => void) => {
+  const watchers = new Map<string, FSWatcher>();
+
+  const add = (directory: string, isNew: boolean): void => {
+    if (watchers.has(directory)) {
+      return;
+    }
+
+    let entries: Dirent[];
+    let watcher: FSWatcher;
+    try {
+      entries = readdirSync(directory, { withFileTypes: true });
+      watcher = watch(directory, (_event, filename) => {
+        if (!filename || IGNORED_DIRECTORIES.has(filename.toString())) {
+          return;
+        }
+        const path = join(directory, filename.toString());
+        if (isDirectory(path)) {
+          add(path, true);
+        }
+        onChange(path);
+      });
+    } catch {
+      // Removed before it could be watched
+      return;
+    }
+    // A removed directory can no longer be watched
+    watcher.on('error', () => {
+      watcher.close();
+      watchers.delete(directory);
+    });
+    watchers.set(directory, watcher);
+
+    for (const entry of entries) {
+      const path = join(directory, entry.name);
+      if (entry.isDirectory() && !IGNORED_DIRECTORIES.has(entry.name)) {
+        add(path, isNew);
+      } else if (isNew && entry.isFile()) {
+        onChange(path);
+      }
+    }
+  };
+
+  add(root, false);
+  return () => {
+    for (const watcher of watchers.values()) {
+      watcher.close();
+    }
+    watchers.clear();
+  };
+};
+
+/**
+ * Match the issues of two passes by fingerprint, so issues that only moved
+ * are not reported again
+ */
+export const diffIssues = (previous: Issue[], current: Issue[]): IssueChanges => {
+  const remaining = new Map<string, Issue[]>();
+  for (const issue of previous) {
+    const matches = remaining.get(issue.fingerprint) ?? [];
+    matches.push(issue);
+    remaining.set(issue.fingerprint, matches);
+  }
+
+  const added = current.filter((issue) => !remaining.get(issue.fingerprint)?.shift());
+  return { added, resolved: [...remaining.values()].flat() };
+};
+
+/**
+ * Files that decide which sources are analyzed and how
+ */
+const isProjectSetting = (
+  path: string,
+  projectPath: string,
+  setup: AnalysisSetup,
+  loaded: LoadedProject
+): boolean => {
+  if (
+    loaded.settingFiles.includes(path) ||
+    [...TSCONFIG_FILE_NAMES, ...CONFIG_FILE_NAMES].some((name) => path === join(projectPath, name)) ||
+    (setup.configPath !== null && path === resolve(setup.configPath))
+  ) {
+    return true;
+  }
+
+  // The schema can be a single file or a directory of .prisma files
+  const schemaPath = findSchemaPath(projectPath);
+  return schemaPath !== null && (path === schemaPath || path.startsWith(`${schemaPath}${sep}`));
+};
+
+/**
+ * A source file that is not in the project yet; whether it belongs there
+ * is up to tsconfig.json
+ */
+const isNewSourceFile = (path: string, project: Project): boolean => {
+  return (
+    SOURCE_EXTENSIONS.has(extname(path)) &&
+    !path.endsWith('.d.ts') &&
+    !project.getSourceFile(path) &&
+    pathExists(path)
+  );
+};
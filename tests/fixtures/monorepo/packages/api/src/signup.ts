@@ -0,0 +1,7 @@
+import { createUser, findUserByEmail } from '../../db/src/users';
+
+// ❌ Issue: the write and the read are in another package
+export async function signUp(email: string) {
+  await createUser(email);
+  return await findUserByEmail(email);
+}
@@ -0,0 +1,8 @@
+import { PrismaClient } from '@prisma/client';
+import { readReplicas } from '@prisma/extension-read-replicas';
+
+export const prisma = new PrismaClient().$extends(
+  readReplicas({
+    url: 'postgresql://replica.example.com:5432/db',
+  })
+);
@@ -0,0 +1,13 @@
+import { prisma } from './client';
+
+export async function createUser(email: string) {
+  return await prisma.user.create({
+    data: { email },
+  });
+}
+
+export async function findUserByEmail(email: string) {
+  return await prisma.user.findUnique({
+    where: { email },
+  });
+}
@@ -0,0 +1,7 @@
+import { prisma } from '../../db/src/client';
+
+// Excluded with --exclude '**/*.test.ts'
+export async function resetUser(id: number) {
+  await prisma.user.update({ where: { id }, data: { name: null } });
+  return await prisma.user.findUnique({ where: { id } });
+}
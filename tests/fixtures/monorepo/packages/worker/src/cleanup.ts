@@ -0,0 +1,7 @@
+import { prisma } from '@db/client';
+
+// ❌ Issue: the deleted user's orders are removed by the cascade
+export async function removeUser(id: number) {
+  await prisma.user.delete({ where: { id } });
+  return await prisma.order.count({ where: { userId: id } });
+}
@@ -0,0 +1,20 @@
+import { prisma } from './client';
+
+// ❌ Issues: both reads may hit the replica after the write
+export async function signUp(email: string) {
+  await prisma.user.create({ data: { email } });
+  const user = await prisma.user.findFirst({ where: { email } });
+  const total = await prisma.user.count();
+  return { user, total };
+}
+
+// ❌ Issue: a write through the replica
+export async function removeUser(id: number) {
+  await prisma.$replica().user.delete({ where: { id } });
+}
+
+export async function rename(id: number, name: string) {
+  await prisma.user.update({ where: { id }, data: { name } });
+  // prisma-raw-ignore-next-line: the report tolerates replica lag
+  return prisma.user.findMany({ where: { name } });
+}
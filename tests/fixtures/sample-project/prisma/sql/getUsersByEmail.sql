@@ -0,0 +1,2 @@
+-- @param {String} $1:email
+SELECT id, name, email FROM "users" WHERE email = $1
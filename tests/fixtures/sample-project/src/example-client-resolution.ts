@@ -0,0 +1,39 @@
+import { PrismaClient } from '@prisma/client';
+import { prisma } from './client';
+
+// A client without the read replica extension always reads from the primary
+const plainPrisma = new PrismaClient();
+
+// ❌ Issue: Operations through an injected client field
+class UserService {
+  private readonly prisma = prisma;
+
+  async rename(id: number, name: string) {
+    await this.prisma.user.update({ where: { id }, data: { name } });
+    return await this.prisma.user.findUnique({ where: { id } });
+  }
+}
+
+// ❌ Issue: Operations through delegate aliases
+async function createThroughAlias(email: string) {
+  const users = prisma.user;
+  const { post } = prisma;
+
+  await users.create({ data: { name: 'Judy', email } });
+  return await post.findMany({ where: { author: { email } }, include: { author: true } });
+}
+
+// ✅ OK: In-memory repositories and lodash-style chains are not Prisma calls
+const memory = { user: { create: (value: unknown) => value, findMany: () => [] } };
+async function inMemory() {
+  memory.user.create({ name: 'Mallory' });
+  return memory.user.findMany();
+}
+
+// ✅ OK: The plain client is never routed to a replica
+async function plainClient(email: string) {
+  await plainPrisma.user.create({ data: { name: 'Niaj', email } });
+  return await plainPrisma.user.findMany({ where: { email } });
+}
+
+export { UserService, createThroughAlias, inMemory, plainClient };
@@ -0,0 +1,30 @@
+import { prisma } from './client';
+
+// Runs the callback against the primary, e.g. through AsyncLocalStorage
+declare function withPrimary<T>(callback: () => Promise<T>): Promise<T>;
+
+// ❌ Issue: softDelete and findActive are custom methods from the config
+async function archiveUser(id: number) {
+  await prisma.user.softDelete({ where: { id } });
+  return await prisma.user.findActive({ where: { id } });
+}
+
+// ✅ OK: withPrimary is configured as a primary wrapper
+async function archiveUserOnPrimary(id: number) {
+  await prisma.user.softDelete({ where: { id } });
+  return await withPrimary(() => prisma.user.findActive({ where: { id } }));
+}
+
+// ✅ OK: AuditLog is ignored in the config
+async function recordAndListAudits(action: string) {
+  await prisma.auditLog.create({ data: { action } });
+  return await prisma.auditLog.findMany({ where: { action } });
+}
+
+// ⚠️ Warning: Product issues are downgraded in the config
+async function renameProduct(id: number, name: string) {
+  await prisma.product.update({ where: { id }, data: { name } });
+  return await prisma.product.findUnique({ where: { id } });
+}
+
+export { archiveUser, archiveUserOnPrimary, recordAndListAudits, renameProduct };
@@ -0,0 +1,50 @@
+import { prisma } from './client';
+import { billing } from './sdk/billing';
+
+// ❌ Issue: The SDK writes user, which its contract declares
+async function upgradeUser(userId: number) {
+  await billing.subscribe(userId, 'pro');
+  return await prisma.user.findUnique({ where: { id: userId } });
+}
+
+// ✅ OK: The contract declares that the SDK reads from the primary
+async function upgradeAndGetPlan(userId: number) {
+  await billing.subscribe(userId, 'pro');
+  return await billing.getPlan(userId);
+}
+
+/**
+ * Generated repository: the body goes through a dynamic delegate the
+ * analyzer cannot follow, so the contract says what it does
+ * @prismaWrites post
+ */
+async function savePost(delegate: string, data: Record<string, unknown>) {
+  await (prisma as any)[delegate].create({ data });
+}
+
+// ❌ Issue: savePost writes post, so the count may be stale
+async function publish(authorId: number) {
+  await savePost('post', { title: 'Hello', authorId });
+  return await prisma.post.count({ where: { authorId } });
+}
+
+/**
+ * Handed to a job queue, which calls it later
+ * @prismaReads comment
+ */
+const loadComments = async (postId: number) => {
+  // ⚠️ Contract warning: the body reads post, which @prismaReads does not declare
+  const post = await prisma.post.findUnique({ where: { id: postId } });
+  return post ? await prisma.comment.findMany({ where: { postId } }) : [];
+};
+
+/**
+ * ⚠️ Contract warning: @prismaPrimary, but the read may go to a replica
+ * @prismaReads user
+ * @prismaPrimary
+ */
+async function getFreshUser(id: number) {
+  return await prisma.user.findUnique({ where: { id } });
+}
+
+export { upgradeUser, upgradeAndGetPlan, publish, loadComments, getFreshUser };
@@ -0,0 +1,47 @@
+import { prisma } from './client';
+
+// ✅ OK: The write and the read are in exclusive branches
+async function createOrList(shouldCreate: boolean, email: string) {
+  if (shouldCreate) {
+    return await prisma.user.create({ data: { name: 'Frank', email } });
+  } else {
+    return await prisma.user.findMany({ where: { email } });
+  }
+}
+
+// ✅ OK: The write only happens after an early return
+async function listOrCreate(email: string) {
+  const users = await prisma.user.findMany({ where: { email } });
+  if (users.length > 0) {
+    return users;
+  }
+
+  return await prisma.user.create({ data: { name: 'Grace', email } });
+}
+
+// ❌ Issue: The read in the next iteration follows the write of the previous one
+async function syncUsers(emails: string[]) {
+  for (const email of emails) {
+    const existing = await prisma.user.findFirst({ where: { email } });
+    if (!existing) {
+      await prisma.user.create({ data: { name: 'Heidi', email } });
+    }
+  }
+}
+
+// ❌ Issue: The catch clause reads after a write that may have succeeded
+async function createOrRecover(email: string) {
+  try {
+    await prisma.user.create({ data: { name: 'Ivan', email } });
+    await notify(email);
+  } catch {
+    return await prisma.user.findUnique({ where: { email } });
+  }
+  return null;
+}
+
+async function notify(_email: string) {
+  throw new Error('not implemented');
+}
+
+export { createOrList, listOrCreate, syncUsers, createOrRecover };
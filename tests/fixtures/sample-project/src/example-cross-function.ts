@@ -0,0 +1,11 @@
+import { createUser, getUsers } from './services/user-repository';
+
+// ❌ Issue: Write and read happen in helpers called one after another
+async function registerUser(email: string) {
+  await createUser(email);
+
+  // getUsers() reads from the replica right after createUser() wrote
+  return await getUsers(email);
+}
+
+export { registerUser };
@@ -0,0 +1,10 @@
+/* prisma-raw-ignore-file: seed script, runs against the primary only */
+import { prisma } from './client';
+
+// ✅ Suppressed: The whole file is ignored
+async function seedUsers(email: string) {
+  await prisma.user.create({ data: { name: 'Wendy', email } });
+  return await prisma.user.findMany({ where: { email } });
+}
+
+export { seedUsers };
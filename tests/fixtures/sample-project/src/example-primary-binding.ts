@@ -0,0 +1,37 @@
+import { prisma } from './client';
+import { getPrimary, UserRepository } from './services/primary';
+
+const primaryRepository = new UserRepository(prisma.$primary());
+
+// ✅ OK: The read goes through a variable bound to the primary
+async function createWithPrimaryVariable(email: string) {
+  const db = prisma.$primary();
+  await prisma.user.create({ data: { name: 'Quentin', email } });
+  return await db.user.findMany({ where: { email } });
+}
+
+// ✅ OK: The read goes through a helper returning the primary
+async function createWithPrimaryHelper(email: string) {
+  await prisma.user.create({ data: { name: 'Rupert', email } });
+  return await getPrimary().user.findUnique({ where: { email } });
+}
+
+// ✅ OK: The repository was constructed with the primary client
+async function createWithPrimaryRepository(email: string) {
+  await prisma.user.create({ data: { name: 'Sybil', email } });
+  return await primaryRepository.findByEmail(email);
+}
+
+// ❌ Issue: The destructured delegate comes from the replica
+async function createWithReplicaDelegate(email: string) {
+  const { user } = prisma.$replica();
+  await prisma.user.create({ data: { name: 'Trent', email } });
+  return await user.findFirst({ where: { email } });
+}
+
+export {
+  createWithPrimaryVariable,
+  createWithPrimaryHelper,
+  createWithPrimaryRepository,
+  createWithReplicaDelegate,
+};
@@ -0,0 +1,33 @@
+import { Prisma } from '@prisma/client';
+import { getUsersByEmail } from '@prisma/client/sql';
+import { prisma } from './client';
+
+// ❌ Issue: Raw reads right after ORM writes see the replica
+async function createAndReport(email: string) {
+  await prisma.user.create({ data: { name: 'Olivia', email } });
+
+  return await prisma.$queryRaw`SELECT COUNT(*) FROM "users" WHERE email = ${email}`;
+}
+
+// ❌ Issue: A raw write followed by an ORM read of the mapped model
+async function archivePosts(authorId: number) {
+  await prisma.$executeRaw(Prisma.sql`DELETE FROM "posts" WHERE author_id = ${authorId}`);
+
+  return await prisma.comment.findMany();
+}
+
+// ❌ Issue: TypedSQL queries are resolved through prisma/sql
+async function createAndLoadTyped(email: string) {
+  await prisma.user.createManyAndReturn({ data: [{ name: 'Peggy', email }] });
+
+  return await prisma.$queryRawTyped(getUsersByEmail(email));
+}
+
+// ✅ OK: The raw query reads a table unrelated to the write
+async function logAndReadProducts() {
+  await prisma.auditLog.create({ data: { action: 'report' } });
+
+  return await prisma.$queryRawUnsafe('SELECT * FROM "Product"');
+}
+
+export { createAndReport, archivePosts, createAndLoadTyped, logAndReadProducts };
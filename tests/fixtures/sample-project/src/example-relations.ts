@@ -0,0 +1,42 @@
+import { prisma } from './client';
+
+// ❌ Issue: Nested create writes posts, which the next read observes
+async function createUserWithPost() {
+  await prisma.user.create({
+    data: {
+      name: 'Erin',
+      email: 'erin@example.com',
+      posts: { create: { title: 'Hello' } },
+    },
+  });
+
+  return await prisma.post.findMany({ where: { title: 'Hello' } });
+}
+
+// ❌ Issue: Deleting a user cascades to posts and comments
+async function deleteUserAndListComments(id: number) {
+  await prisma.user.delete({ where: { id } });
+
+  return await prisma.comment.count();
+}
+
+// ❌ Issue: The read includes the posts that were just written
+async function updatePostAndLoadAuthor(id: number) {
+  await prisma.post.update({ where: { id }, data: { title: 'Updated' } });
+
+  return await prisma.user.findMany({ include: { posts: true } });
+}
+
+// ✅ OK: The audit log and products are unrelated
+async function logAndListProducts() {
+  await prisma.auditLog.create({ data: { action: 'list-products' } });
+
+  return await prisma.product.findMany();
+}
+
+export {
+  createUserWithPost,
+  deleteUserAndListComments,
+  updatePostAndLoadAuthor,
+  logAndListProducts,
+};
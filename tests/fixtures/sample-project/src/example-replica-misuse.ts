@@ -0,0 +1,60 @@
+import { prisma } from './client';
+
+// ❌ Issue: Writes are rejected by replicas
+async function updateThroughReplica(id: number) {
+  return await prisma.$replica().user.update({
+    where: { id },
+    data: { name: 'Jane Doe' },
+  });
+}
+
+// ❌ Issue: The replica client is kept in a variable and still rejects writes
+async function deleteThroughReplicaClient(id: number) {
+  const replica = prisma.$replica();
+  await replica.post.delete({ where: { id } });
+}
+
+// ❌ Issue: $replica() leaves the transaction and misses the post it created
+async function readReplicaInTransaction(authorId: number) {
+  return await prisma.$transaction(async (tx) => {
+    await tx.post.create({ data: { title: 'Draft', authorId } });
+    return await prisma.$replica().post.findMany({ where: { authorId } });
+  });
+}
+
+// ❌ Issue: A replica read listed in a batch transaction
+async function readReplicaInBatch(authorId: number) {
+  return await prisma.$transaction([
+    prisma.post.create({ data: { title: 'Draft', authorId } }),
+    prisma.$replica().post.count({ where: { authorId } }),
+  ]);
+}
+
+// ❌ Issue: The replica is asked for explicitly right after the write
+async function readReplicaAfterWrite(id: number) {
+  await prisma.user.update({ where: { id }, data: { name: 'Jane Doe' } });
+  return await prisma.$replica().user.findUnique({ where: { id } });
+}
+
+// ✅ OK: Replica reads with no write before them
+async function readReplicaOnly(authorId: number) {
+  return await prisma.$replica().post.findMany({ where: { authorId } });
+}
+
+// ✅ OK: Reads and writes in the transaction go through its client
+async function readThroughTransactionClient(authorId: number) {
+  return await prisma.$transaction(async (tx) => {
+    await tx.post.create({ data: { title: 'Draft', authorId } });
+    return await tx.post.findMany({ where: { authorId } });
+  });
+}
+
+export {
+  updateThroughReplica,
+  deleteThroughReplicaClient,
+  readReplicaInTransaction,
+  readReplicaInBatch,
+  readReplicaAfterWrite,
+  readReplicaOnly,
+  readThroughTransactionClient,
+};
@@ -0,0 +1,23 @@
+import { prisma } from './client';
+
+// ✅ Suppressed: A slightly stale count is fine for analytics
+async function createAndCount(email: string) {
+  await prisma.user.create({ data: { name: 'Uma', email } });
+  // prisma-raw-ignore-next-line: analytics tolerate replica lag
+  return await prisma.user.count();
+}
+
+// ✅ Suppressed at the call site of the write
+async function renameAndList(id: number) {
+  /* prisma-raw-ignore-next-line: the list is refreshed by polling */
+  await prisma.user.update({ where: { id }, data: { name: 'Victor' } });
+  return await prisma.user.findMany();
+}
+
+// ⚠️ Unused: Nothing on the next line is reported
+async function listUsers() {
+  // prisma-raw-ignore-next-line: left over from an earlier version
+  return await prisma.user.findMany();
+}
+
+export { createAndCount, renameAndList, listUsers };
@@ -0,0 +1,59 @@
+import type { Prisma } from '@prisma/client';
+import { prisma } from './client';
+
+interface PostInput {
+  title: string;
+  authorId: number;
+}
+
+// Helpers that receive the transaction client run inside the transaction
+async function createPost(tx: Prisma.TransactionClient, input: PostInput) {
+  return await tx.post.create({ data: input });
+}
+
+async function findPosts(db: Prisma.TransactionClient, authorId: number) {
+  return await db.post.findMany({ where: { authorId } });
+}
+
+// ✅ OK: The transaction client is passed to helpers
+async function createPostInTransaction(input: PostInput) {
+  return await prisma.$transaction(async (tx) => {
+    await createPost(tx, input);
+    return await findPosts(tx, input.authorId);
+  });
+}
+
+// ✅ OK: Batch transactions run every query on the primary
+async function createPostsInBatch(input: PostInput) {
+  return await prisma.$transaction([
+    prisma.post.create({ data: input }),
+    prisma.post.findMany({ where: { authorId: input.authorId } }),
+  ]);
+}
+
+// ❌ Issue: The read uses the outer client, not the transaction client
+async function readOutsideTransaction(input: PostInput) {
+  return await prisma.$transaction(async (tx) => {
+    await tx.post.create({ data: input });
+    return await prisma.post.findMany({ where: { authorId: input.authorId } });
+  });
+}
+
+const queue = {
+  $transaction: async <T>(callback: () => Promise<T>) => await callback(),
+};
+
+// ❌ Issue: $transaction on something other than a Prisma client
+async function createInQueueTransaction(input: PostInput) {
+  return await queue.$transaction(async () => {
+    await prisma.post.create({ data: input });
+    return await prisma.post.findMany({ where: { authorId: input.authorId } });
+  });
+}
+
+export {
+  createPostInTransaction,
+  createPostsInBatch,
+  readOutsideTransaction,
+  createInQueueTransaction,
+};
@@ -0,0 +1,36 @@
+import { prisma } from './client';
+
+// ❌ Issue (unnecessary-primary): Nothing writes before this read, in any caller
+async function listPosts(authorId: number) {
+  return await prisma.$primary().post.findMany({ where: { authorId } });
+}
+
+async function postsPage(authorId: number) {
+  return { posts: await listPosts(authorId) };
+}
+
+async function postsReport(authorIds: number[]) {
+  const pages = [];
+  for (const authorId of authorIds) {
+    pages.push(await listPosts(authorId));
+  }
+  return pages;
+}
+
+// ✅ OK: A caller writes before calling it, so the primary is needed
+async function findUser(id: number) {
+  return await prisma.$primary().user.findUnique({ where: { id } });
+}
+
+async function renameUser(id: number, name: string) {
+  await prisma.user.update({ where: { id }, data: { name } });
+  return await findUser(id);
+}
+
+// ✅ OK: The write comes first in the same function
+async function countAfterCreate(authorId: number) {
+  await prisma.post.create({ data: { title: 'Draft', authorId } });
+  return await prisma.$primary().post.count({ where: { authorId } });
+}
+
+export { postsPage, postsReport, renameUser, countAfterCreate };
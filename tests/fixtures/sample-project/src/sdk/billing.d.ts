@@ -0,0 +1,18 @@
+// Types of a billing SDK that ships without its source. It writes to the
+// same database through a client of its own.
+
+export interface BillingClient {
+  /**
+   * Create the user's subscription and record it in the audit log
+   * @prismaWrites user, auditLog
+   */
+  subscribe(userId: number, plan: string): Promise<void>;
+
+  /**
+   * @prismaReads user
+   * @prismaPrimary
+   */
+  getPlan(userId: number): Promise<string>;
+}
+
+export declare const billing: BillingClient;
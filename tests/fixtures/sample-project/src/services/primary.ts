@@ -0,0 +1,12 @@
+import { prisma } from '../client';
+
+// Helper that pins queries to the primary
+export const getPrimary = () => prisma.$primary();
+
+export class UserRepository {
+  constructor(private readonly db: typeof prisma) {}
+
+  async findByEmail(email: string) {
+    return await this.db.user.findUnique({ where: { email } });
+  }
+}
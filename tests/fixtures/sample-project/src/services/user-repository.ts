@@ -0,0 +1,13 @@
+import { prisma } from '../client';
+
+export async function createUser(email: string) {
+  return await prisma.user.create({
+    data: { name: 'Dana', email },
+  });
+}
+
+export const getUsers = async (email: string) => {
+  return await prisma.user.findMany({
+    where: { email },
+  });
+};
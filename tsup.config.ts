@@ -1,7 +1,11 @@
 import { defineConfig } from 'tsup';
 
 export default defineConfig({
-  entry: ['src/cli.ts', 'src/index.ts'],
+  entry: {
+    cli: 'src/cli.ts',
+    index: 'src/index.ts',
+    'eslint-plugin': 'src/eslint-plugin/index.ts',
+  },
   format: ['esm'],
   dts: true,
   splitting: false,
@@ -0,0 +1,8 @@
+import { configDefaults, defineConfig } from 'vitest/config';
+
+export default defineConfig({
+  test: {
+    // Fixtures are projects to analyze, not test suites
+    exclude: [...configDefaults.exclude, 'tests/fixtures/**'],
+  },
+});